@@ -45,6 +45,7 @@ const nextConfig = {
     ],
   },
   output: 'export', // Required for static export
+  trailingSlash: true, // Emit /<route>/index.html so deep links work on any static host
   outputFileTracingRoot: path.resolve(__dirname, '../../'),
 };
 
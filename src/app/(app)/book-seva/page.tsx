@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import BookSevaSection from "@/components/BookSevaSection";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function BookSevaPage() {
+  return (
+    <RequirePermission permission="book-seva:view">
+      {/* Filters and paging are read from the query string */}
+      <Suspense>
+        <BookSevaSection />
+      </Suspense>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import CallingSevaSection from "@/components/CallingSevaSection";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function CallingSevaPage() {
+  return (
+    <RequirePermission permission="calling-seva:view">
+      {/* Filters and paging are read from the query string */}
+      <Suspense>
+        <CallingSevaSection />
+      </Suspense>
+    </RequirePermission>
+  );
+}
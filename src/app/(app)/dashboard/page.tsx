@@ -0,0 +1,10 @@
+import Dashboard from "@/components/Dashboard";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function DashboardPage() {
+  return (
+    <RequirePermission permission="dashboard:view">
+      <Dashboard />
+    </RequirePermission>
+  );
+}
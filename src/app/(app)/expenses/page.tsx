@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import ExpensesSection from "@/components/ExpensesSection";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function ExpensesPage() {
+  return (
+    <RequirePermission permission="expenses:view">
+      {/* Filters and paging are read from the query string */}
+      <Suspense>
+        <ExpensesSection />
+      </Suspense>
+    </RequirePermission>
+  );
+}
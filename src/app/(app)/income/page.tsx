@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import IncomeSection from "@/components/IncomeSection";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function IncomePage() {
+  return (
+    <RequirePermission permission="income:view">
+      {/* Filters, paging and tab are read from the query string */}
+      <Suspense>
+        <IncomeSection />
+      </Suspense>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import InventorySection from "@/components/InventorySection";
+import RequirePermission from "@/components/RequirePermission";
+
+export default function InventoryPage() {
+  return (
+    <RequirePermission permission="inventory:view">
+      {/* Movement filters and paging are read from the query string */}
+      <Suspense>
+        <InventorySection />
+      </Suspense>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { Toaster } from "sonner";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import ConstantsProvider from "@/components/ConstantsProvider";
+import Layout from "@/components/Layout";
+
+export default function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <ProtectedRoute>
+      <ConstantsProvider>
+        <Layout>
+          <div className="container mx-auto max-w-7xl px-4 py-6">
+            {children}
+          </div>
+        </Layout>
+      </ConstantsProvider>
+      <Toaster position="top-right" />
+    </ProtectedRoute>
+  );
+}
@@ -1,76 +1,49 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Toaster } from "sonner";
 import Auth from "@/components/Auth";
-import ProtectedRoute from "@/components/ProtectedRoute";
-import Layout from "@/components/Layout";
-import Dashboard from "@/components/Dashboard";
-import BookSevaSection from "@/components/BookSevaSection";
-import CallingSevaSection from "@/components/CallingSevaSection";
-import ExpensesSection from "@/components/ExpensesSection";
+import { safeRedirectPath } from "@/lib/routes";
 
-type ViewType = "login" | "dashboard" | "book-seva" | "calling-seva" | "expenses";
-
-export default function Page() {
+function LoginPage() {
   const router = useRouter();
-  const [currentView, setCurrentView] = useState<ViewType>("login");
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const searchParams = useSearchParams();
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  // Where to go after login: the deep link that sent us here, or the dashboard
+  const redirectTo = safeRedirectPath(searchParams.get("next"));
 
   useEffect(() => {
-    // Check if user is authenticated on mount
+    // Skip the login screen if already authenticated
     const token = localStorage.getItem("access_token");
     if (token) {
-      setIsAuthenticated(true);
-      setCurrentView("dashboard");
+      router.replace(redirectTo);
     } else {
-      setIsAuthenticated(false);
-      setCurrentView("login");
+      setCheckingSession(false);
     }
   }, []);
 
   const handleSuccessfulLogin = () => {
-    setIsAuthenticated(true);
-    setCurrentView("dashboard");
-  };
-
-  const handleNavigation = (view: ViewType) => {
-    setCurrentView(view);
-  };
-
-  const renderMainContent = () => {
-    switch (currentView) {
-      case "dashboard":
-        return <Dashboard onNavigate={handleNavigation} />;
-      case "book-seva":
-        return <BookSevaSection />;
-      case "calling-seva":
-        return <CallingSevaSection />;
-      case "expenses":
-        return <ExpensesSection />;
-      default:
-        return <Dashboard onNavigate={handleNavigation} />;
-    }
+    router.replace(redirectTo);
   };
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center p-4">
-        <Auth onSuccessfulLogin={handleSuccessfulLogin} />
-        <Toaster position="top-right" />
-      </div>
-    );
+  if (checkingSession) {
+    return null;
   }
 
   return (
-    <ProtectedRoute>
-      <Layout onNavigate={handleNavigation}>
-        <div className="container mx-auto max-w-7xl px-4 py-6">
-          {renderMainContent()}
-        </div>
-      </Layout>
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Auth onSuccessfulLogin={handleSuccessfulLogin} />
       <Toaster position="top-right" />
-    </ProtectedRoute>
+    </div>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense>
+      <LoginPage />
+    </Suspense>
   );
-}
\ No newline at end of file
+}
@@ -1,8 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Card,
   CardContent,
@@ -11,15 +14,30 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Loader2, Mail, Lock } from "lucide-react";
+import { Loader2, Mail, Lock, ShieldCheck, ArrowLeft, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 import {
   authApi,
   type LoginInitRequest,
+  type LoginInitResponse,
   ApiServiceError,
+  AccountLockedError,
   TokenManager
 } from "@/lib/api";
 
+const DEFAULT_OTP_LENGTH = 6;
+const DEFAULT_RESEND_SECONDS = 30;
+// Used when a lockout or rate limit doesn't say how long it lasts
+const DEFAULT_LOCKOUT_SECONDS = 60;
+
+type AuthStep = "credentials" | "otp";
+
+const formatCountdown = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m > 0 ? `${m}:${s.toString().padStart(2, "0")}` : `${s}s`;
+};
+
 interface AuthProps {
   onSuccessfulLogin: (accessToken: string) => void;
 }
@@ -32,6 +50,61 @@ export default function Auth({ onSuccessfulLogin }: AuthProps) {
   });
   const [loginErrors, setLoginErrors] = useState<Record<string, string>>({});
 
+  // OTP step
+  const [step, setStep] = useState<AuthStep>("credentials");
+  const [otpCode, setOtpCode] = useState("");
+  const [otpLength, setOtpLength] = useState(DEFAULT_OTP_LENGTH);
+  const [otpError, setOtpError] = useState("");
+  const [resendIn, setResendIn] = useState(0);
+  const [resending, setResending] = useState(false);
+
+  // Lockout, in seconds remaining
+  const [lockedFor, setLockedFor] = useState(0);
+  const [lockMessage, setLockMessage] = useState("");
+
+  // One ticker drives both the resend and lockout countdowns
+  useEffect(() => {
+    if (resendIn <= 0 && lockedFor <= 0) return;
+    const timer = setInterval(() => {
+      setResendIn(prev => Math.max(0, prev - 1));
+      setLockedFor(prev => (prev > 0 ? prev - 1 : prev));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [resendIn > 0, lockedFor > 0]);
+
+  const isLocked = lockedFor > 0;
+
+  const completeLogin = (accessToken: string) => {
+    toast.success("Login successful!");
+    TokenManager.setToken(accessToken);
+    onSuccessfulLogin(accessToken);
+  };
+
+  const startOtpStep = (response: LoginInitResponse) => {
+    setStep("otp");
+    setOtpCode("");
+    setOtpError("");
+    setOtpLength(response.otp_length || DEFAULT_OTP_LENGTH);
+    setResendIn(response.resend_in ?? DEFAULT_RESEND_SECONDS);
+  };
+
+  // Returns true when the error was a lockout and has been shown
+  const handleLockout = (error: unknown): boolean => {
+    const retryAfter = error instanceof ApiServiceError ? error.details?.retryAfter : undefined;
+
+    if (error instanceof AccountLockedError) {
+      setLockMessage(error.message);
+      setLockedFor(error.retryAfter ?? DEFAULT_LOCKOUT_SECONDS);
+      return true;
+    }
+    if (error instanceof ApiServiceError && error.status === 429) {
+      setLockMessage("Too many attempts. Please wait before trying again.");
+      setLockedFor(retryAfter ?? DEFAULT_LOCKOUT_SECONDS);
+      return true;
+    }
+    return false;
+  };
+
   // Validate email and password fields
   const validateLoginForm = (): boolean => {
     const errors: Record<string, string> = {};
@@ -62,15 +135,17 @@ export default function Auth({ onSuccessfulLogin }: AuthProps) {
     try {
       const response = await authApi.loginInit(loginData);
 
-      if (response?.access_token) {
-        toast.success("Login successful!");
-        TokenManager.setToken(response.access_token); // <-- ✅ Add this
-        onSuccessfulLogin(response.access_token);
+      if (response?.otp_required) {
+        startOtpStep(response);
+        toast.success(`A verification code has been sent to ${loginData.username}`);
+      } else if (response?.access_token) {
+        completeLogin(response.access_token);
       } else {
         toast.error("Authentication failed. Please try again.");
       }
     } catch (error) {
       console.error("Login error:", error);
+      if (handleLockout(error)) return;
       if (error instanceof ApiServiceError) {
         if (error.status === 400 || error.status === 401) {
           toast.error("Invalid email or password.");
@@ -85,6 +160,185 @@ export default function Auth({ onSuccessfulLogin }: AuthProps) {
     }
   };
 
+  // Submit the emailed code. Takes the code explicitly because onComplete
+  // fires before the otpCode state update lands.
+  const verifyCode = async (code: string) => {
+    if (code.length !== otpLength) {
+      setOtpError(`Enter the ${otpLength}-digit code from your email`);
+      return;
+    }
+
+    setLoading(true);
+    setOtpError("");
+    try {
+      const response = await authApi.verifyOtp({ email: loginData.username, code });
+
+      if (response?.access_token) {
+        completeLogin(response.access_token);
+      } else {
+        setOtpError("Verification failed. Please try again.");
+      }
+    } catch (error) {
+      console.error("OTP verification error:", error);
+      setOtpCode("");
+      if (handleLockout(error)) return;
+      if (error instanceof ApiServiceError && (error.status === 400 || error.status === 401)) {
+        setOtpError("Invalid or expired code. Please check and try again.");
+      } else if (error instanceof ApiServiceError) {
+        setOtpError(error.message);
+      } else {
+        setOtpError("An unexpected error occurred. Please try again.");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOtpSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyCode(otpCode);
+  };
+
+  // Re-running login-init with the same credentials sends a fresh code
+  const handleResendOtp = async () => {
+    if (resendIn > 0 || isLocked) return;
+
+    setResending(true);
+    setOtpError("");
+    try {
+      const response = await authApi.loginInit(loginData);
+      if (response?.access_token && !response.otp_required) {
+        completeLogin(response.access_token);
+        return;
+      }
+      setOtpCode("");
+      setResendIn(response?.resend_in ?? DEFAULT_RESEND_SECONDS);
+      toast.success("A new verification code has been sent");
+    } catch (error) {
+      console.error("Resend OTP error:", error);
+      if (!handleLockout(error)) {
+        setOtpError("Could not resend the code. Please try again.");
+      }
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const backToCredentials = () => {
+    setStep("credentials");
+    setOtpCode("");
+    setOtpError("");
+    setResendIn(0);
+    setLoginData(prev => ({ ...prev, password: "" }));
+  };
+
+  const lockoutAlert = isLocked && (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Sign-in temporarily locked</AlertTitle>
+      <AlertDescription>
+        {lockMessage}
+        {` Try again in ${formatCountdown(lockedFor)}.`}
+      </AlertDescription>
+    </Alert>
+  );
+
+  if (step === "otp") {
+    return (
+      <Card className="w-full max-w-md mx-auto bg-card border-border shadow-lg">
+        <CardHeader className="text-center space-y-3">
+          <div className="mx-auto w-14 h-14 bg-primary/10 rounded-full flex items-center justify-center">
+            <ShieldCheck className="h-7 w-7 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-heading text-foreground">
+            Verify it's you
+          </CardTitle>
+          <CardDescription className="text-muted-foreground">
+            Enter the {otpLength}-digit code sent to <strong>{loginData.username}</strong>
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {lockoutAlert}
+
+          <form onSubmit={handleOtpSubmit} className="space-y-4">
+            <div className="flex flex-col items-center space-y-2">
+              <Label htmlFor="otp" className="sr-only">
+                Verification code
+              </Label>
+              <InputOTP
+                id="otp"
+                maxLength={otpLength}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={otpCode}
+                onChange={(value) => {
+                  setOtpCode(value);
+                  if (otpError) setOtpError("");
+                }}
+                onComplete={(value: string) => {
+                  if (!loading && !isLocked) verifyCode(value);
+                }}
+                disabled={loading || isLocked}
+                autoFocus
+                autoComplete="one-time-code"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: otpLength }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} aria-invalid={!!otpError} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              {otpError && (
+                <p className="text-sm text-destructive text-center">{otpError}</p>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-primary/90"
+              disabled={loading || isLocked || otpCode.length !== otpLength}
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+          </form>
+
+          <div className="flex items-center justify-between text-sm">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={backToCredentials}
+              disabled={loading}
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              onClick={handleResendOtp}
+              disabled={resendIn > 0 || resending || loading || isLocked}
+            >
+              {resending
+                ? "Sending..."
+                : resendIn > 0
+                  ? `Resend code in ${formatCountdown(resendIn)}`
+                  : "Resend code"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto bg-card border-border shadow-lg">
       <CardHeader className="text-center space-y-3">
@@ -104,6 +358,8 @@ export default function Auth({ onSuccessfulLogin }: AuthProps) {
       </CardHeader>
 
       <CardContent className="space-y-6">
+        {lockoutAlert}
+
         <form onSubmit={handleLoginSubmit} className="space-y-4">
           {/* Email Field */}
           <div className="space-y-2">
@@ -165,7 +421,7 @@ export default function Auth({ onSuccessfulLogin }: AuthProps) {
           <Button
             type="submit"
             className="w-full bg-primary hover:bg-primary/90"
-            disabled={loading}
+            disabled={loading || isLocked}
           >
             {loading ? (
               <>
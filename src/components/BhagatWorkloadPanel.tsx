@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw } from "lucide-react";
+import { callingSevaApi, type BhagatWorkload } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import {
+  ASSIGNMENT_STRATEGIES,
+  ASSIGNMENT_STRATEGY_LABELS,
+  isAssignmentStrategy,
+  type AssignmentStrategy
+} from "@/lib/assignment";
+
+interface BhagatWorkloadPanelProps {
+  strategy: AssignmentStrategy;
+  onStrategyChange: (strategy: AssignmentStrategy) => void;
+  // Opens the follow-up queue filtered to one bhagat's overdue calls
+  onShowDue: (bhagat: string) => void;
+  reloadKey: number;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Open, due and completed calls per bhagat, plus the assignment strategy
+// used for new calls
+export default function BhagatWorkloadPanel({ strategy, onStrategyChange, onShowDue, reloadKey }: BhagatWorkloadPanelProps) {
+  const { bhagatNames } = useConstants();
+  const [workload, setWorkload] = useState<BhagatWorkload[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadWorkload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setWorkload(await callingSevaApi.getWorkload());
+    } catch (error) {
+      console.error("Error loading workload:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const { isOnline } = useOfflineQueue(() => loadWorkload());
+
+  useEffect(() => {
+    loadWorkload();
+  }, [loadWorkload, reloadKey]);
+
+  // Every bhagat in the list, even with no calls yet
+  const rows = bhagatNames.map(name =>
+    workload.find(w => w.bhagat_name.trim().toLowerCase() === name.trim().toLowerCase())
+    ?? { bhagat_name: name, languages: [], open: 0, due: 0, completed: 0 }
+  );
+  const maxOpen = Math.max(1, ...rows.map(row => row.open));
+  const totals = rows.reduce(
+    (sum, row) => ({ open: sum.open + row.open, due: sum.due + row.due, completed: sum.completed + row.completed }),
+    { open: 0, due: 0, completed: 0 }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <CardTitle>Workload</CardTitle>
+            <CardDescription>
+              {totals.open} open · {totals.due} due · {totals.completed} completed
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="assignment_strategy" className="text-xs">Assign new calls by</Label>
+              <Select
+                value={strategy}
+                onValueChange={(value) => isAssignmentStrategy(value) && onStrategyChange(value)}
+              >
+                <SelectTrigger id="assignment_strategy" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNMENT_STRATEGIES.map(value => (
+                    <SelectItem key={value} value={value}>{ASSIGNMENT_STRATEGY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="icon" onClick={loadWorkload} disabled={loading || !isOnline} aria-label="Refresh workload">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bhagat</TableHead>
+                <TableHead>Languages</TableHead>
+                <TableHead className="w-1/3">Open</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Completed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.bhagat_name}>
+                  <TableCell className="font-medium">{capitalize(row.bhagat_name)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {row.languages.length > 0
+                        ? row.languages.map(language => (
+                          <Badge key={language} variant="secondary">{capitalize(language)}</Badge>
+                        ))
+                        : <span className="text-muted-foreground">Not set</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 flex-1 rounded-full bg-primary/10 overflow-hidden">
+                        <div className="h-full bg-primary" style={{ width: `${(row.open / maxOpen) * 100}%` }} />
+                      </div>
+                      <span className="w-8 text-right tabular-nums">{row.open}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {row.due > 0 ? (
+                      <Button variant="link" className="h-auto p-0 text-red-600" onClick={() => onShowDue(row.bhagat_name)}>
+                        {row.due}
+                      </Button>
+                    ) : (
+                      <span className="text-muted-foreground">0</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="tabular-nums">{row.completed}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
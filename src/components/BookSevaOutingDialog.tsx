@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  bookSevaApi,
+  BOOK_NAMES,
+  ApiServiceError,
+  apiUtils,
+  type BookName,
+  type BookSevaOutingLine,
+  type StockBalance
+} from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+
+interface BookSevaOutingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Store-room balances for the stock hint; null when not available
+  stock: StockBalance[] | null;
+  onSaved: () => void;
+}
+
+interface OutingHeader {
+  date: string;
+  seva_place: string;
+  sevadar_name: string;
+  coordinator_name: string;
+  driver_name: string;
+}
+
+const newLine = (): BookSevaOutingLine => ({ book_name: BOOK_NAMES[0], book_type: "free", quantity: 1 });
+
+const lineKey = (line: BookSevaOutingLine) => `${line.book_name}|${line.book_type}`;
+
+const validateOuting = (header: OutingHeader, lines: BookSevaOutingLine[]) => {
+  const errors: Record<string, string> = {};
+  if (!header.date) errors.date = "Date is required";
+  if (!header.seva_place.trim()) errors.seva_place = "Location is required";
+  if (!header.sevadar_name.trim()) errors.sevadar_name = "Sevadar name is required";
+  if (lines.length === 0) errors.lines = "Add at least one book";
+
+  const seen = new Set<string>();
+  lines.forEach((line, index) => {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      errors[`line-${index}`] = "Quantity must be greater than 0";
+    } else if (seen.has(lineKey(line))) {
+      errors[`line-${index}`] = "This book and type is already listed";
+    }
+    seen.add(lineKey(line));
+  });
+  return errors;
+};
+
+// Records one outing: shared date, place and people, plus a line per title
+export default function BookSevaOutingDialog({ open, onOpenChange, stock, onSaved }: BookSevaOutingDialogProps) {
+  const { coordinatorName, driverName } = useConstants();
+  const [header, setHeader] = useState<OutingHeader>({
+    date: "",
+    seva_place: "",
+    sevadar_name: "",
+    coordinator_name: coordinatorName,
+    driver_name: driverName
+  });
+  const [lines, setLines] = useState<BookSevaOutingLine[]>([newLine()]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [serverError, setServerError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start every outing from a clean form
+  useEffect(() => {
+    if (!open) return;
+    setHeader({
+      date: new Date().toISOString().split("T")[0],
+      seva_place: "",
+      sevadar_name: "",
+      coordinator_name: coordinatorName,
+      driver_name: driverName
+    });
+    setLines([newLine()]);
+    setErrors({});
+    setServerError("");
+  }, [open]);
+
+  // Fill in coordinator and driver once constants arrive, keeping anything typed
+  useEffect(() => {
+    setHeader(prev => ({
+      ...prev,
+      coordinator_name: prev.coordinator_name || coordinatorName,
+      driver_name: prev.driver_name || driverName
+    }));
+  }, [coordinatorName, driverName]);
+
+  const handleHeaderChange = (field: keyof OutingHeader, value: string) => {
+    setHeader(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const handleLineChange = (index: number, changes: Partial<BookSevaOutingLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    if (errors[`line-${index}`]) setErrors(prev => ({ ...prev, [`line-${index}`]: "" }));
+  };
+
+  const addLine = () => {
+    setLines(prev => [...prev, newLine()]);
+    setErrors(prev => ({ ...prev, lines: "" }));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+    // Line errors are keyed by position, so re-validate on next submit
+    setErrors(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith("line-"))));
+  };
+
+  const stockFor = (bookName: BookName) => stock?.find(s => s.book_name === bookName)?.balance ?? 0;
+
+  const totalQuantity = lines.reduce((sum, line) => sum + (line.quantity || 0), 0);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateOuting(header, lines);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setSaving(true);
+    setServerError("");
+    try {
+      await bookSevaApi.createOuting({
+        ...header,
+        seva_place: header.seva_place.trim(),
+        sevadar_name: header.sevadar_name.trim(),
+        lines
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Book Seva Outing</DialogTitle>
+          <DialogDescription>
+            Enter the outing details once, then add a line for each book distributed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {serverError && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {serverError}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Shared outing details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="outing_date">Date *</Label>
+              <Input
+                id="outing_date"
+                type="date"
+                value={header.date}
+                onChange={(e) => handleHeaderChange("date", e.target.value)}
+                className={errors.date ? "border-destructive" : ""}
+              />
+              {errors.date && <p className="text-sm text-destructive">{errors.date}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="outing_place">Location *</Label>
+              <Input
+                id="outing_place"
+                value={header.seva_place}
+                onChange={(e) => handleHeaderChange("seva_place", e.target.value)}
+                placeholder="e.g. Ernakulam Junction"
+                className={errors.seva_place ? "border-destructive" : ""}
+              />
+              {errors.seva_place && <p className="text-sm text-destructive">{errors.seva_place}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="outing_sevadar">Sevadar Name *</Label>
+              <Input
+                id="outing_sevadar"
+                value={header.sevadar_name}
+                onChange={(e) => handleHeaderChange("sevadar_name", e.target.value)}
+                className={errors.sevadar_name ? "border-destructive" : ""}
+              />
+              {errors.sevadar_name && <p className="text-sm text-destructive">{errors.sevadar_name}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="outing_coordinator">Coordinator Name</Label>
+              <Input
+                id="outing_coordinator"
+                value={header.coordinator_name}
+                onChange={(e) => handleHeaderChange("coordinator_name", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="outing_driver">Driver Name</Label>
+              <Input
+                id="outing_driver"
+                value={header.driver_name}
+                onChange={(e) => handleHeaderChange("driver_name", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Line items */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Books Distributed *</Label>
+              <span className="text-sm text-muted-foreground">
+                {lines.length} {lines.length === 1 ? "line" : "lines"} · {totalQuantity} books
+              </span>
+            </div>
+
+            {lines.map((line, index) => (
+              <div key={index} className="space-y-1">
+                <div className="grid grid-cols-[1fr_7rem_6rem_auto] gap-2 items-center">
+                  <Select
+                    value={line.book_name}
+                    onValueChange={(value) => handleLineChange(index, { book_name: value as BookName })}
+                  >
+                    <SelectTrigger aria-label={`Book for line ${index + 1}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BOOK_NAMES.map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={line.book_type}
+                    onValueChange={(value) => handleLineChange(index, { book_type: value })}
+                  >
+                    <SelectTrigger aria-label={`Type for line ${index + 1}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="free">Free</SelectItem>
+                      <SelectItem value="paid">Paid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={line.quantity}
+                    onChange={(e) => handleLineChange(index, { quantity: parseInt(e.target.value) || 0 })}
+                    aria-label={`Quantity for line ${index + 1}`}
+                    className={errors[`line-${index}`] ? "border-destructive" : ""}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeLine(index)}
+                    disabled={lines.length === 1}
+                    aria-label={`Remove line ${index + 1}`}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {errors[`line-${index}`] && (
+                  <p className="text-sm text-destructive">{errors[`line-${index}`]}</p>
+                )}
+                {stock && !errors[`line-${index}`] && (
+                  <p className={`text-xs ${line.quantity > stockFor(line.book_name) ? "text-amber-600" : "text-muted-foreground"}`}>
+                    In stock: {stockFor(line.book_name)}
+                  </p>
+                )}
+              </div>
+            ))}
+            {errors.lines && <p className="text-sm text-destructive">{errors.lines}</p>}
+
+            <Button type="button" variant="outline" size="sm" onClick={addLine}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Book
+            </Button>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Outing
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
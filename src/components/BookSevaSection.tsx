@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, FormEvent, useCallback } from "react";
+import { useState, useEffect, useMemo, FormEvent, useCallback, Fragment } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,20 +11,85 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogTrigger, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Plus, Edit, Trash2, Search, Calendar, ChevronLeft, ChevronRight, Filter, Download, TrendingUp, BookAIcon, BookOpen, BookIcon, BookPlusIcon } from "lucide-react";
-import { bookSevaApi, type BookSevaRead, type BookSevaCreate, type BookSevaUpdate } from "@/lib/api";
-import { exportToCSV } from "@/utils/exportToCSV";
-import { formatRecords } from "@/utils/formatRecords";
+import { Loader2, Plus, Edit, Trash2, Search, Calendar, Filter, Download, TrendingUp, BookAIcon, BookOpen, BookIcon, BookPlusIcon, ChevronDown, ChevronRight, Layers } from "lucide-react";
+import { bookSevaApi, inventoryApi, apiUtils, type BookSevaRead, type BookSevaCreate, type BookSevaUpdate, type BookSevaOutingCreate, type StockBalance } from "@/lib/api";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { getPendingCreates, getSyncStates, isLocalId } from "@/lib/offlineQueue";
+import ExportDialog from "@/components/ExportDialog";
+import { BOOK_SEVA_COLUMNS } from "@/lib/exportColumns";
+import { formatPeriod } from "@/lib/reports";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+import { useConstants } from "@/components/ConstantsProvider";
+import BookSevaOutingDialog from "@/components/BookSevaOutingDialog";
 
 import {
   BOOK_NAMES,
-  BookName,
-  COORDINATOR_NAME,
-  DRIVER_NAME,
-  fetchConstants
+  BookName
 } from "@/lib/api";
 
+const PAGE_SIZE_OPTIONS = [20, 50, 100, 200, 1000];
+const DEFAULT_PAGE_SIZE = 100;
+
+interface OutingGroup {
+  key: string;
+  outingId?: string;
+  lines: BookSevaRead[];
+  totalQuantity: number;
+}
+
+// Group records by outing, keeping page order. Records saved on their own
+// form a group of one.
+const groupByOuting = (records: BookSevaRead[]): OutingGroup[] => {
+  const groups = new Map<string, OutingGroup>();
+  records.forEach(record => {
+    const key = record.outing_id ?? record.id;
+    const group = groups.get(key) ?? { key, outingId: record.outing_id, lines: [], totalQuantity: 0 };
+    group.lines.push(record);
+    group.totalQuantity += record.quantity || 0;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+// An outing waiting in the offline queue is a single request; show each of
+// its lines as a row
+const expandPendingOuting = (pending: BookSevaRead | (BookSevaOutingCreate & { id: string })): BookSevaRead[] => {
+  if (!("lines" in pending)) return [pending];
+  const { lines, id, ...header } = pending;
+  return lines.map((line, index) => ({ ...header, ...line, id: `${id}:${index}`, outing_id: id }));
+};
+
+const isQueuedOutingLine = (record: BookSevaRead) => isLocalId(record.outing_id);
+
+const matchesSearch = (record: BookSevaRead, term: string) => {
+  const query = term.trim().toLowerCase();
+  if (!query) return true;
+  return (
+    record.seva_place?.toLowerCase().includes(query) ||
+    record.sevadar_name?.toLowerCase().includes(query) ||
+    record.book_name?.toLowerCase().includes(query) ||
+    record.coordinator_name?.toLowerCase().includes(query) ||
+    record.driver_name?.toLowerCase().includes(query)
+  );
+};
+
 export default function BookSevaSection() {
+  const { can } = useAuth();
+  const { coordinatorName, driverName } = useConstants();
+
+  // Applied filters, page and search live in the query string
+  // (?from=&to=&page=&size=&q=&view=) so a view survives refresh and can be shared
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const appliedFrom = searchParams.get("from") || "";
+  const appliedTo = searchParams.get("to") || "";
+  const appliedSearch = searchParams.get("q") || "";
+  const viewMode = searchParams.get("view") === "outings" ? "outings" : "records";
+  const currentPage = parsePageParam(searchParams.get("page"), 1);
+  const recordsPerPage = parsePageParam(searchParams.get("size"), DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS);
+
   // Data and loading states
   const [records, setRecords] = useState<BookSevaRead[]>([]);
   const [filteredRecords, setFilteredRecords] = useState<BookSevaRead[]>([]);
@@ -37,19 +102,20 @@ export default function BookSevaSection() {
   oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
   const oneMonthAgoStr = oneMonthAgo.toISOString().split("T")[0];
 
-  const [fromDate, setFromDate] = useState(oneMonthAgoStr);
-  const [toDate, setToDate] = useState(today);
+  const [fromDate, setFromDate] = useState(appliedFrom || oneMonthAgoStr);
+  const [toDate, setToDate] = useState(appliedTo || today);
 
   // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
-  const [recordsPerPage, setRecordsPerPage] = useState(100);
+  const [totalRecords, setTotalRecords] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
 
   // Search state
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchTerm, setSearchTerm] = useState(appliedSearch);
 
   // Form states
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showOutingDialog, setShowOutingDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [editingRecord, setEditingRecord] = useState<BookSevaRead | null>(null);
   const [formLoading, setFormLoading] = useState(false);
   const [deletingRecord, setDeletingRecord] = useState<BookSevaRead | null>(null);
@@ -63,57 +129,121 @@ export default function BookSevaSection() {
     book_name: BOOK_NAMES[0],
     book_type: "free",
     quantity: 1,
-    coordinator_name: COORDINATOR_NAME,
-    driver_name: DRIVER_NAME
+    coordinator_name: coordinatorName,
+    driver_name: driverName
   });
 
-  // Fetch dynamic constants for coordinator and driver
+  // Store-room balances, shown as a hint when recording a new distribution
+  const [stock, setStock] = useState<StockBalance[] | null>(null);
+  const canViewStock = can("inventory:view");
+  const selectedStock = stock?.find(s => s.book_name === formData.book_name);
+
+  const isEnteringNew = (showAddDialog && !editingRecord) || showOutingDialog;
+
+  useEffect(() => {
+    if (!isEnteringNew || !canViewStock || !navigator.onLine) return;
+    inventoryApi.getStock()
+      .then(setStock)
+      .catch(error => console.error("Failed to fetch stock:", error));
+  }, [isEnteringNew, canViewStock]);
+
+  // Fill in coordinator and driver once constants arrive, keeping anything typed
   useEffect(() => {
-    fetchConstants();
-  }, []);
+    setFormData(prev => ({
+      ...prev,
+      coordinator_name: prev.coordinator_name || coordinatorName,
+      driver_name: prev.driver_name || driverName
+    }));
+  }, [coordinatorName, driverName]);
+
+  // Offline queue: reload once queued changes reach the server
+  const { mutations } = useOfflineQueue(() => {
+    if (dataLoaded) loadData();
+  });
+  const syncStates = useMemo(() => getSyncStates(mutations, "book-seva"), [mutations]);
+  const displayedRecords = useMemo(
+    () => [
+      ...getPendingCreates<BookSevaRead | (BookSevaOutingCreate & { id: string })>(mutations, "book-seva").flatMap(expandPendingOuting),
+      ...filteredRecords
+    ],
+    [mutations, filteredRecords]
+  );
+  const getSyncState = (record: BookSevaRead) =>
+    syncStates.get(record.id) ?? (record.outing_id ? syncStates.get(record.outing_id) : undefined);
+
+  // Grouped view
+  const [expandedOutings, setExpandedOutings] = useState<Set<string>>(new Set());
+
+  const toggleOuting = (key: string) => {
+    setExpandedOutings(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
 
-  const handleExport = () => {
-    const { headers, rows } = formatRecords(filteredRecords);
-    exportToCSV(headers, rows, "book-seva-records");
+  const handleViewModeChange = (mode: string) => {
+    updateQuery({ view: mode === "outings" ? "outings" : null }, { replace: true });
   };
 
+  const handleOutingSaved = () => {
+    if (dataLoaded) loadData();
+  };
+
+  // Every record in the applied range, with the search applied
+  const fetchAllForExport = async () => {
+    const all = await apiUtils.fetchAllPages(page => bookSevaApi.getAll({
+      ...page,
+      from_date: appliedFrom,
+      to_date: appliedTo
+    }));
+    return all.filter(record => matchesSearch(record, searchTerm));
+  };
 
-  const validateFilters = () => {
-    if (!fromDate || !toDate) {
+
+  const validateFilters = (from: string, to: string) => {
+    if (!from || !to) {
       toast.error("Please select both From Date and To Date before loading data");
       return false;
     }
-    if (new Date(fromDate) > new Date(toDate)) {
+    if (new Date(from) > new Date(to)) {
       toast.error("From Date cannot be later than To Date");
       return false;
     }
     return true;
   };
 
+  // Loads the page described by the URL
   const loadData = async () => {
-    if (!validateFilters()) return;
+    if (!validateFilters(appliedFrom, appliedTo)) return;
 
     setLoading(true);
     try {
-      const data = await bookSevaApi.getAll({
+      const page = await bookSevaApi.getAll({
         skip: (currentPage - 1) * recordsPerPage,
         limit: recordsPerPage,
-        from_date: fromDate,
-        to_date: toDate
+        from_date: appliedFrom,
+        to_date: appliedTo
       });
 
-      setRecords(data);
-      setFilteredRecords(data);
-      setDataLoaded(true);
-
-      // Calculate total pages (approximate since we don't get total count from API)
-      if (data.length < recordsPerPage) {
-        setTotalPages(currentPage);
-      } else {
-        setTotalPages(currentPage + 1); // We don't know exact total, so we show next page option
+      // Step back if the current page no longer exists (e.g. after a delete)
+      const lastPage = getTotalPages(page.total, recordsPerPage, page.skip + page.items.length, page.hasMore);
+      if (page.items.length === 0 && currentPage > lastPage) {
+        updateQuery({ page: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
       }
 
-      toast.success(`Loaded ${data.length} book seva records`);
+      setRecords(page.items);
+      setFilteredRecords(page.items.filter(record => matchesSearch(record, searchTerm)));
+      setTotalRecords(page.total);
+      setHasMore(page.hasMore);
+      setDataLoaded(true);
+
+      toast.success(`Loaded ${page.items.length} ${page.total === null ? "" : ` of ${page.total}`} book seva records`);
     } catch (error) {
       toast.error("Failed to load book seva records");
       console.error("Error loading data:", error);
@@ -122,46 +252,51 @@ export default function BookSevaSection() {
     }
   };
 
+  // Apply the date filters by writing them to the URL; the effect below loads
+  const handleLoadData = () => {
+    if (!validateFilters(fromDate, toDate)) return;
+    const changed = updateQuery({ from: fromDate, to: toDate, page: null });
+    // Same filters as already applied: just refresh
+    if (!changed) loadData();
+  };
+
   const handleSearch = (term: string) => {
     setSearchTerm(term);
-    if (!term.trim()) {
-      setFilteredRecords(records);
-      return;
-    }
-
-    const filtered = records.filter(record =>
-      record.seva_place?.toLowerCase().includes(term.toLowerCase()) ||
-      record.sevadar_name?.toLowerCase().includes(term.toLowerCase()) ||
-      record.book_name?.toLowerCase().includes(term.toLowerCase()) ||
-      record.coordinator_name?.toLowerCase().includes(term.toLowerCase()) ||
-      record.driver_name?.toLowerCase().includes(term.toLowerCase())
-    );
-    setFilteredRecords(filtered);
+    setFilteredRecords(records.filter(record => matchesSearch(record, term)));
+    updateQuery({ q: term.trim() ? term : null }, { replace: true });
   };
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
-    // Note: We need to reload data when page changes
-    // This will be handled automatically when the page state changes and we call loadData
+    updateQuery({ page: page > 1 ? page : null });
   };
 
   const handleRecordsPerPageChange = (value: string) => {
-    setRecordsPerPage(parseInt(value));
-    setCurrentPage(1); // Reset to first page when changing page size
+    const size = parseInt(value);
+    // Reset to first page when changing page size
+    updateQuery({ size: size === DEFAULT_PAGE_SIZE ? null : size, page: null });
   };
 
-  // Load data when pagination changes
-  const reloadWithPagination = async () => {
-    if (!dataLoaded || !validateFilters()) return;
-    await loadData();
-  };
+  // Load whenever the applied filters or page in the URL change, including
+  // deep links and back/forward navigation
+  useEffect(() => {
+    if (!appliedFrom || !appliedTo) {
+      setDataLoaded(false);
+      setRecords([]);
+      setFilteredRecords([]);
+      return;
+    }
+    setFromDate(appliedFrom);
+    setToDate(appliedTo);
+    loadData();
+  }, [appliedFrom, appliedTo, currentPage, recordsPerPage]);
 
-  // Reload data when page or records per page changes
+  // Keep the search box in step with history navigation
   useEffect(() => {
-    if (dataLoaded) {
-      reloadWithPagination();
+    if (appliedSearch !== searchTerm) {
+      setSearchTerm(appliedSearch);
+      setFilteredRecords(records.filter(record => matchesSearch(record, appliedSearch)));
     }
-  }, [currentPage, recordsPerPage]);
+  }, [appliedSearch]);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -169,11 +304,12 @@ export default function BookSevaSection() {
 
     try {
       if (editingRecord) {
-        await bookSevaApi.update(editingRecord.id, formData as BookSevaUpdate);
-        toast.success("Book seva record updated successfully");
+        const { queued } = await bookSevaApi.update(editingRecord.id, formData as BookSevaUpdate);
+        // Queued changes get the offline toast instead
+        if (!queued) toast.success("Book seva record updated successfully");
       } else {
-        await bookSevaApi.create(formData as BookSevaCreate);
-        toast.success("Book seva record created successfully");
+        const { queued } = await bookSevaApi.create(formData as BookSevaCreate);
+        if (!queued) toast.success("Book seva record created successfully");
       }
 
       setShowAddDialog(false);
@@ -199,8 +335,8 @@ export default function BookSevaSection() {
       book_name: record.book_name || BOOK_NAMES[0],
       book_type: record.book_type || "free",
       quantity: record.quantity || 1,
-      coordinator_name: record.coordinator_name || COORDINATOR_NAME,
-      driver_name: record.driver_name || DRIVER_NAME
+      coordinator_name: record.coordinator_name || coordinatorName,
+      driver_name: record.driver_name || driverName
     });
     setShowAddDialog(true);
   };
@@ -209,8 +345,8 @@ export default function BookSevaSection() {
     if (!confirm("Are you sure you want to delete this record?")) return;
 
     try {
-      await bookSevaApi.delete(id);
-      toast.success("Book seva record deleted successfully");
+      const { queued } = await bookSevaApi.delete(id);
+      if (!queued) toast.success("Book seva record deleted successfully");
       if (dataLoaded) {
         await loadData(); // Reload data after successful deletion
       }
@@ -225,9 +361,9 @@ export default function BookSevaSection() {
 
     setDeleteLoading(true);
     try {
-      await bookSevaApi.delete(deletingRecord.id);
+      const { queued } = await bookSevaApi.delete(deletingRecord.id);
       setDeletingRecord(null);
-      toast.success("Book seva record deleted successfully");
+      if (!queued) toast.success("Book seva record deleted successfully");
       if (dataLoaded) {
         await loadData(); // Reload data after successful deletion
       }
@@ -247,8 +383,8 @@ export default function BookSevaSection() {
       book_name: BOOK_NAMES[0],
       book_type: "free",
       quantity: 1,
-      coordinator_name: COORDINATOR_NAME,
-      driver_name: DRIVER_NAME
+      coordinator_name: coordinatorName,
+      driver_name: driverName
     });
   };
 
@@ -258,6 +394,119 @@ export default function BookSevaSection() {
     setShowAddDialog(true);
   };
 
+  const renderRecordRow = (record: BookSevaRead, nested = false) => (
+    <TableRow key={record.id} className={nested ? "bg-muted/20" : undefined}>
+      <TableCell>
+        {/* {record.date ? new Date(record.date).toLocaleDateString() : 'N/A'} */}
+        {!nested && (record.date ? new Date(record.date).toLocaleDateString("en-IN", {
+          day: "2-digit",
+          month: "short",
+          year: "numeric"
+        }) : 'N/A')}
+        <div className="mt-1">
+          <SyncStatusBadge mutation={getSyncState(record)} />
+        </div>
+      </TableCell>
+      <TableCell>{!nested && record.seva_place}</TableCell>
+      <TableCell>{!nested && record.sevadar_name}</TableCell>
+      <TableCell>{record.book_name}</TableCell>
+      <TableCell>
+        {record.quantity}
+        <Badge variant={record.book_type === 'paid' ? 'default' : 'secondary'} className="ml-4">
+          {record.book_type}
+        </Badge>
+      </TableCell>
+      <TableCell>{!nested && record.driver_name}</TableCell>
+      <TableCell>{!nested && record.coordinator_name}</TableCell>
+      <TableCell>
+        {/* Lines of an outing still in the offline queue can't be edited individually */}
+        {!isQueuedOutingLine(record) && <div className="flex space-x-2">
+          {can("book-seva:edit") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleEdit(record)}
+            >
+              <Edit className="w-4 h-4" />
+            </Button>
+          )}
+          {can("book-seva:delete") && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeletingRecord(record)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label={`Delete book seva record`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Book Seva Record</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to delete this book seva record for <strong>{record.seva_place}</strong>? This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDeleteConfirm}
+                    disabled={deleteLoading}
+                    className="bg-destructive hover:bg-destructive/90"
+                  >
+                    {deleteLoading ? "Deleting..." : "Delete"}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>}
+      </TableCell>
+    </TableRow>
+  );
+
+  // Outing header row; lines are shown underneath when expanded
+  const renderOutingRows = (group: OutingGroup) => {
+    if (group.lines.length === 1 && !group.outingId) return renderRecordRow(group.lines[0]);
+
+    const [first] = group.lines;
+    const expanded = expandedOutings.has(group.key);
+    return (
+      <Fragment key={group.key}>
+        <TableRow className="cursor-pointer hover:bg-muted/30" onClick={() => toggleOuting(group.key)}>
+          <TableCell>
+            <div className="flex items-center gap-1">
+              {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              {first.date ? new Date(first.date).toLocaleDateString("en-IN", {
+                day: "2-digit",
+                month: "short",
+                year: "numeric"
+              }) : 'N/A'}
+            </div>
+            <div className="mt-1">
+              <SyncStatusBadge mutation={getSyncState(first)} />
+            </div>
+          </TableCell>
+          <TableCell>{first.seva_place}</TableCell>
+          <TableCell>{first.sevadar_name}</TableCell>
+          <TableCell>
+            <Badge variant="outline">
+              {group.lines.length} {group.lines.length === 1 ? "title" : "titles"}
+            </Badge>
+          </TableCell>
+          <TableCell className="font-semibold">{group.totalQuantity}</TableCell>
+          <TableCell>{first.driver_name}</TableCell>
+          <TableCell>{first.coordinator_name}</TableCell>
+          <TableCell />
+        </TableRow>
+        {expanded && group.lines.map(line => renderRecordRow(line, true))}
+      </Fragment>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -265,10 +514,18 @@ export default function BookSevaSection() {
           <h1 className="text-3xl font-bold text-foreground">Book Seva</h1>
           <p className="text-muted-foreground">Manage book distribution records</p>
         </div>
-        <Button onClick={openAddDialog} className="bg-primary hover:bg-primary/90">
-          <Plus className="w-4 h-4 mr-2" />
-          Add Book Seva
-        </Button>
+        {can("book-seva:create") && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowOutingDialog(true)}>
+              <Layers className="w-4 h-4 mr-2" />
+              Add Outing
+            </Button>
+            <Button onClick={openAddDialog} className="bg-primary hover:bg-primary/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Book Seva
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Filters Section */}
@@ -320,7 +577,7 @@ export default function BookSevaSection() {
               />
             </div>
             <Button
-              onClick={loadData}
+              onClick={handleLoadData}
               disabled={loading}
               className="bg-primary hover:bg-primary/90"
             >
@@ -336,10 +593,12 @@ export default function BookSevaSection() {
                 </>
               )}
             </Button>
-            <Button variant={"outline"} onClick={handleExport}>
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
+            {can("book-seva:export") && (
+              <Button variant={"outline"} onClick={() => setShowExportDialog(true)}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -358,11 +617,11 @@ export default function BookSevaSection() {
                   </div>
                   <div>
                     <p className="text-base text-foreground">
-                      Total book seva from {new Date(fromDate).toLocaleDateString("en-IN", {
+                      Total book seva from {new Date(appliedFrom).toLocaleDateString("en-IN", {
                         day: "2-digit",
                         month: "short",
                         year: "numeric"
-                      })} to {new Date(toDate).toLocaleDateString("en-IN", {
+                      })} to {new Date(appliedTo).toLocaleDateString("en-IN", {
                         day: "2-digit",
                         month: "short",
                         year: "numeric"
@@ -407,23 +666,34 @@ export default function BookSevaSection() {
                 <div>
                   {/* <CardTitle>Book Seva Records</CardTitle> */}
                   <CardDescription>
-                    Showing {filteredRecords.length} records
+                    {searchTerm.trim()
+                      ? `${filteredRecords.length} of ${records.length} records on this page match "${searchTerm}"`
+                      : totalRecords === null
+                        ? `${records.length} records on this page`
+                        : `${totalRecords} records in selected range`}
                   </CardDescription>
                 </div>
 
                 {/* Records per page selector */}
                 <div className="flex items-center space-x-2">
+                  <Select value={viewMode} onValueChange={handleViewModeChange}>
+                    <SelectTrigger className="w-36" aria-label="Table view">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="records">All records</SelectItem>
+                      <SelectItem value="outings">By outing</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <Label>Records per page:</Label>
                   <Select value={recordsPerPage.toString()} onValueChange={handleRecordsPerPageChange}>
                     <SelectTrigger className="w-20">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="20">20</SelectItem>
-                      <SelectItem value="50">50</SelectItem>
-                      <SelectItem value="100">100</SelectItem>
-                      <SelectItem value="200">200</SelectItem>
-                      <SelectItem value="1000">1000</SelectItem>
+                      {PAGE_SIZE_OPTIONS.map(size => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -445,125 +715,23 @@ export default function BookSevaSection() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredRecords.map((record) => (
-                      <TableRow key={record.id}>
-                        <TableCell>
-                          {/* {record.date ? new Date(record.date).toLocaleDateString() : 'N/A'} */}
-                          {record.date ? new Date(record.date).toLocaleDateString("en-IN", {
-                            day: "2-digit",
-                            month: "short",
-                            year: "numeric"
-                          }) : 'N/A'}
-                        </TableCell>
-                        <TableCell>{record.seva_place}</TableCell>
-                        <TableCell>{record.sevadar_name}</TableCell>
-                        <TableCell>{record.book_name}</TableCell>
-                        <TableCell>
-                          {record.quantity}
-                          <Badge variant={record.book_type === 'paid' ? 'default' : 'secondary'} className="ml-4">
-                            {record.book_type}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>{record.driver_name}</TableCell>
-                        <TableCell>{record.coordinator_name}</TableCell>
-                        <TableCell>
-                          <div className="flex space-x-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(record)}
-                            >
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => setDeletingRecord(record)}
-                                  className="text-destructive hover:text-destructive"
-                                  aria-label={`Delete book seva record`}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Delete Book Seva Record</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    Are you sure you want to delete this book seva record for <strong>{record.seva_place}</strong>? This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={handleDeleteConfirm}
-                                    disabled={deleteLoading}
-                                    className="bg-destructive hover:bg-destructive/90"
-                                  >
-                                    {deleteLoading ? "Deleting..." : "Delete"}
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {viewMode === "outings"
+                      ? groupByOuting(displayedRecords).map(renderOutingRows)
+                      : displayedRecords.map(record => renderRecordRow(record))}
                   </TableBody>
                 </Table>
               </div>
 
               {/* Pagination */}
               {records.length > 0 && (
-                <div className="flex items-center justify-between mt-4">
-                  <div className="text-sm text-muted-foreground">
-                    Page {currentPage} of {totalPages || 1}
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handlePageChange(currentPage - 1)}
-                      disabled={currentPage <= 1}
-                    >
-                      <ChevronLeft className="w-4 h-4" />
-                      Previous
-                    </Button>
-
-                    {/* Page numbers */}
-                    {totalPages > 1 && (
-                      <div className="flex items-center space-x-1">
-                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                          const pageNum = Math.max(1, currentPage - 2) + i;
-                          if (pageNum > totalPages) return null;
-
-                          return (
-                            <Button
-                              key={pageNum}
-                              variant={pageNum === currentPage ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => handlePageChange(pageNum)}
-                              className="w-8 h-8 p-0"
-                            >
-                              {pageNum}
-                            </Button>
-                          );
-                        })}
-                      </div>
-                    )}
-
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handlePageChange(currentPage + 1)}
-                      disabled={records.length < recordsPerPage}
-                    >
-                      Next
-                      <ChevronRight className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
+                <TablePagination
+                  currentPage={currentPage}
+                  recordsPerPage={recordsPerPage}
+                  total={totalRecords}
+                  hasMore={hasMore}
+                  pageCount={records.length}
+                  onPageChange={handlePageChange}
+                />
               )}
             </CardContent>
           </Card>
@@ -583,6 +751,30 @@ export default function BookSevaSection() {
         </Card>
       )}
 
+      {/* Outing Dialog */}
+      <BookSevaOutingDialog
+        open={showOutingDialog}
+        onOpenChange={setShowOutingDialog}
+        stock={stock}
+        onSaved={handleOutingSaved}
+      />
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="book-seva"
+        columns={BOOK_SEVA_COLUMNS}
+        loadedRecords={filteredRecords}
+        fetchAll={fetchAllForExport}
+        total={totalRecords}
+        filename="book-seva-records"
+        report={{
+          title: "Book Seva Report",
+          period: formatPeriod(appliedFrom, appliedTo),
+          filters: searchTerm.trim() ? [{ label: "Search", value: searchTerm.trim() }] : []
+        }}
+      />
+
       {/* Add/Edit Dialog */}
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
         <DialogContent className="max-w-2xl">
@@ -680,6 +872,12 @@ export default function BookSevaSection() {
                   onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
                   required
                 />
+                {!editingRecord && stock && (
+                  <p className={`text-sm ${(formData.quantity ?? 0) > (selectedStock?.balance ?? 0) ? "text-amber-600" : "text-muted-foreground"}`}>
+                    In stock: {selectedStock?.balance ?? 0}
+                    {(formData.quantity ?? 0) > (selectedStock?.balance ?? 0) && " (more than recorded stock)"}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
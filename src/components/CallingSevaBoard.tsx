@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useCallback, useEffect, DragEvent } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ArrowRightLeft, Edit, KanbanSquare, Loader2, MoreVertical, RefreshCw } from "lucide-react";
+import { callingSevaApi, ApiServiceError, type CallingSevaRead } from "@/lib/api";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useUrlQuery } from "@/hooks/use-url-query";
+
+// Cards fetched per column at a time
+const COLUMN_PAGE_SIZE = 25;
+
+interface BoardColumn {
+  items: CallingSevaRead[];
+  // null when the server doesn't report a count
+  total: number | null;
+  hasMore: boolean;
+}
+
+interface CallingSevaBoardProps {
+  onEdit: (record: CallingSevaRead) => void;
+  onOpenContact: (record: CallingSevaRead) => void;
+  // Bumped by the parent after it saves a record, to refresh the board
+  reloadKey: number;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// The seeker journey as a board: one column per status, in the order the
+// statuses are configured. Dragging a card (or "Move to" on touch screens)
+// changes the record's status.
+export default function CallingSevaBoard({ onEdit, onOpenContact, reloadKey }: CallingSevaBoardProps) {
+  const { can } = useAuth();
+  const { statusOptions, bhagatNames } = useConstants();
+
+  // Bhagat and date range live in the query string (?assigned=&from=&to=)
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const bhagat = searchParams.get("assigned") || "all";
+  const fromDate = searchParams.get("from") || "";
+  const toDate = searchParams.get("to") || "";
+
+  const [columns, setColumns] = useState<Record<string, BoardColumn>>({});
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const fetchColumn = useCallback((status: string, skip: number) => callingSevaApi.getAll({
+    status,
+    assigned_bhagat_name: bhagat === "all" ? undefined : bhagat,
+    from_date: fromDate || undefined,
+    to_date: toDate || undefined,
+    skip,
+    limit: COLUMN_PAGE_SIZE
+  }), [bhagat, fromDate, toDate]);
+
+  const loadBoard = useCallback(async () => {
+    if (statusOptions.length === 0) return;
+    setLoading(true);
+    try {
+      const pages = await Promise.all(statusOptions.map(status => fetchColumn(status, 0)));
+      setColumns(Object.fromEntries(statusOptions.map((status, i) => [
+        status,
+        { items: pages[i].items, total: pages[i].total, hasMore: pages[i].hasMore }
+      ])));
+    } catch (error) {
+      console.error("Failed to load board:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load the board");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [statusOptions, fetchColumn]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard, reloadKey]);
+
+  // Offline queue: reload once queued changes reach the server
+  useOfflineQueue(() => loadBoard());
+
+  const loadMore = async (status: string) => {
+    const column = columns[status];
+    if (!column) return;
+    setLoadingMore(status);
+    try {
+      const page = await fetchColumn(status, column.items.length);
+      setColumns(prev => ({
+        ...prev,
+        [status]: {
+          items: [...prev[status].items, ...page.items.filter(r => !prev[status].items.some(existing => existing.id === r.id))],
+          total: page.total,
+          hasMore: page.hasMore
+        }
+      }));
+    } catch (error) {
+      console.error("Failed to load more cards:", error);
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
+  // Moves the card right away and puts it back if the update fails
+  const moveRecord = async (record: CallingSevaRead, status: string) => {
+    const from = record.status;
+    if (from === status || !columns[from] || !columns[status]) return;
+
+    const shift = (source: string, target: string, moved: CallingSevaRead) => setColumns(prev => ({
+      ...prev,
+      [source]: {
+        ...prev[source],
+        items: prev[source].items.filter(r => r.id !== moved.id),
+        total: prev[source].total === null ? null : Math.max(0, prev[source].total - 1)
+      },
+      [target]: {
+        ...prev[target],
+        items: [moved, ...prev[target].items],
+        total: prev[target].total === null ? null : prev[target].total + 1
+      }
+    }));
+
+    shift(from, status, { ...record, status });
+    try {
+      await callingSevaApi.update(record.id, { status });
+    } catch (error) {
+      console.error("Failed to change status:", error);
+      shift(status, from, record);
+    }
+  };
+
+  const canEdit = can("calling-seva:edit");
+
+  const handleDragStart = (e: DragEvent, record: CallingSevaRead) => {
+    e.dataTransfer.setData("text/plain", record.id);
+    e.dataTransfer.effectAllowed = "move";
+    setDraggingId(record.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: DragEvent, status: string) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData("text/plain") || draggingId;
+    const record = Object.values(columns).flatMap(column => column.items).find(r => r.id === id);
+    handleDragEnd();
+    if (record) moveRecord(record, status);
+  };
+
+  const handleFilterChange = (key: "assigned" | "from" | "to", value: string) => {
+    updateQuery({ [key]: value && value !== "all" ? value : null }, { replace: true });
+  };
+
+  // Columns without a reported count contribute the cards seen so far
+  const shownTotal = Object.values(columns).reduce((sum, column) => sum + (column.total ?? column.items.length), 0);
+  const totalIsPartial = Object.values(columns).some(column => column.total === null && column.hasMore);
+  const columnCount = (column: BoardColumn) => column.total ?? `${column.items.length}${column.hasMore ? "+" : ""}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-end gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KanbanSquare className="h-5 w-5" />
+              Pipeline
+            </CardTitle>
+            <CardDescription>
+              {shownTotal}{totalIsPartial && "+"} seeker{shownTotal === 1 && !totalIsPartial ? "" : "s"}
+              {canEdit && " · drag a card to change its status"}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="board_bhagat" className="text-xs">Bhagat</Label>
+              <Select value={bhagat} onValueChange={(value) => handleFilterChange("assigned", value)}>
+                <SelectTrigger id="board_bhagat" className="w-44 bg-card">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All bhagats</SelectItem>
+                  {bhagatNames.map(name => (
+                    <SelectItem key={name} value={name}>{capitalize(name)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="board_from" className="text-xs">From</Label>
+              <Input
+                id="board_from"
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => handleFilterChange("from", e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="board_to" className="text-xs">To</Label>
+              <Input
+                id="board_to"
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => handleFilterChange("to", e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <Button variant="outline" size="icon" onClick={loadBoard} disabled={loading} aria-label="Refresh board">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {statusOptions.map(status => {
+            const column = columns[status];
+            const isTarget = dropTarget === status && !column?.items.some(r => r.id === draggingId);
+
+            return (
+              <div
+                key={status}
+                className={`flex w-72 shrink-0 flex-col rounded-md border bg-muted/40 ${isTarget ? "ring-2 ring-primary" : ""}`}
+                onDragOver={(e) => {
+                  if (!canEdit || !draggingId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = "move";
+                  if (dropTarget !== status) setDropTarget(status);
+                }}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+                }}
+                onDrop={(e) => canEdit && handleDrop(e, status)}
+              >
+                <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+                  <span className="text-sm font-medium">{capitalize(status)}</span>
+                  <Badge variant="secondary" className="tabular-nums">{column ? columnCount(column) : 0}</Badge>
+                </div>
+
+                <div className="flex max-h-[60vh] flex-col gap-2 overflow-y-auto p-2">
+                  {loading && !column ? (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : column?.items.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">No seekers</p>
+                  ) : (
+                    column?.items.map(record => (
+                      <div
+                        key={record.id}
+                        draggable={canEdit}
+                        onDragStart={(e) => handleDragStart(e, record)}
+                        onDragEnd={handleDragEnd}
+                        className={`rounded-md border bg-card p-3 text-sm shadow-sm ${canEdit ? "cursor-grab active:cursor-grabbing" : ""} ${draggingId === record.id ? "opacity-50" : ""}`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <button
+                            type="button"
+                            className="min-w-0 text-left hover:underline"
+                            onClick={() => onOpenContact(record)}
+                          >
+                            <div className="truncate font-medium">{record.name || record.mobile_no}</div>
+                            {record.name && <div className="truncate text-muted-foreground">{record.mobile_no}</div>}
+                          </button>
+                          {canEdit && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" aria-label="Card actions">
+                                  <MoreVertical className="w-4 h-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => onEdit(record)}>
+                                  <Edit className="w-4 h-4 mr-2" />
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel className="flex items-center text-xs text-muted-foreground">
+                                  <ArrowRightLeft className="w-3 h-3 mr-2" />
+                                  Move to
+                                </DropdownMenuLabel>
+                                {statusOptions.filter(s => s !== record.status).map(s => (
+                                  <DropdownMenuItem key={s} onClick={() => moveRecord(record, s)}>
+                                    {capitalize(s)}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                        </div>
+                        <div className="mt-1 truncate text-muted-foreground">{record.address}</div>
+                        <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                          <span>{capitalize(record.assigned_bhagat_name)}</span>
+                          <span>{record.date}</span>
+                        </div>
+                      </div>
+                    ))
+                  )}
+
+                  {column?.hasMore && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => loadMore(status)}
+                      disabled={loadingMore === status}
+                    >
+                      {loadingMore === status ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : null}
+                      Show more{column.total !== null && ` (${column.total - column.items.length})`}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Merge, RefreshCw } from "lucide-react";
+import { callingSevaApi, apiUtils, ApiServiceError, type CallingSevaRead } from "@/lib/api";
+import { findDuplicateGroups, mergeName, mergeRemarks, type DuplicateGroup } from "@/lib/duplicates";
+
+interface CallingSevaDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+// Groups shown before "Show more"
+const GROUPS_PER_PAGE = 10;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+const capitalize = (value?: string) => (value ? value.charAt(0).toUpperCase() + value.slice(1) : "");
+
+interface PendingMerge {
+  group: DuplicateGroup;
+  primary: CallingSevaRead;
+  duplicates: CallingSevaRead[];
+  remarks: string;
+}
+
+// Lists records sharing a normalized mobile number and merges each group
+// into one record, keeping remarks and interaction history
+export default function CallingSevaDuplicatesDialog({ open, onOpenChange, onMerged }: CallingSevaDuplicatesDialogProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [shown, setShown] = useState(GROUPS_PER_PAGE);
+  // Chosen primary record id per group
+  const [primaryIds, setPrimaryIds] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [serverError, setServerError] = useState("");
+
+  const loadGroups = async () => {
+    setLoading(true);
+    try {
+      const records = await apiUtils.fetchAllPages(params => callingSevaApi.getAll(params));
+      setGroups(findDuplicateGroups(records));
+      setPrimaryIds({});
+      setShown(GROUPS_PER_PAGE);
+    } catch (error) {
+      console.error("Error finding duplicates:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setPendingMerge(null);
+    loadGroups();
+  }, [open]);
+
+  const startMerge = (group: DuplicateGroup) => {
+    const primaryId = primaryIds[group.key] || group.records[0].id;
+    const primary = group.records.find(r => r.id === primaryId) || group.records[0];
+    const duplicates = group.records.filter(r => r.id !== primary.id);
+    setServerError("");
+    setPendingMerge({ group, primary, duplicates, remarks: mergeRemarks(primary, duplicates) });
+  };
+
+  const confirmMerge = async () => {
+    if (!pendingMerge) return;
+    const { group, primary, duplicates, remarks } = pendingMerge;
+
+    setMerging(true);
+    setServerError("");
+    try {
+      await callingSevaApi.merge({
+        primary_id: primary.id,
+        duplicate_ids: duplicates.map(r => r.id),
+        remarks,
+        name: mergeName(primary, duplicates)
+      });
+      setGroups(prev => prev.filter(g => g.key !== group.key));
+      setPendingMerge(null);
+      onMerged();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pendingMerge ? "Merge Records" : "Possible Duplicates"}</DialogTitle>
+          <DialogDescription>
+            {pendingMerge
+              ? `${pendingMerge.duplicates.length + 1} records for ${pendingMerge.group.key} will become one. Call and message history is kept.`
+              : "Records whose mobile numbers match once normalized. Pick the record to keep, then merge."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pendingMerge ? (
+          <div className="space-y-4">
+            {serverError && (
+              <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+                {serverError}
+              </div>
+            )}
+
+            <div className="bg-muted rounded-md px-3 py-2 text-sm space-y-1">
+              <p>
+                <span className="font-medium">Keeping:</span> {formatDate(pendingMerge.primary.date)} ·{" "}
+                {capitalize(pendingMerge.primary.status)} · {capitalize(pendingMerge.primary.assigned_bhagat_name)}
+              </p>
+              <p className="text-muted-foreground">
+                Removing {pendingMerge.duplicates.length} record{pendingMerge.duplicates.length === 1 ? "" : "s"}
+                {" "}after moving their history.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="merged_remarks">Remarks after merge</Label>
+              <Textarea
+                id="merged_remarks"
+                rows={6}
+                value={pendingMerge.remarks}
+                onChange={(e) => setPendingMerge({ ...pendingMerge, remarks: e.target.value })}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setPendingMerge(null)} disabled={merging}>
+                Back
+              </Button>
+              <Button onClick={confirmMerge} disabled={merging}>
+                {merging ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Merging...
+                  </>
+                ) : (
+                  <>
+                    <Merge className="w-4 h-4 mr-2" />
+                    Merge Records
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Checking all records...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {groups.length === 0
+                  ? "No duplicate numbers found."
+                  : `${groups.length} number${groups.length === 1 ? "" : "s"} with more than one record`}
+              </p>
+              <Button size="sm" variant="outline" onClick={loadGroups}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+
+            {groups.slice(0, shown).map(group => (
+              <div key={group.key} className="border rounded-md p-3 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{group.key}</span>
+                    <Badge variant="secondary">{group.records.length} records</Badge>
+                  </div>
+                  <Button size="sm" onClick={() => startMerge(group)}>
+                    <Merge className="w-4 h-4 mr-2" />
+                    Merge
+                  </Button>
+                </div>
+                <RadioGroup
+                  value={primaryIds[group.key] || group.records[0].id}
+                  onValueChange={(value) => setPrimaryIds(prev => ({ ...prev, [group.key]: value }))}
+                  className="gap-2"
+                >
+                  {group.records.map(record => (
+                    <label
+                      key={record.id}
+                      htmlFor={`primary-${record.id}`}
+                      className="flex items-start gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-muted/50"
+                    >
+                      <RadioGroupItem id={`primary-${record.id}`} value={record.id} className="mt-0.5" />
+                      <div className="space-y-0.5 min-w-0">
+                        <p>
+                          {formatDate(record.date)} · {record.name || record.mobile_no} ·{" "}
+                          {capitalize(record.status)} · {capitalize(record.assigned_bhagat_name)}
+                        </p>
+                        <p className="text-muted-foreground truncate">{record.address}</p>
+                        {record.remarks && <p className="text-muted-foreground truncate">{record.remarks}</p>}
+                      </div>
+                    </label>
+                  ))}
+                </RadioGroup>
+              </div>
+            ))}
+
+            {groups.length > shown && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={() => setShown(count => count + GROUPS_PER_PAGE)}>
+                  Show more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { BarChart3, Layers, Loader2, RefreshCw } from "lucide-react";
+import { callingSevaApi, apiUtils, ApiServiceError, type CallingSevaInteraction, type CallingSevaRead } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useUrlQuery } from "@/hooks/use-url-query";
+import {
+  CONTACTED_STAGE,
+  computeFunnel,
+  formatDays,
+  formatPercent,
+  groupRecords,
+  groupStatusChanges,
+  loadFunnelStages,
+  monthOf,
+  saveFunnelStages
+} from "@/lib/funnel";
+
+const CHART_COLORS = ["var(--chart-1)", "var(--chart-3)", "var(--chart-5)", "var(--chart-4)", "var(--chart-2)"];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+
+// How far contacts get from the first call through the chosen statuses,
+// overall, per month and per bhagat
+export default function CallingSevaFunnel() {
+  const { statusOptions, bhagatNames } = useConstants();
+
+  // Shares the board's filters (?assigned=&from=&to=)
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const bhagat = searchParams.get("assigned") || "all";
+  const fromDate = searchParams.get("from") || "";
+  const toDate = searchParams.get("to") || "";
+
+  const [stages, setStages] = useState<string[]>([]);
+  const [records, setRecords] = useState<CallingSevaRead[]>([]);
+  const [changes, setChanges] = useState<CallingSevaInteraction[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setStages(loadFunnelStages(statusOptions));
+  }, [statusOptions]);
+
+  const loadAnalytics = useCallback(async () => {
+    const filters = {
+      assigned_bhagat_name: bhagat === "all" ? undefined : bhagat,
+      from_date: fromDate || undefined,
+      to_date: toDate || undefined
+    };
+    setLoading(true);
+    try {
+      const [allRecords, allChanges] = await Promise.all([
+        apiUtils.fetchAllPages(page => callingSevaApi.getAll({ ...page, ...filters })),
+        apiUtils.fetchAllPages(page => callingSevaApi.getStatusChanges({ ...page, ...filters }), 500)
+      ]);
+      setRecords(allRecords);
+      setChanges(allChanges);
+    } catch (error) {
+      console.error("Failed to load funnel analytics:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load analytics");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [bhagat, fromDate, toDate]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const toggleStage = (status: string, checked: boolean) => {
+    const next = statusOptions.filter(s => (s === status ? checked : stages.includes(s)));
+    if (next.length === 0) return;
+    saveFunnelStages(next);
+    setStages(next);
+  };
+
+  const handleFilterChange = (key: "assigned" | "from" | "to", value: string) => {
+    updateQuery({ [key]: value && value !== "all" ? value : null }, { replace: true });
+  };
+
+  const changesByRecord = useMemo(() => groupStatusChanges(changes), [changes]);
+
+  const funnel = useMemo(
+    () => computeFunnel(records, changesByRecord, stages),
+    [records, changesByRecord, stages]
+  );
+
+  const monthly = useMemo(() => {
+    const byMonth = groupRecords(records, monthOf);
+    return [...byMonth.keys()].sort().map(month => {
+      const monthFunnel = computeFunnel(byMonth.get(month) ?? [], changesByRecord, stages);
+      return {
+        month: formatMonth(month),
+        ...Object.fromEntries(monthFunnel.map(stage => [stage.stage, stage.count]))
+      };
+    });
+  }, [records, changesByRecord, stages]);
+
+  const perBhagat = useMemo(() => {
+    const byBhagat = groupRecords(records, record => record.assigned_bhagat_name);
+    return [...byBhagat.entries()]
+      .map(([name, list]) => ({ name, funnel: computeFunnel(list, changesByRecord, stages) }))
+      .sort((a, b) => b.funnel[0].count - a.funnel[0].count);
+  }, [records, changesByRecord, stages]);
+
+  const allStages = [CONTACTED_STAGE, ...stages];
+  const lastStage = funnel[funnel.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row lg:justify-between lg:items-end gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Conversion Funnel
+              </CardTitle>
+              <CardDescription>
+                {records.length} contact{records.length === 1 ? "" : "s"}
+                {lastStage && records.length > 0 && ` · ${formatPercent(lastStage.overall)} reached ${capitalize(lastStage.stage)}`}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="funnel_bhagat" className="text-xs">Bhagat</Label>
+                <Select value={bhagat} onValueChange={(value) => handleFilterChange("assigned", value)}>
+                  <SelectTrigger id="funnel_bhagat" className="w-44 bg-card">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All bhagats</SelectItem>
+                    {bhagatNames.map(name => (
+                      <SelectItem key={name} value={name}>{capitalize(name)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="funnel_from" className="text-xs">From</Label>
+                <Input
+                  id="funnel_from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => handleFilterChange("from", e.target.value)}
+                  className="w-40"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="funnel_to" className="text-xs">To</Label>
+                <Input
+                  id="funnel_to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => handleFilterChange("to", e.target.value)}
+                  className="w-40"
+                />
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Layers className="w-4 h-4 mr-2" />
+                    Stages ({stages.length})
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  <DropdownMenuLabel>Statuses in the funnel</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {statusOptions.map(status => (
+                    <DropdownMenuCheckboxItem
+                      key={status}
+                      checked={stages.includes(status)}
+                      onCheckedChange={(checked) => toggleStage(status, checked)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {capitalize(status)}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="outline" size="icon" onClick={loadAnalytics} disabled={loading} aria-label="Refresh analytics">
+                {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading && records.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : records.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">No contacts in this range</p>
+          ) : (
+            <>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={funnel} layout="vertical" margin={{ left: 16, right: 16 }}>
+                    <CartesianGrid horizontal={false} strokeDasharray="3 3" />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="stage" width={180} tickFormatter={capitalize} />
+                    <Tooltip formatter={(value) => [value, "Contacts"]} />
+                    <Bar dataKey="count" fill="var(--chart-1)" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stage</TableHead>
+                      <TableHead className="text-right">Contacts</TableHead>
+                      <TableHead className="text-right">From previous</TableHead>
+                      <TableHead className="text-right">Of all contacts</TableHead>
+                      <TableHead className="text-right">Median time from previous</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {funnel.map(stage => (
+                      <TableRow key={stage.stage}>
+                        <TableCell className="font-medium">{capitalize(stage.stage)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{stage.count}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPercent(stage.conversion)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPercent(stage.overall)}</TableCell>
+                        <TableCell className="text-right">{stage.conversion === null ? "—" : formatDays(stage.medianDays)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {records.length > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>By Month</CardTitle>
+              <CardDescription>Contacts first called each month and how far they have got</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={monthly}>
+                    <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend formatter={(value: string) => capitalize(value)} />
+                    {allStages.map((stage, i) => (
+                      <Bar key={stage} dataKey={stage} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Bhagat</CardTitle>
+              <CardDescription>Contacts reaching each stage, with the share of that bhagat&apos;s contacts</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Bhagat</TableHead>
+                      {allStages.map(stage => (
+                        <TableHead key={stage} className="text-right">{capitalize(stage)}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {perBhagat.map(row => (
+                      <TableRow key={row.name}>
+                        <TableCell className="font-medium">{capitalize(row.name)}</TableCell>
+                        {row.funnel.map((stage, i) => (
+                          <TableCell key={stage.stage} className="text-right tabular-nums">
+                            {stage.count}
+                            {i > 0 && (
+                              <span className="ml-1 text-xs text-muted-foreground">({formatPercent(stage.overall)})</span>
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+"use client";
+
+import { useEffect, useMemo, useState, ChangeEvent } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Download, FileUp, Loader2, Upload } from "lucide-react";
+import { callingSevaApi, apiUtils, ApiServiceError, type CallingSevaRead } from "@/lib/api";
+import { rememberAssignment } from "@/lib/assignment";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { exportToCSV, type CsvCell } from "@/utils/exportToCSV";
+import { readSpreadsheet, SPREADSHEET_ACCEPT, type SheetRows } from "@/lib/spreadsheet";
+import { getDuplicateKey } from "@/lib/duplicates";
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportDefaults,
+  type ImportField,
+  type ImportRow
+} from "@/lib/contactImport";
+
+interface CallingSevaImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Auto-assignment for rows without a bhagat
+  assign: (contacts: Pick<CallingSevaRead, "language">[]) => Promise<string[]>;
+  strategyLabel: string;
+  onImported: () => void;
+}
+
+type Step = "upload" | "map" | "preview" | "done";
+
+type RowFilter = "all" | "ready" | "errors" | "duplicates";
+
+interface ImportSummary {
+  created: number;
+  invalid: number;
+  duplicates: number;
+  // Rows the server rejected
+  failed: { line: number; message: string }[];
+}
+
+// Records sent per request
+const BATCH_SIZE = 50;
+// Preview rows rendered at once; the counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+const NOT_MAPPED = "none";
+// Default bhagat meaning "use the assignment strategy"
+const AUTO_ASSIGN = "__auto__";
+
+const todayIso = () => new Date().toISOString().split("T")[0];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Upload a CSV/XLSX, map its columns, review row-by-row problems and then
+// create the records in batches
+export default function CallingSevaImportDialog({ open, onOpenChange, assign, strategyLabel, onImported }: CallingSevaImportDialogProps) {
+  const { statusOptions, bhagatNames } = useConstants();
+  const { isOnline } = useOfflineQueue();
+
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sheetRows, setSheetRows] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping([]));
+  const [defaults, setDefaults] = useState<ImportDefaults>({ status: "", assigned_bhagat_name: "", date: todayIso() });
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [filter, setFilter] = useState<RowFilter>("all");
+  const [error, setError] = useState("");
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setSheetRows([]);
+    setRows([]);
+    setIncludeDuplicates(false);
+    setFilter("all");
+    setError("");
+    setSummary(null);
+    setDefaults({ status: statusOptions[0] || "", assigned_bhagat_name: AUTO_ASSIGN, date: todayIso() });
+  }, [open]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError("");
+    setWorking(true);
+    try {
+      const grid = await readSpreadsheet(file);
+      const [headerRow = [], ...body] = grid;
+      if (body.length === 0) {
+        setError("The file has no rows below the header.");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.map((header, i) => header.trim() || `Column ${i + 1}`));
+      setSheetRows(body);
+      setMapping(guessMapping(headerRow));
+      setStep("map");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the file");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+
+  // Numbers already in Calling Seva, for the duplicate check
+  const loadExistingNumbers = async () => {
+    const records = await apiUtils.fetchAllPages(params => callingSevaApi.getAll(params));
+    return new Set(records.map(record => getDuplicateKey(record.mobile_no)));
+  };
+
+  const buildPreview = async () => {
+    if (missingRequired.length > 0) {
+      setError(`Choose a column for ${missingRequired.map(f => f.label).join(" and ")}`);
+      return;
+    }
+
+    setError("");
+    setWorking(true);
+    try {
+      const existingNumbers = await loadExistingNumbers();
+      const validated = validateImportRows(sheetRows, mapping, defaults, { statusOptions, bhagatNames, existingNumbers });
+
+      // Spread rows without a bhagat using the assignment strategy
+      const unassigned = validated.filter(row => row.data.assigned_bhagat_name === AUTO_ASSIGN);
+      const picks = await assign(unassigned.map(row => row.data));
+      unassigned.forEach((row, i) => {
+        row.data.assigned_bhagat_name = picks[i];
+      });
+
+      setRows(validated);
+      setFilter("all");
+      setStep("preview");
+    } catch (err) {
+      if (!(err instanceof ApiServiceError)) setError("Could not check for existing contacts");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = useMemo(() => ({
+    errors: rows.filter(r => r.errors.length > 0).length,
+    duplicates: rows.filter(r => r.errors.length === 0 && r.duplicate).length,
+    ready: rows.filter(r => r.errors.length === 0 && !r.duplicate).length
+  }), [rows]);
+
+  const toImport = rows.filter(r => r.errors.length === 0 && (includeDuplicates || !r.duplicate));
+
+  const visibleRows = rows.filter(r => {
+    if (filter === "errors") return r.errors.length > 0;
+    if (filter === "duplicates") return r.errors.length === 0 && !!r.duplicate;
+    if (filter === "ready") return r.errors.length === 0 && !r.duplicate;
+    return true;
+  });
+
+  const runImport = async () => {
+    setWorking(true);
+    setProgress(0);
+    const failed: ImportSummary["failed"] = [];
+    let created = 0;
+
+    for (let start = 0; start < toImport.length; start += BATCH_SIZE) {
+      const batch = toImport.slice(start, start + BATCH_SIZE);
+      try {
+        const result = await callingSevaApi.importBatch(batch.map(r => r.data));
+        created += result.created;
+        result.errors.forEach(e => failed.push({ line: batch[e.index]?.line ?? 0, message: e.message }));
+      } catch (err) {
+        const message = err instanceof ApiServiceError ? apiUtils.formatError(err) : "Request failed";
+        batch.forEach(r => failed.push({ line: r.line, message }));
+      }
+      setProgress(Math.min(100, ((start + batch.length) / toImport.length) * 100));
+    }
+
+    setSummary({
+      created,
+      invalid: counts.errors,
+      duplicates: includeDuplicates ? 0 : counts.duplicates,
+      failed
+    });
+    setWorking(false);
+    setStep("done");
+    if (created > 0) {
+      const lastAuto = toImport.filter(r => !r.errors.length).map(r => r.data.assigned_bhagat_name).pop();
+      if (defaults.assigned_bhagat_name === AUTO_ASSIGN && lastAuto) rememberAssignment(lastAuto);
+      toast.success(`Imported ${created} contact${created === 1 ? "" : "s"}`);
+      onImported();
+    }
+  };
+
+  // Every row that wasn't imported, with the reason, for fixing in the sheet
+  const downloadReport = () => {
+    const failedLines = new Map(summary?.failed.map(f => [f.line, f.message]) || []);
+    const reportRows = rows
+      .map((r): CsvCell[] | null => {
+        let reason = "";
+        if (r.errors.length > 0) reason = r.errors.join("; ");
+        else if (failedLines.has(r.line)) reason = failedLines.get(r.line) || "";
+        else if (r.duplicate && (step !== "done" || !includeDuplicates)) {
+          reason = r.duplicate === "existing" ? "Already in Calling Seva" : "Repeated in file";
+        }
+        return reason ? [r.line, r.data.name, r.data.mobile_no, r.data.address, reason] : null;
+      })
+      .filter((row): row is CsvCell[] => row !== null);
+    exportToCSV(["Line", "Name", "Mobile", "Address", "Problem"], reportRows, "calling-seva-import-problems");
+  };
+
+  const renderMappingSelect = (field: ImportField) => (
+    <Select
+      value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+      onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NOT_MAPPED ? null : Number(value) }))}
+    >
+      <SelectTrigger id={`map_${field}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+        {headers.map((header, index) => (
+          <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !working && onOpenChange(value)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel (.xlsx) file with one contact per row and a header row."}
+            {step === "map" && `${fileName}: match the columns to Calling Seva fields.`}
+            {step === "preview" && `${fileName}: review the rows before importing.`}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {step === "upload" && (
+          <label
+            htmlFor="import_file"
+            className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-md py-12 cursor-pointer hover:bg-muted/50"
+          >
+            {working ? (
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            ) : (
+              <FileUp className="w-8 h-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">{working ? "Reading file..." : "Choose a .csv or .xlsx file"}</span>
+            <span className="text-xs text-muted-foreground">Only the first sheet of an Excel file is read</span>
+            <input id="import_file" type="file" accept={SPREADSHEET_ACCEPT} className="hidden" onChange={handleFile} disabled={working} />
+          </label>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`map_${field}`}>{label}{required ? " *" : ""}</Label>
+                  {renderMappingSelect(field)}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Defaults for blank cells</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="default_status">Status</Label>
+                  <Select value={defaults.status} onValueChange={(value) => setDefaults(prev => ({ ...prev, status: value }))}>
+                    <SelectTrigger id="default_status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map(status => (
+                        <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default_bhagat">Assigned Bhagat</Label>
+                  <Select
+                    value={defaults.assigned_bhagat_name}
+                    onValueChange={(value) => setDefaults(prev => ({ ...prev, assigned_bhagat_name: value }))}
+                  >
+                    <SelectTrigger id="default_bhagat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_ASSIGN}>Auto ({strategyLabel})</SelectItem>
+                      {bhagatNames.map(name => (
+                        <SelectItem key={name} value={name}>{capitalize(name)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default_date">Date</Label>
+                  <Input
+                    id="default_date"
+                    type="date"
+                    value={defaults.date}
+                    onChange={(e) => setDefaults(prev => ({ ...prev, date: e.target.value }))}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setStep("upload")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Choose Another File
+              </Button>
+              <Button onClick={buildPreview} disabled={working}>
+                {working ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Checking rows...
+                  </>
+                ) : "Preview"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge className="bg-green-100 text-green-800">{counts.ready} ready</Badge>
+              <Badge className="bg-amber-100 text-amber-800">{counts.duplicates} duplicate{counts.duplicates === 1 ? "" : "s"}</Badge>
+              <Badge className="bg-red-100 text-red-800">{counts.errors} with errors</Badge>
+              <div className="ml-auto flex items-center gap-2">
+                <Label htmlFor="row_filter" className="text-sm">Show</Label>
+                <Select value={filter} onValueChange={(value) => setFilter(value as RowFilter)}>
+                  <SelectTrigger id="row_filter" className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rows</SelectItem>
+                    <SelectItem value="ready">Ready</SelectItem>
+                    <SelectItem value="duplicates">Duplicates</SelectItem>
+                    <SelectItem value="errors">Errors</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="border rounded-md max-h-80 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Mobile</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Bhagat</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.slice(0, PREVIEW_LIMIT).map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.data.name || "-"}</TableCell>
+                      <TableCell>{row.data.mobile_no || "-"}</TableCell>
+                      <TableCell>{row.data.status}</TableCell>
+                      <TableCell>{row.data.assigned_bhagat_name}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-amber-700">
+                            {row.duplicate === "existing" ? "Already in Calling Seva" : "Repeated in file"}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">OK</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visibleRows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {visibleRows.length} rows.
+              </p>
+            )}
+
+            {counts.duplicates > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include_duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="include_duplicates" className="text-sm font-normal">
+                  Import duplicates as new records too
+                </Label>
+              </div>
+            )}
+
+            {working && (
+              <div className="space-y-1">
+                <Progress value={progress} />
+                <p className="text-xs text-muted-foreground">Importing in batches of {BATCH_SIZE}...</p>
+              </div>
+            )}
+
+            {!isOnline && (
+              <p className="text-sm text-amber-700">You are offline. Imports need a connection.</p>
+            )}
+
+            <div className="flex flex-wrap justify-between gap-2 pt-2">
+              <Button type="button" variant="ghost" onClick={() => setStep("map")} disabled={working}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <div className="flex gap-2">
+                {(counts.errors > 0 || counts.duplicates > 0) && (
+                  <Button variant="outline" onClick={downloadReport} disabled={working}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Problem Rows
+                  </Button>
+                )}
+                <Button onClick={runImport} disabled={working || !isOnline || toImport.length === 0}>
+                  {working ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Importing...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import {toImport.length} Contact{toImport.length === 1 ? "" : "s"}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && summary && (
+          <div className="space-y-4">
+            <ul className="text-sm space-y-1">
+              <li><span className="font-medium">{summary.created}</span> contacts created</li>
+              {summary.duplicates > 0 && <li><span className="font-medium">{summary.duplicates}</span> duplicates skipped</li>}
+              {summary.invalid > 0 && <li><span className="font-medium">{summary.invalid}</span> rows skipped because of errors</li>}
+              {summary.failed.length > 0 && (
+                <li className="text-destructive">
+                  <span className="font-medium">{summary.failed.length}</span> rows rejected by the server
+                </li>
+              )}
+            </ul>
+
+            {summary.failed.length > 0 && (
+              <div className="border rounded-md max-h-48 overflow-y-auto divide-y text-sm">
+                {summary.failed.map((failure, index) => (
+                  <div key={index} className="px-3 py-2">
+                    Line {failure.line}: {failure.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              {(summary.invalid > 0 || summary.duplicates > 0 || summary.failed.length > 0) && (
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Report
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
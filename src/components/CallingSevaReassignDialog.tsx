@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { callingSevaApi, apiUtils, ApiServiceError, type CallingSevaRead } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { ASSIGNMENT_STRATEGY_LABELS, rememberAssignment, type AssignmentStrategy } from "@/lib/assignment";
+
+interface CallingSevaReassignDialogProps {
+  records: CallingSevaRead[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  strategy: AssignmentStrategy;
+  assign: (contacts: Pick<CallingSevaRead, "language">[]) => Promise<string[]>;
+  onReassigned: () => void;
+}
+
+// Select value for "use the assignment strategy"
+const AUTO = "__auto__";
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Moves the selected records to one bhagat, or spreads them with the
+// current assignment strategy
+export default function CallingSevaReassignDialog({
+  records,
+  open,
+  onOpenChange,
+  strategy,
+  assign,
+  onReassigned
+}: CallingSevaReassignDialogProps) {
+  const { bhagatNames } = useConstants();
+  const [target, setTarget] = useState(AUTO);
+  const [plan, setPlan] = useState<string[]>([]);
+  const [planning, setPlanning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [serverError, setServerError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setTarget(AUTO);
+    setServerError("");
+  }, [open]);
+
+  // Preview where each record would go
+  useEffect(() => {
+    if (!open) return;
+    if (target !== AUTO) {
+      setPlan(records.map(() => target));
+      return;
+    }
+    let cancelled = false;
+    setPlanning(true);
+    assign(records)
+      .then(picks => !cancelled && setPlan(picks))
+      .finally(() => !cancelled && setPlanning(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, target, records]);
+
+  const summary = bhagatNames
+    .map(name => ({ name, count: plan.filter(pick => pick === name).length }))
+    .filter(entry => entry.count > 0);
+
+  const handleSave = async () => {
+    const assignments = records
+      .map((record, i) => ({ id: record.id, assigned_bhagat_name: plan[i] }))
+      .filter((assignment, i) => assignment.assigned_bhagat_name && assignment.assigned_bhagat_name !== records[i].assigned_bhagat_name);
+    if (assignments.length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    setSaving(true);
+    setServerError("");
+    try {
+      await callingSevaApi.reassign(assignments);
+      if (target === AUTO) rememberAssignment(plan[plan.length - 1]);
+      onOpenChange(false);
+      onReassigned();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reassign {records.length} Record{records.length === 1 ? "" : "s"}</DialogTitle>
+          <DialogDescription>Choose a bhagat, or let the assignment strategy spread the calls.</DialogDescription>
+        </DialogHeader>
+
+        {serverError && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {serverError}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reassign_target">Assign to</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger id="reassign_target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO}>Auto ({ASSIGNMENT_STRATEGY_LABELS[strategy]})</SelectItem>
+                {bhagatNames.map(name => (
+                  <SelectItem key={name} value={name}>{capitalize(name)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="bg-muted rounded-md px-3 py-2 text-sm">
+            {planning ? (
+              <span className="flex items-center text-muted-foreground">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Working out assignments...
+              </span>
+            ) : (
+              <ul className="space-y-0.5">
+                {summary.map(entry => (
+                  <li key={entry.name}>
+                    {capitalize(entry.name)}: {entry.count} call{entry.count === 1 ? "" : "s"}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || planning || plan.length !== records.length}>
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Reassigning...
+              </>
+            ) : "Reassign"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, FormEvent, useCallback } from "react";
+import { useState, useEffect, useMemo, FormEvent, useCallback } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,18 +12,74 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { AlertDialog, AlertDialogTrigger, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Plus, Edit, Trash2, Search, Filter, ChevronLeft, ChevronRight, Download, MessageSquare } from "lucide-react";
+import { Loader2, Plus, Edit, Trash2, Search, Filter, Download, MessageSquare, History, FileText, Megaphone, AlertTriangle, Copy, Upload, UserCog } from "lucide-react";
 import { IconBrandWhatsapp } from '@tabler/icons-react';
-import { callingSevaApi, fetchConstants, type CallingSevaRead, type CallingSevaCreate, type CallingSevaUpdate } from "@/lib/api";
-import { exportToCSV } from "@/utils/exportToCSV";
-import { formatRecords } from "@/utils/formatRecords";
+import { callingSevaApi, apiUtils, type CallingSevaRead, type CallingSevaCreate, type CallingSevaUpdate } from "@/lib/api";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { getPendingCreates, getSyncStates, isLocalId } from "@/lib/offlineQueue";
+import ExportDialog from "@/components/ExportDialog";
+import { CALLING_SEVA_COLUMNS } from "@/lib/exportColumns";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+import { useConstants } from "@/components/ConstantsProvider";
+import FollowUpQueue from "@/components/FollowUpQueue";
+import CallingSevaBoard from "@/components/CallingSevaBoard";
+import CallingSevaFunnel from "@/components/CallingSevaFunnel";
+import ContactTimelineSheet from "@/components/ContactTimelineSheet";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatFollowUp, fromDateTimeLocal, getFollowUpBucket, toDateTimeLocal } from "@/lib/followUps";
+import WhatsAppTemplateManager from "@/components/WhatsAppTemplateManager";
+import WhatsAppSendDialog from "@/components/WhatsAppSendDialog";
+import WhatsAppCampaignDialog from "@/components/WhatsAppCampaignDialog";
+import { useWhatsAppTemplates } from "@/hooks/use-whatsapp-templates";
+import { TEMPLATE_LANGUAGES, getTemplateValues, renderTemplate } from "@/lib/templates";
+import { parsePhoneNumber, toWhatsAppNumber } from "@/lib/phone";
+import { getDuplicateKey } from "@/lib/duplicates";
+import CallingSevaDuplicatesDialog from "@/components/CallingSevaDuplicatesDialog";
+import CallingSevaImportDialog from "@/components/CallingSevaImportDialog";
+import CallingSevaReassignDialog from "@/components/CallingSevaReassignDialog";
+import BhagatWorkloadPanel from "@/components/BhagatWorkloadPanel";
+import { useAssignment } from "@/hooks/use-assignment";
+import { ASSIGNMENT_STRATEGY_LABELS, rememberAssignment } from "@/lib/assignment";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
-import {
-  BHAGAT_NAMES,
-  STATUS_OPTIONS
-} from "@/lib/api";
+const PAGE_SIZE_OPTIONS = [20, 50, 100, 200, 1000];
+const TABS = ["records", "board", "follow-ups", "workload", "analytics"] as const;
+type Tab = typeof TABS[number];
+
+// Select value for a contact without a preferred language
+const NO_LANGUAGE = "none";
+const DEFAULT_PAGE_SIZE = 50;
+
+const matchesSearch = (record: CallingSevaRead, term: string) => {
+  const query = term.trim().toLowerCase();
+  if (!query) return true;
+  return (
+    record.name?.toLowerCase().includes(query) ||
+    record.address?.toLowerCase().includes(query) ||
+    record.mobile_no?.toLowerCase().includes(query) ||
+    record.assigned_bhagat_name?.toLowerCase().includes(query) ||
+    record.remarks?.toLowerCase().includes(query)
+  );
+};
 
 export default function CallingSevaSection() {
+  const { can } = useAuth();
+  const { statusOptions, bhagatNames, ready: constantsReady } = useConstants();
+
+  // Applied status, page and search live in the query string
+  // (?status=&page=&size=&q=&tab=) so a view survives refresh and can be shared
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const tabParam = searchParams.get("tab");
+  const tab: Tab = TABS.includes(tabParam as Tab) ? (tabParam as Tab) : "records";
+  const appliedStatus = searchParams.get("status");
+  const appliedSearch = searchParams.get("q") || "";
+  const currentPage = parsePageParam(searchParams.get("page"), 1);
+  const recordsPerPage = parsePageParam(searchParams.get("size"), DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS);
+
   // Data and loading states
   const [records, setRecords] = useState<CallingSevaRead[]>([]);
   const [filteredRecords, setFilteredRecords] = useState<CallingSevaRead[]>([]);
@@ -31,69 +87,96 @@ export default function CallingSevaSection() {
   const [dataLoaded, setDataLoaded] = useState(false);
 
   // Filter states
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState(appliedStatus || "all");
 
   // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
-  const [recordsPerPage, setRecordsPerPage] = useState(50);
+  const [totalRecords, setTotalRecords] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
 
   // Search state
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchTerm, setSearchTerm] = useState(appliedSearch);
 
   // Form states
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingRecord, setEditingRecord] = useState<CallingSevaRead | null>(null);
   const [formLoading, setFormLoading] = useState(false);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  // Existing records with the number being entered, and the E.164 number
+  // they were looked up for. A second submit for the same number saves anyway.
+  const [duplicateMatches, setDuplicateMatches] = useState<CallingSevaRead[]>([]);
+  const [duplicateCheckedFor, setDuplicateCheckedFor] = useState("");
+  const [showDuplicatesDialog, setShowDuplicatesDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [deletingRecord, setDeletingRecord] = useState<CallingSevaRead | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
   // Form data
   const [formData, setFormData] = useState<Partial<CallingSevaCreate>>({
     date: "",
+    name: "",
     address: "",
     mobile_no: "",
-    status: STATUS_OPTIONS[0],
-    assigned_bhagat_name: BHAGAT_NAMES[0],
+    status: statusOptions[0],
+    assigned_bhagat_name: bhagatNames[0],
     remarks: ""
   });
 
-  // Fetch dynamic constants
+  // Fill in defaults once constants arrive, keeping anything already chosen
   useEffect(() => {
-    fetchConstants();
-  }, []);
+    setFormData(prev => ({
+      ...prev,
+      status: prev.status || statusOptions[0],
+      assigned_bhagat_name: prev.assigned_bhagat_name || bhagatNames[0]
+    }));
+  }, [statusOptions, bhagatNames]);
 
-  const validateFilters = () => {
-    if (!statusFilter) {
+  // Offline queue: reload once queued changes reach the server
+  const { mutations } = useOfflineQueue(() => {
+    if (dataLoaded) loadData();
+  });
+  const syncStates = useMemo(() => getSyncStates(mutations, "calling-seva"), [mutations]);
+  const displayedRecords = useMemo(
+    () => [...getPendingCreates<CallingSevaRead>(mutations, "calling-seva"), ...filteredRecords],
+    [mutations, filteredRecords]
+  );
+
+  const validateFilters = (status: string | null) => {
+    if (!status) {
       toast.error("Please select a status filter before loading data");
       return false;
     }
     return true;
   };
 
+  // Loads the page described by the URL
   const loadData = async () => {
-    if (!validateFilters()) return;
+    if (!validateFilters(appliedStatus)) return;
 
     setLoading(true);
     try {
-      const data = await callingSevaApi.getAll({
+      const page = await callingSevaApi.getAll({
         skip: (currentPage - 1) * recordsPerPage,
         limit: recordsPerPage,
-        status: statusFilter === "all" ? undefined : statusFilter
+        status: appliedStatus === "all" ? undefined : appliedStatus || undefined
       });
 
-      setRecords(data);
-      setFilteredRecords(data);
-      setDataLoaded(true);
-
-      // Calculate total pages (approximate since we don't get total count from API)
-      if (data.length < recordsPerPage) {
-        setTotalPages(currentPage);
-      } else {
-        setTotalPages(currentPage + 1); // We don't know exact total, so we show next page option
+      // Step back if the current page no longer exists (e.g. after a delete)
+      const lastPage = getTotalPages(page.total, recordsPerPage, page.skip + page.items.length, page.hasMore);
+      if (page.items.length === 0 && currentPage > lastPage) {
+        updateQuery({ page: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
       }
 
-      toast.success(`Loaded ${data.length} calling seva records`);
+      setRecords(page.items);
+      setFilteredRecords(page.items.filter(record => matchesSearch(record, searchTerm)));
+      setSelectedIds(new Set());
+      setTotalRecords(page.total);
+      setHasMore(page.hasMore);
+      setDataLoaded(true);
+
+      toast.success(`Loaded ${page.items.length} ${page.total === null ? "" : ` of ${page.total}`} calling seva records`);
     } catch (error) {
       toast.error("Failed to load calling seva records");
       console.error("Error loading data:", error);
@@ -102,65 +185,219 @@ export default function CallingSevaSection() {
     }
   };
 
+  // Apply the status filter by writing it to the URL; the effect below loads
+  const handleLoadData = () => {
+    if (!validateFilters(statusFilter)) return;
+    const changed = updateQuery({ status: statusFilter, page: null });
+    // Same filter as already applied: just refresh
+    if (!changed) loadData();
+  };
+
   const handleSearch = (term: string) => {
     setSearchTerm(term);
-    if (!term.trim()) {
-      setFilteredRecords(records);
+    setFilteredRecords(records.filter(record => matchesSearch(record, term)));
+    updateQuery({ q: term.trim() ? term : null }, { replace: true });
+  };
+
+  const handlePageChange = (page: number) => {
+    updateQuery({ page: page > 1 ? page : null });
+  };
+
+  const handleRecordsPerPageChange = (value: string) => {
+    const size = parseInt(value);
+    // Reset to first page when changing page size
+    updateQuery({ size: size === DEFAULT_PAGE_SIZE ? null : size, page: null });
+  };
+
+  // Every record for the applied status, with the search applied
+  const fetchAllForExport = async () => {
+    const all = await apiUtils.fetchAllPages(page => callingSevaApi.getAll({
+      ...page,
+      status: appliedStatus === "all" ? undefined : appliedStatus || undefined
+    }));
+    return all.filter(record => matchesSearch(record, searchTerm));
+  };
+
+  // Load whenever the applied status or page in the URL change, including
+  // deep links and back/forward navigation
+  useEffect(() => {
+    if (!appliedStatus) {
+      setDataLoaded(false);
+      setRecords([]);
+      setFilteredRecords([]);
       return;
     }
+    setStatusFilter(appliedStatus);
+    loadData();
+  }, [appliedStatus, currentPage, recordsPerPage]);
+
+  // Keep the search box in step with history navigation
+  useEffect(() => {
+    if (appliedSearch !== searchTerm) {
+      setSearchTerm(appliedSearch);
+      setFilteredRecords(records.filter(record => matchesSearch(record, appliedSearch)));
+    }
+  }, [appliedSearch]);
+
+  // Bumped after saves so the follow-up queue and board reload
+  const [followUpReloadKey, setFollowUpReloadKey] = useState(0);
+
+  // Contact timeline drawer
+  const [contactRecord, setContactRecord] = useState<CallingSevaRead | null>(null);
+  const [timelineReloadKey, setTimelineReloadKey] = useState(0);
 
-    const filtered = records.filter(record =>
-      record.address?.toLowerCase().includes(term.toLowerCase()) ||
-      record.mobile_no?.toLowerCase().includes(term.toLowerCase()) ||
-      record.assigned_bhagat_name?.toLowerCase().includes(term.toLowerCase()) ||
-      record.remarks?.toLowerCase().includes(term.toLowerCase())
-    );
-    setFilteredRecords(filtered);
+  const openContact = (record: CallingSevaRead) => setContactRecord(record);
+
+  // WhatsApp templates
+  const { templates } = useWhatsAppTemplates();
+  const [whatsAppRecord, setWhatsAppRecord] = useState<CallingSevaRead | null>(null);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [showCampaignDialog, setShowCampaignDialog] = useState(false);
+
+  // Auto-assignment: the bhagat picked for the new record, kept while the
+  // caller leaves it unchanged
+  const { strategy, setStrategy, assign } = useAssignment();
+  const [autoAssignedBhagat, setAutoAssignedBhagat] = useState<string | null>(null);
+  const [workloadReloadKey, setWorkloadReloadKey] = useState(0);
+
+  const autoAssign = async (language?: string) => {
+    const [pick] = await assign([{ language }]);
+    if (!pick) return;
+    setAutoAssignedBhagat(pick);
+    setFormData(prev => ({ ...prev, assigned_bhagat_name: pick }));
   };
 
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+  const handleLanguageChange = (value: string) => {
+    const language = value === NO_LANGUAGE ? undefined : value;
+    const keepAuto = !editingRecord && strategy === "language" && formData.assigned_bhagat_name === autoAssignedBhagat;
+    setFormData(prev => ({ ...prev, language }));
+    if (keepAuto) autoAssign(language);
   };
 
-  const handleRecordsPerPageChange = (value: string) => {
-    setRecordsPerPage(parseInt(value));
-    setCurrentPage(1); // Reset to first page when changing page size
+  // Bulk selection for reassignment
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showReassignDialog, setShowReassignDialog] = useState(false);
+  const selectableRecords = useMemo(
+    () => displayedRecords.filter(record => !isLocalId(record.id)),
+    [displayedRecords]
+  );
+  const selectedRecords = useMemo(
+    () => selectableRecords.filter(record => selectedIds.has(record.id)),
+    [selectableRecords, selectedIds]
+  );
+  const allSelected = selectableRecords.length > 0 && selectedRecords.length === selectableRecords.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
   };
 
-  // Load data when pagination changes
-  const reloadWithPagination = async () => {
-    if (!dataLoaded || !validateFilters()) return;
-    await loadData();
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableRecords.map(record => record.id)) : new Set());
   };
 
-  const handleExport = () => {
-    const { headers, rows } = formatRecords(filteredRecords);
-    exportToCSV(headers, rows, "calling-seva-records");
+  // Fills the form's saved message from a template and the details entered so far
+  const applyFormTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    setFormData(prev => ({ ...prev, wa_message: renderTemplate(template.body, getTemplateValues(prev)) }));
   };
 
-  // Reload data when page or records per page changes
-  useEffect(() => {
-    if (dataLoaded) {
-      reloadWithPagination();
+  const editFromContact = (record: CallingSevaRead) => {
+    setContactRecord(null);
+    handleEdit(record);
+  };
+
+  const handleTabChange = (value: string) => {
+    updateQuery({ tab: value === "records" ? null : value });
+  };
+
+  const showDueFollowUps = (bhagat: string) => {
+    updateQuery({ tab: "follow-ups", bhagat, due: "overdue", fpage: null });
+  };
+
+  // Records already holding this number, including offline creates that
+  // haven't synced. The server lookup is skipped when offline.
+  const findExistingContacts = async (e164: string): Promise<CallingSevaRead[]> => {
+    const pending = getPendingCreates<CallingSevaRead>(mutations, "calling-seva")
+      .filter(record => getDuplicateKey(record.mobile_no) === e164);
+    if (!navigator.onLine) return pending;
+
+    try {
+      const page = await callingSevaApi.getAll({ mobile_no: e164, limit: 5 });
+      return [...pending, ...page.items.filter(record => getDuplicateKey(record.mobile_no) === e164)];
+    } catch (error) {
+      console.error("Error checking for duplicates:", error);
+      return pending;
     }
-  }, [currentPage, recordsPerPage]);
+  };
+
+  const checkDuplicates = async (e164: string) => {
+    const matches = await findExistingContacts(e164);
+    setDuplicateMatches(matches);
+    setDuplicateCheckedFor(e164);
+    return matches;
+  };
+
+  const handleMobileBlur = () => {
+    const phone = parsePhoneNumber(formData.mobile_no);
+    if (!formData.mobile_no || formData.mobile_no === editingRecord?.mobile_no) return;
+    if (!phone.valid) {
+      setFormErrors({ ...formErrors, mobile_no: phone.error });
+    } else if (!editingRecord && phone.e164 !== duplicateCheckedFor) {
+      checkDuplicates(phone.e164);
+    }
+  };
+
+  const openExistingRecord = (record: CallingSevaRead) => {
+    if (isLocalId(record.id)) return;
+    handleEdit(record);
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    setFormLoading(true);
 
+    // Numbers are saved in E.164 so WhatsApp links and duplicate checks agree.
+    // Older records may hold numbers that don't parse; those are left as they
+    // are unless the number itself is edited.
+    const mobileChanged = !editingRecord || formData.mobile_no !== editingRecord.mobile_no;
+    const phone = parsePhoneNumber(formData.mobile_no);
+    if (mobileChanged && !phone.valid) {
+      setFormErrors({ mobile_no: phone.error });
+      return;
+    }
+    const data = phone.valid ? { ...formData, mobile_no: phone.e164 } : formData;
+
+    // Warn once before creating a second record for the same number
+    if (!editingRecord && phone.valid && phone.e164 !== duplicateCheckedFor) {
+      setFormLoading(true);
+      const matches = await checkDuplicates(phone.e164);
+      setFormLoading(false);
+      if (matches.length > 0) return;
+    }
+
+    setFormLoading(true);
     try {
       if (editingRecord) {
-        await callingSevaApi.update(editingRecord.id, formData as CallingSevaUpdate);
-        toast.success("Calling seva record updated successfully");
+        const { queued } = await callingSevaApi.update(editingRecord.id, data as CallingSevaUpdate);
+        // Queued changes get the offline toast instead
+        if (!queued) toast.success("Calling seva record updated successfully");
       } else {
-        await callingSevaApi.create(formData as CallingSevaCreate);
-        toast.success("Calling seva record created successfully");
+        const { queued } = await callingSevaApi.create(data as CallingSevaCreate);
+        if (data.assigned_bhagat_name === autoAssignedBhagat) rememberAssignment(autoAssignedBhagat);
+        if (!queued) toast.success("Calling seva record created successfully");
       }
 
       setShowAddDialog(false);
       setEditingRecord(null);
       resetForm();
+      setFollowUpReloadKey(key => key + 1);
+      setTimelineReloadKey(key => key + 1);
+      setWorkloadReloadKey(key => key + 1);
       if (dataLoaded) {
         await loadData(); // Reload data after successful operation
       }
@@ -174,14 +411,20 @@ export default function CallingSevaSection() {
 
   const handleEdit = (record: CallingSevaRead) => {
     setEditingRecord(record);
+    setFormErrors({});
+    setDuplicateMatches([]);
+    setDuplicateCheckedFor("");
     setFormData({
       date: record.date ? new Date(record.date).toISOString().split('T')[0] : "",
+      name: record.name || "",
+      language: record.language,
       address: record.address || "",
       mobile_no: record.mobile_no || "",
       status: record.status || "other",
-      assigned_bhagat_name: record.assigned_bhagat_name || BHAGAT_NAMES[0],
+      assigned_bhagat_name: record.assigned_bhagat_name || bhagatNames[0],
       wa_message: record.wa_message || "",
-      remarks: record.remarks || ""
+      remarks: record.remarks || "",
+      next_follow_up_at: record.next_follow_up_at ?? null
     });
     setShowAddDialog(true);
   };
@@ -190,8 +433,8 @@ export default function CallingSevaSection() {
     if (!confirm("Are you sure you want to delete this record?")) return;
 
     try {
-      await callingSevaApi.delete(id);
-      toast.success("Calling seva record deleted successfully");
+      const { queued } = await callingSevaApi.delete(id);
+      if (!queued) toast.success("Calling seva record deleted successfully");
       if (dataLoaded) {
         await loadData(); // Reload data after successful deletion
       }
@@ -206,9 +449,9 @@ export default function CallingSevaSection() {
 
     setDeleteLoading(true);
     try {
-      await callingSevaApi.delete(deletingRecord.id);
+      const { queued } = await callingSevaApi.delete(deletingRecord.id);
       setDeletingRecord(null);
-      toast.success("Calling seva record deleted successfully");
+      if (!queued) toast.success("Calling seva record deleted successfully");
       if (dataLoaded) {
         await loadData(); // Reload data after successful deletion
       }
@@ -221,13 +464,21 @@ export default function CallingSevaSection() {
   }, [deletingRecord, loadData, dataLoaded]);
 
   const resetForm = () => {
+    setFormErrors({});
+    setAutoAssignedBhagat(null);
+    setDuplicateMatches([]);
+    setDuplicateCheckedFor("");
     setFormData({
       date: "",
+      name: "",
+      language: undefined,
       address: "",
       mobile_no: "",
       status: "other",
-      assigned_bhagat_name: BHAGAT_NAMES[0],
-      remarks: ""
+      assigned_bhagat_name: bhagatNames[0],
+      wa_message: "",
+      remarks: "",
+      next_follow_up_at: null
     });
   };
 
@@ -235,319 +486,470 @@ export default function CallingSevaSection() {
     setEditingRecord(null);
     resetForm();
     setShowAddDialog(true);
+    autoAssign();
   };
 
-  function formatPhoneNumber(rawNumber: string | undefined | null): string | null {
-    if (!rawNumber) {
-      alert("Invalid number: empty");
-      return null;
-    }
+  const handleWhatsApp = (record: CallingSevaRead) => setWhatsAppRecord(record);
 
-    const digits = rawNumber.replace(/[^0-9]/g, "");
-    console.log("Digits extracted:", digits);
-
-    if (digits.length === 10) {
-      return `+91${digits}`;
-    } else if (digits.length === 12) {
-      const countryCode = digits.slice(0, 2);
-      const restNumber = digits.slice(2);
-      return `+${countryCode}${restNumber}`;
-    } else {
-      alert(`Invalid number: ${rawNumber}`);
-      return null;
+  // Called by the send and campaign dialogs with the final text
+  const sendWhatsApp = (record: Pick<CallingSevaRead, "id" | "mobile_no">, message: string) => {
+    const phone = parsePhoneNumber(record?.mobile_no);
+    if (!phone.valid) {
+      toast.error(phone.error);
+      return false;
     }
-  }
-
-  const handleWhatsApp = (record: CallingSevaRead) => {
-    const phone = formatPhoneNumber(record?.mobile_no || "");
-    if (!phone) return;
-    const message = record?.wa_message || "";
-    const url = `https://wa.me/${phone}?text=${encodeURIComponent(message)}`;
+    const url = `https://wa.me/${toWhatsAppNumber(phone.e164)}?text=${encodeURIComponent(message)}`;
     window.open(url, "_blank");
+
+    // Best effort: add the message to the contact's timeline
+    if (!isLocalId(record.id) && navigator.onLine) {
+      callingSevaApi.logInteraction(record.id, {
+        type: "whatsapp",
+        occurred_at: new Date().toISOString(),
+        note: message || undefined
+      })
+        .then(() => setTimelineReloadKey(key => key + 1))
+        .catch(error => console.error("Failed to log WhatsApp message:", error));
+    }
+    return true;
   }
 
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
+      <div className="flex justify-between items-center gap-4">
         <div>
           <h1 className="text-3xl font-bold text-foreground">Calling Seva</h1>
           <p className="text-muted-foreground">Manage calling seva records</p>
         </div>
-        <Button onClick={openAddDialog} className="bg-primary hover:bg-primary/90">
-          <Plus className="w-4 h-4 mr-2" />
-          Add Calling Seva
-        </Button>
-      </div>
-
-      {/* Filters Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Filters</CardTitle>
-          <CardDescription>Set filters before loading data</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="statusFilter">Status</Label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  {STATUS_OPTIONS.map(status => (
-                    <SelectItem key={status} value={status}>
-                      {status === "Interested (ज्ञान में रुची है)" ? (
-                        <Badge className="bg-green-200 text-green-800 border border-green-400">
-                          Interested (ज्ञान में रुची है)
-                        </Badge>
-                      ) : (
-                        status.charAt(0).toUpperCase() + status.slice(1)
-                      )}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <Button
-              onClick={loadData}
-              disabled={loading}
-              className="bg-primary hover:bg-primary/90"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Loading...
-                </>
-              ) : (
-                <>
-                  <Filter className="w-4 h-4 mr-2" />
-                  Load Data
-                </>
-              )}
+        <div className="flex flex-wrap justify-end gap-2">
+          {can("calling-seva:create") && (
+            <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          )}
+          {can("calling-seva:create") && (
+            <Button variant="outline" onClick={() => setShowCampaignDialog(true)}>
+              <Megaphone className="w-4 h-4 mr-2" />
+              Campaigns
+            </Button>
+          )}
+          {can("calling-seva:delete") && (
+            <Button variant="outline" onClick={() => setShowDuplicatesDialog(true)}>
+              <Copy className="w-4 h-4 mr-2" />
+              Possible Duplicates
+            </Button>
+          )}
+          {can("calling-seva:manage") && (
+            <Button variant="outline" onClick={() => setShowTemplateManager(true)}>
+              <FileText className="w-4 h-4 mr-2" />
+              Message Templates
             </Button>
-            <Button variant={"outline"} onClick={handleExport}>
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
+          )}
+          {can("calling-seva:create") && (
+            <Button onClick={openAddDialog} className="bg-primary hover:bg-primary/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Calling Seva
             </Button>
-          </div>
-        </CardContent>
-      </Card>
+          )}
+        </div>
+      </div>
+
+      <Tabs value={tab} onValueChange={handleTabChange}>
+        <TabsList>
+          <TabsTrigger value="records">Records</TabsTrigger>
+          <TabsTrigger value="board">Board</TabsTrigger>
+          <TabsTrigger value="follow-ups">Follow-ups</TabsTrigger>
+          <TabsTrigger value="workload">Workload</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+        </TabsList>
+      </Tabs>
 
-      {/* Search and Data Section - Only show after data is loaded */}
-      {dataLoaded && (
+      {tab === "workload" && (
+        <BhagatWorkloadPanel
+          strategy={strategy}
+          onStrategyChange={setStrategy}
+          onShowDue={showDueFollowUps}
+          reloadKey={workloadReloadKey}
+        />
+      )}
+
+      {tab === "analytics" && <CallingSevaFunnel />}
+
+      {tab === "board" && (
+        <CallingSevaBoard onEdit={handleEdit} onOpenContact={openContact} reloadKey={followUpReloadKey} />
+      )}
+
+      {tab === "follow-ups" && (
+        <FollowUpQueue onEdit={handleEdit} onOpenContact={openContact} reloadKey={followUpReloadKey} />
+      )}
+
+      {tab === "records" && (
         <>
-          {/* Search Bar */}
-          <div className="flex items-center space-x-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-              <Input
-                placeholder="Search calling seva records..."
-                value={searchTerm}
-                onChange={(e) => handleSearch(e.target.value)}
-                className="pl-10"
-              />
+        {/* Filters Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Set filters before loading data</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="statusFilter">Status</Label>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Status</SelectItem>
+                    {statusOptions.map(status => (
+                      <SelectItem key={status} value={status}>
+                        {status === "Interested (ज्ञान में रुची है)" ? (
+                          <Badge className="bg-green-200 text-green-800 border border-green-400">
+                            Interested (ज्ञान में रुची है)
+                          </Badge>
+                        ) : (
+                          status.charAt(0).toUpperCase() + status.slice(1)
+                        )}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleLoadData}
+                disabled={loading}
+                className="bg-primary hover:bg-primary/90"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  <>
+                    <Filter className="w-4 h-4 mr-2" />
+                    Load Data
+                  </>
+                )}
+              </Button>
+              {can("calling-seva:export") && (
+                <Button variant={"outline"} onClick={() => setShowExportDialog(true)}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Search and Data Section - Only show after data is loaded */}
+        {dataLoaded && (
+          <>
+            {/* Search Bar */}
+            <div className="flex items-center space-x-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  placeholder="Search calling seva records..."
+                  value={searchTerm}
+                  onChange={(e) => handleSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
             </div>
-          </div>
 
-          {/* Records Table */}
-          <Card>
-            <CardHeader>
-              <div className="flex justify-between items-center">
-                <div>
-                  {/* <CardTitle>Calling Seva Records</CardTitle> */}
-                  <CardDescription>
-                    Showing {filteredRecords.length} records
-                  </CardDescription>
-                </div>
+            {/* Records Table */}
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    {/* <CardTitle>Calling Seva Records</CardTitle> */}
+                    <CardDescription>
+                      {searchTerm.trim()
+                        ? `${filteredRecords.length} of ${records.length} records on this page match "${searchTerm}"`
+                        : totalRecords === null
+                          ? `${records.length} records on this page`
+                          : `${totalRecords} records with selected status`}
+                    </CardDescription>
+                  </div>
 
-                {/* Records per page selector */}
-                <div className="flex items-center space-x-2">
-                  <Label>Records per page:</Label>
-                  <Select value={recordsPerPage.toString()} onValueChange={handleRecordsPerPageChange}>
-                    <SelectTrigger className="w-20">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="20">20</SelectItem>
-                      <SelectItem value="50">50</SelectItem>
-                      <SelectItem value="100">100</SelectItem>
-                      <SelectItem value="200">200</SelectItem>
-                      <SelectItem value="1000">1000</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {/* Records per page selector */}
+                  <div className="flex items-center space-x-2">
+                    <Label>Records per page:</Label>
+                    <Select value={recordsPerPage.toString()} onValueChange={handleRecordsPerPageChange}>
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAGE_SIZE_OPTIONS.map(size => (
+                          <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="rounded-md border">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Address</TableHead>
-                      <TableHead>Mobile</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Assigned Bhagat</TableHead>
-                      <TableHead>Remarks</TableHead>
-                      <TableHead>Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {filteredRecords.map((record) => (
-                      <TableRow key={record.id}>
-                        <TableCell>
-                          {/* {record.date ? new Date(record.date).toLocaleDateString() : 'N/A'} */}
-                          {record.date ? new Date(record.date).toLocaleDateString("en-IN", {
-                            day: "2-digit",
-                            month: "short",
-                            year: "numeric"
-                          }) : 'N/A'}
-                        </TableCell>
-                        <TableCell className="max-w-xs truncate">
-                          {record.address}
-                        </TableCell>
-                        <TableCell>{record.mobile_no}</TableCell>
-                        <TableCell>
-                          {record.status === "Interested (ज्ञान में रुची है)" ? (
-                            <Badge className="bg-green-200 text-green-800 border border-green-400">
-                              Interested (ज्ञान में रुची है)
-                            </Badge>
-                          ) : (
-                            <Badge className="bg-gray-200 text-black-800 border border-black-100">
-                              {record.status}
-                            </Badge>
+              </CardHeader>
+              <CardContent>
+                {selectedRecords.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+                    <span>{selectedRecords.length} selected</span>
+                    <Button size="sm" variant="outline" onClick={() => setShowReassignDialog(true)}>
+                      <UserCog className="w-4 h-4 mr-2" />
+                      Reassign Selected
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                      Clear
+                    </Button>
+                  </div>
+                )}
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {can("calling-seva:edit") && (
+                          <TableHead className="w-8">
+                            <Checkbox
+                              checked={allSelected}
+                              onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+                              aria-label="Select all records on this page"
+                            />
+                          </TableHead>
+                        )}
+                        <TableHead>Date</TableHead>
+                        <TableHead>Address</TableHead>
+                        <TableHead>Mobile</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Assigned Bhagat</TableHead>
+                        <TableHead>Follow-up</TableHead>
+                        <TableHead>Remarks</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {displayedRecords.map((record) => (
+                        <TableRow key={record.id}>
+                          {can("calling-seva:edit") && (
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedIds.has(record.id)}
+                                onCheckedChange={(checked) => toggleSelected(record.id, checked === true)}
+                                disabled={isLocalId(record.id)}
+                                aria-label="Select record"
+                              />
+                            </TableCell>
                           )}
-                        </TableCell>
-                        <TableCell>{record.assigned_bhagat_name}</TableCell>
-                        <TableCell className="max-w-xs truncate">
-                          {record.remarks || 'N/A'}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex space-x-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleWhatsApp(record)}
-                              className="text-green-500 hover:text-green-600"
-                              aria-label="WhatsApp"
-                            >
-                              <IconBrandWhatsapp className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(record)}
-                            >
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
+                          <TableCell>
+                            {/* {record.date ? new Date(record.date).toLocaleDateString() : 'N/A'} */}
+                            {record.date ? new Date(record.date).toLocaleDateString("en-IN", {
+                              day: "2-digit",
+                              month: "short",
+                              year: "numeric"
+                            }) : 'N/A'}
+                            <div className="mt-1">
+                              <SyncStatusBadge mutation={syncStates.get(record.id)} />
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate">
+                            {record.address}
+                          </TableCell>
+                          <TableCell>{record.mobile_no}</TableCell>
+                          <TableCell>
+                            {record.status === "Interested (ज्ञान में रुची है)" ? (
+                              <Badge className="bg-green-200 text-green-800 border border-green-400">
+                                Interested (ज्ञान में रुची है)
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-gray-200 text-black-800 border border-black-100">
+                                {record.status}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{record.assigned_bhagat_name}</TableCell>
+                          <TableCell>
+                            {record.next_follow_up_at ? (
+                              <span className={getFollowUpBucket(record.next_follow_up_at) === "overdue" ? "text-red-600" : ""}>
+                                {formatFollowUp(record.next_follow_up_at)}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">None</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate">
+                            {record.remarks || 'N/A'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openContact(record)}
+                                aria-label="Contact history"
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleWhatsApp(record)}
+                                className="text-green-500 hover:text-green-600"
+                                aria-label="WhatsApp"
+                              >
+                                <IconBrandWhatsapp className="w-4 h-4" />
+                              </Button>
+                              {can("calling-seva:edit") && (
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => setDeletingRecord(record)}
-                                  className="text-destructive hover:text-destructive"
-                                  aria-label={`Delete calling seva record`}
+                                  onClick={() => handleEdit(record)}
                                 >
-                                  <Trash2 className="w-4 h-4" />
+                                  <Edit className="w-4 h-4" />
                                 </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Delete Calling Seva Record</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    Are you sure you want to delete this calling seva record for <strong>{record.address}</strong>? This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={handleDeleteConfirm}
-                                    disabled={deleteLoading}
-                                    className="bg-destructive hover:bg-destructive/90"
-                                  >
-                                    {deleteLoading ? "Deleting..." : "Delete"}
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-
-              {/* Pagination */}
-              {records.length > 0 && (
-                <div className="flex items-center justify-between mt-4">
-                  <div className="text-sm text-muted-foreground">
-                    Page {currentPage} of {totalPages || 1}
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handlePageChange(currentPage - 1)}
-                      disabled={currentPage <= 1}
-                    >
-                      <ChevronLeft className="w-4 h-4" />
-                      Previous
-                    </Button>
+                              )}
+                              {can("calling-seva:delete") && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setDeletingRecord(record)}
+                                      className="text-destructive hover:text-destructive"
+                                      aria-label={`Delete calling seva record`}
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Calling Seva Record</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete this calling seva record for <strong>{record.address}</strong>? This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={handleDeleteConfirm}
+                                        disabled={deleteLoading}
+                                        className="bg-destructive hover:bg-destructive/90"
+                                      >
+                                        {deleteLoading ? "Deleting..." : "Delete"}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
 
-                    {/* Page numbers */}
-                    {totalPages > 1 && (
-                      <div className="flex items-center space-x-1">
-                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                          const pageNum = Math.max(1, currentPage - 2) + i;
-                          if (pageNum > totalPages) return null;
-
-                          return (
-                            <Button
-                              key={pageNum}
-                              variant={pageNum === currentPage ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => handlePageChange(pageNum)}
-                              className="w-8 h-8 p-0"
-                            >
-                              {pageNum}
-                            </Button>
-                          );
-                        })}
-                      </div>
-                    )}
+                {/* Pagination */}
+                {records.length > 0 && (
+                  <TablePagination
+                    currentPage={currentPage}
+                    recordsPerPage={recordsPerPage}
+                    total={totalRecords}
+                    hasMore={hasMore}
+                    pageCount={records.length}
+                    onPageChange={handlePageChange}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
 
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handlePageChange(currentPage + 1)}
-                      disabled={records.length < recordsPerPage}
-                    >
-                      Next
-                      <ChevronRight className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-              )}
+        {/* No Data Loaded State */}
+        {!dataLoaded && !loading && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Filter className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <CardTitle className="mb-2">Load Data</CardTitle>
+              <CardDescription>
+                Please select a status and click "Load Data" to view calling-seva records.
+              </CardDescription>
             </CardContent>
           </Card>
+        )}
         </>
       )}
 
-      {/* No Data Loaded State */}
-      {!dataLoaded && !loading && (
-        <Card>
-          <CardContent className="text-center py-12">
-            <Filter className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            <CardTitle className="mb-2">Load Data</CardTitle>
-            <CardDescription>
-              Please select a status and click "Load Data" to view calling-seva records.
-            </CardDescription>
-          </CardContent>
-        </Card>
-      )}
+      {/* Contact Timeline */}
+      <ContactTimelineSheet
+        record={contactRecord}
+        onOpenChange={(open) => !open && setContactRecord(null)}
+        onEdit={editFromContact}
+        onWhatsApp={handleWhatsApp}
+        reloadKey={timelineReloadKey}
+      />
+
+      {/* WhatsApp */}
+      <WhatsAppSendDialog
+        record={whatsAppRecord}
+        onOpenChange={(open) => !open && setWhatsAppRecord(null)}
+        onSend={sendWhatsApp}
+      />
+      <WhatsAppTemplateManager open={showTemplateManager} onOpenChange={setShowTemplateManager} />
+      <WhatsAppCampaignDialog open={showCampaignDialog} onOpenChange={setShowCampaignDialog} onSend={sendWhatsApp} />
+
+      {/* Bulk reassignment */}
+      <CallingSevaReassignDialog
+        records={selectedRecords}
+        open={showReassignDialog}
+        onOpenChange={setShowReassignDialog}
+        strategy={strategy}
+        assign={assign}
+        onReassigned={() => {
+          setFollowUpReloadKey(key => key + 1);
+          setWorkloadReloadKey(key => key + 1);
+          if (dataLoaded) loadData();
+        }}
+      />
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="calling-seva"
+        columns={CALLING_SEVA_COLUMNS}
+        loadedRecords={filteredRecords}
+        fetchAll={fetchAllForExport}
+        total={totalRecords}
+        filename="calling-seva-records"
+        report={{
+          title: "Calling Seva Records",
+          filters: [
+            { label: "Status", value: !appliedStatus || appliedStatus === "all" ? "All" : appliedStatus },
+            ...(searchTerm.trim() ? [{ label: "Search", value: searchTerm.trim() }] : [])
+          ]
+        }}
+      />
+
+      {/* Bulk import */}
+      <CallingSevaImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        assign={assign}
+        strategyLabel={ASSIGNMENT_STRATEGY_LABELS[strategy]}
+        onImported={() => {
+          setFollowUpReloadKey(key => key + 1);
+          setWorkloadReloadKey(key => key + 1);
+          if (dataLoaded) loadData();
+        }}
+      />
+
+      {/* Duplicate contacts */}
+      <CallingSevaDuplicatesDialog
+        open={showDuplicatesDialog}
+        onOpenChange={setShowDuplicatesDialog}
+        onMerged={() => {
+          setFollowUpReloadKey(key => key + 1);
+          if (dataLoaded) loadData();
+        }}
+      />
 
       {/* Add/Edit Dialog */}
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
@@ -562,6 +964,36 @@ export default function CallingSevaSection() {
           </DialogHeader>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {!editingRecord && duplicateMatches.length > 0 && (
+              <Alert className="border-amber-200 bg-amber-50 text-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>This number is already in Calling Seva</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-1 space-y-1">
+                    {duplicateMatches.map(record => (
+                      <li key={record.id} className="flex items-center justify-between gap-2">
+                        <span>
+                          {record.name || record.mobile_no} · {record.status} · {record.assigned_bhagat_name}
+                          {isLocalId(record.id) && " (waiting to sync)"}
+                        </span>
+                        {!isLocalId(record.id) && (
+                          <Button
+                            type="button"
+                            variant="link"
+                            className="h-auto p-0 text-amber-900 dark:text-amber-200"
+                            onClick={() => openExistingRecord(record)}
+                          >
+                            Open existing
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2">Submit again to create a new record anyway.</p>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="date">Date *</Label>
@@ -588,10 +1020,36 @@ export default function CallingSevaSection() {
                 <Input
                   id="mobile_no"
                   value={formData.mobile_no}
-                  onChange={(e) => setFormData({ ...formData, mobile_no: e.target.value })}
+                  onChange={(e) => {
+                    setFormData({ ...formData, mobile_no: e.target.value });
+                    if (formErrors.mobile_no) setFormErrors({ ...formErrors, mobile_no: "" });
+                    if (duplicateCheckedFor) {
+                      setDuplicateMatches([]);
+                      setDuplicateCheckedFor("");
+                    }
+                  }}
+                  onBlur={handleMobileBlur}
                   placeholder="+911234567890"
+                  className={formErrors.mobile_no ? "border-destructive" : ""}
                   required
                 />
+                {formErrors.mobile_no ? (
+                  <p className="text-sm text-destructive">{formErrors.mobile_no}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Include the country code for numbers outside India, e.g. +971 or +977.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="name">Contact Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Optional, used in WhatsApp messages"
+                />
               </div>
 
               <div className="space-y-2 md:col-span-2">
@@ -611,11 +1069,11 @@ export default function CallingSevaSection() {
                   value={formData.status}
                   onValueChange={(value) => setFormData({ ...formData, status: value })}
                 >
-                  <SelectTrigger>
-                    <SelectValue />
+                  <SelectTrigger disabled={!constantsReady}>
+                    <SelectValue placeholder={constantsReady ? undefined : "Loading..."} />
                   </SelectTrigger>
                   <SelectContent>
-                    {STATUS_OPTIONS.map(status => (
+                    {statusOptions.map(status => (
                       <SelectItem key={status} value={status}>
                         {status.charAt(0).toUpperCase() + status.slice(1)}
                       </SelectItem>
@@ -624,23 +1082,97 @@ export default function CallingSevaSection() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="language">Language</Label>
+                <Select value={formData.language || NO_LANGUAGE} onValueChange={handleLanguageChange}>
+                  <SelectTrigger id="language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LANGUAGE}>Not set</SelectItem>
+                    {TEMPLATE_LANGUAGES.map(language => (
+                      <SelectItem key={language} value={language}>
+                        {language.charAt(0).toUpperCase() + language.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="assigned_bhagat_name">Assigned Bhagat *</Label>
                 <Select
                   value={formData.assigned_bhagat_name}
                   onValueChange={(value) => setFormData({ ...formData, assigned_bhagat_name: value })}
                 >
-                  <SelectTrigger>
-                    <SelectValue />
+                  <SelectTrigger disabled={!constantsReady}>
+                    <SelectValue placeholder={constantsReady ? undefined : "Loading..."} />
                   </SelectTrigger>
                   <SelectContent>
-                    {BHAGAT_NAMES.map(name => (
+                    {bhagatNames.map(name => (
                       <SelectItem key={name} value={name}>
                         {name.charAt(0).toUpperCase() + name.slice(1)}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {!editingRecord && autoAssignedBhagat && formData.assigned_bhagat_name === autoAssignedBhagat && (
+                  <p className="text-sm text-muted-foreground">
+                    Auto-assigned by {ASSIGNMENT_STRATEGY_LABELS[strategy].toLowerCase()}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="next_follow_up_at">Next Follow-up</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="next_follow_up_at"
+                    type="datetime-local"
+                    value={toDateTimeLocal(formData.next_follow_up_at)}
+                    onChange={(e) => setFormData({ ...formData, next_follow_up_at: fromDateTimeLocal(e.target.value) })}
+                    className="md:w-64"
+                  />
+                  {formData.next_follow_up_at && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setFormData({ ...formData, next_follow_up_at: null })}
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Shows up in the follow-up queue of the assigned bhagat.
+                </p>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="wa_message">WhatsApp Message</Label>
+                  {templates.length > 0 && (
+                    <Select value="" onValueChange={applyFormTemplate}>
+                      <SelectTrigger className="w-auto h-8">
+                        <SelectValue placeholder="Use a template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} ({template.language.charAt(0).toUpperCase() + template.language.slice(1)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <Textarea
+                  id="wa_message"
+                  value={formData.wa_message}
+                  onChange={(e) => setFormData({ ...formData, wa_message: e.target.value })}
+                  placeholder="Optional message to send on WhatsApp"
+                />
               </div>
 
               <div className="space-y-2 md:col-span-2">
@@ -669,7 +1201,7 @@ export default function CallingSevaSection() {
                     {editingRecord ? 'Updating...' : 'Creating...'}
                   </>
                 ) : (
-                  editingRecord ? 'Update Record' : 'Create Record'
+                  editingRecord ? 'Update Record' : duplicateMatches.length > 0 ? 'Create Anyway' : 'Create Record'
                 )}
               </Button>
             </div>
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpenCheck, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { expensesApi, incomeApi, apiUtils, ApiServiceError, type ExpenseRead, type IncomeRead } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import ExportDialog from "@/components/ExportDialog";
+import { buildCashBook, PAYMENT_MODE_LABELS } from "@/lib/income";
+import { CASH_BOOK_COLUMNS, formatExportCurrency } from "@/lib/exportColumns";
+import { formatPeriod } from "@/lib/reports";
+
+interface CashBookProps {
+  fromDate: string;
+  toDate: string;
+  canExport: boolean;
+  // Bumped by the parent to reload after income is added or changed
+  reloadKey?: number;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+// Income and expenses for the period in date order, with the balance
+// brought forward, a running balance and the closing balance
+export default function CashBook({ fromDate, toDate, canExport, reloadKey = 0 }: CashBookProps) {
+  const { expenseCategories } = useConstants();
+  const [opening, setOpening] = useState(0);
+  const [income, setIncome] = useState<IncomeRead[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseRead[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!fromDate || !toDate) return;
+
+    setLoading(true);
+    try {
+      const range = { from_date: fromDate, to_date: toDate };
+      const [balance, incomeItems, expenseItems] = await Promise.all([
+        incomeApi.getCashBalance(fromDate),
+        apiUtils.fetchAllPages(page => incomeApi.getAll({ ...page, ...range })),
+        apiUtils.fetchAllPages(page => expensesApi.getAll({ ...page, ...range })),
+      ]);
+      setOpening(balance.balance);
+      setIncome(incomeItems);
+      setExpenses(expenseItems);
+      setLoaded(true);
+    } catch (error) {
+      console.error("Failed to load cash book:", error);
+      if (!(error instanceof ApiServiceError)) toast.error("Failed to load cash book");
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    load();
+  }, [load, reloadKey]);
+
+  const cashBook = useMemo(
+    () => buildCashBook(opening, income, expenses, expenseCategories),
+    [opening, income, expenses, expenseCategories]
+  );
+
+  if (!fromDate || !toDate) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <BookOpenCheck className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <CardTitle className="mb-2">Load Data</CardTitle>
+          <CardDescription>Please select a date range and click "Load Data" to view the cash book.</CardDescription>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading && !loaded) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const summary = [
+    { label: "Opening balance", value: cashBook.opening },
+    { label: "Receipts", value: cashBook.totalReceipts },
+    { label: "Payments", value: cashBook.totalPayments },
+    { label: "Closing balance", value: cashBook.closing },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{item.label}</p>
+              <p className={`text-xl font-bold ${item.value < 0 ? "text-red-600" : "text-foreground"}`}>
+                {formatExportCurrency(item.value)}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpenCheck className="h-5 w-5" />
+                Cash Book
+              </CardTitle>
+              <CardDescription>
+                {formatPeriod(fromDate, toDate)} · {cashBook.entries.length} entries
+              </CardDescription>
+            </div>
+            {canExport && (
+              <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={cashBook.entries.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-b border-border bg-muted/30">
+                  <TableHead className="font-medium text-muted-foreground">Date</TableHead>
+                  <TableHead className="font-medium text-muted-foreground">Particulars</TableHead>
+                  <TableHead className="font-medium text-muted-foreground">Mode</TableHead>
+                  <TableHead className="font-medium text-muted-foreground text-right">Receipts</TableHead>
+                  <TableHead className="font-medium text-muted-foreground text-right">Payments</TableHead>
+                  <TableHead className="font-medium text-muted-foreground text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="bg-muted/10">
+                  <TableCell>{formatDate(fromDate)}</TableCell>
+                  <TableCell className="font-medium" colSpan={4}>Balance brought forward</TableCell>
+                  <TableCell className="text-right font-semibold">{formatExportCurrency(cashBook.opening)}</TableCell>
+                </TableRow>
+                {cashBook.entries.map(entry => (
+                  <TableRow key={entry.key} className="border-b border-border hover:bg-muted/20">
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.particulars}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.head}
+                        {entry.receipt_no && ` · Receipt ${entry.receipt_no}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {entry.mode ? <Badge variant="secondary">{PAYMENT_MODE_LABELS[entry.mode]}</Badge> : null}
+                    </TableCell>
+                    <TableCell className="text-right text-green-700">
+                      {entry.receipt ? formatExportCurrency(entry.receipt) : ""}
+                    </TableCell>
+                    <TableCell className="text-right text-red-700">
+                      {entry.payment ? formatExportCurrency(entry.payment) : ""}
+                    </TableCell>
+                    <TableCell className={`text-right ${entry.balance < 0 ? "text-red-600" : ""}`}>
+                      {formatExportCurrency(entry.balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/30 font-semibold">
+                  <TableCell>{formatDate(toDate)}</TableCell>
+                  <TableCell colSpan={2}>Closing balance</TableCell>
+                  <TableCell className="text-right">{formatExportCurrency(cashBook.totalReceipts)}</TableCell>
+                  <TableCell className="text-right">{formatExportCurrency(cashBook.totalPayments)}</TableCell>
+                  <TableCell className={`text-right ${cashBook.closing < 0 ? "text-red-600" : ""}`}>
+                    {formatExportCurrency(cashBook.closing)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="cash-book"
+        columns={CASH_BOOK_COLUMNS}
+        loadedRecords={cashBook.entries}
+        fetchAll={async () => cashBook.entries}
+        total={cashBook.entries.length}
+        filename="cash-book-nds-kochi"
+        report={{
+          title: "Cash Book",
+          period: formatPeriod(fromDate, toDate),
+          filters: [
+            { label: "Opening balance", value: formatExportCurrency(cashBook.opening) },
+            { label: "Closing balance", value: formatExportCurrency(cashBook.closing) }
+          ]
+        }}
+      />
+    </div>
+  );
+}
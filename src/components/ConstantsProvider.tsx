@@ -0,0 +1,127 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import { toast } from "sonner";
+import { generalApi, ApiServiceError, type ConstantsResponse, type ExpenseCategory } from "@/lib/api";
+import { DEFAULT_EXPENSE_CATEGORIES } from "@/lib/expenses";
+
+// Last successful /general/constants response, so forms work offline
+const CACHE_KEY = "constants_cache";
+
+interface CachedConstants {
+  data: ConstantsResponse;
+  fetchedAt: number;
+}
+
+const EMPTY_CONSTANTS: ConstantsResponse = {
+  coordinator_name: "",
+  driver_name: "",
+  status: [],
+  assigned_bhagat: [],
+};
+
+interface ConstantsContextValue {
+  bhagatNames: string[];
+  statusOptions: string[];
+  coordinatorName: string;
+  driverName: string;
+  // Retired categories included; see lib/expenses for pickers
+  expenseCategories: ExpenseCategory[];
+  // True once constants are available, from the server or the cache
+  ready: boolean;
+  loading: boolean;
+  error: string | null;
+  lastUpdated: number | null;
+  refresh: (options?: { silent?: boolean }) => Promise<void>;
+}
+
+const ConstantsContext = createContext<ConstantsContextValue | null>(null);
+
+export const useConstants = () => {
+  const context = useContext(ConstantsContext);
+  if (!context) {
+    throw new Error("useConstants must be used within ConstantsProvider");
+  }
+  return context;
+};
+
+const readCache = (): CachedConstants | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    return raw ? (JSON.parse(raw) as CachedConstants) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (data: ConstantsResponse) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ data, fetchedAt: Date.now() }));
+  } catch (error) {
+    console.error("Failed to cache constants:", error);
+  }
+};
+
+interface ConstantsProviderProps {
+  children: ReactNode;
+}
+
+export default function ConstantsProvider({ children }: ConstantsProviderProps) {
+  const [cached, setCached] = useState<CachedConstants | null>(readCache);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inFlight = useRef<Promise<void> | null>(null);
+
+  const refresh = useCallback((options: { silent?: boolean } = {}) => {
+    // Share one request between concurrent callers
+    if (inFlight.current) return inFlight.current;
+
+    setLoading(true);
+    const request = generalApi.getConstants()
+      .then((data) => {
+        writeCache(data);
+        setCached({ data, fetchedAt: Date.now() });
+        setError(null);
+        if (!options.silent) toast.success("Lists refreshed");
+      })
+      .catch((err) => {
+        // The API client has already shown a toast for this error
+        setError(err instanceof ApiServiceError ? err.message : "Failed to load constants");
+        console.error("Failed to fetch constants:", err);
+      })
+      .finally(() => {
+        inFlight.current = null;
+        setLoading(false);
+      });
+
+    inFlight.current = request;
+    return request;
+  }, []);
+
+  // Fetch once per session; the cached copy is used until it arrives
+  useEffect(() => {
+    refresh({ silent: true });
+  }, [refresh]);
+
+  const constants = cached?.data ?? EMPTY_CONSTANTS;
+
+  return (
+    <ConstantsContext.Provider
+      value={{
+        bhagatNames: constants.assigned_bhagat,
+        statusOptions: constants.status,
+        coordinatorName: constants.coordinator_name,
+        driverName: constants.driver_name,
+        expenseCategories: constants.expense_categories ?? DEFAULT_EXPENSE_CATEGORIES,
+        ready: cached !== null,
+        loading,
+        error,
+        lastUpdated: cached?.fetchedAt ?? null,
+        refresh,
+      }}
+    >
+      {children}
+    </ConstantsContext.Provider>
+  );
+}
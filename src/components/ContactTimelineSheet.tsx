@@ -0,0 +1,340 @@
+"use client";
+
+import { useState, useCallback, useEffect, FormEvent } from "react";
+import { toast } from "sonner";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Edit, Loader2, MessageSquare, Phone, RefreshCw, StickyNote, type LucideIcon } from "lucide-react";
+import { IconBrandWhatsapp } from "@tabler/icons-react";
+import {
+  callingSevaApi,
+  ApiServiceError,
+  apiUtils,
+  type CallOutcome,
+  type CallingSevaInteraction,
+  type CallingSevaInteractionCreate,
+  type CallingSevaRead,
+  type InteractionType
+} from "@/lib/api";
+import { isLocalId } from "@/lib/offlineQueue";
+import { formatFollowUp, fromDateTimeLocal, toDateTimeLocal } from "@/lib/followUps";
+import { normalizePhoneNumber } from "@/lib/phone";
+import { useAuth } from "@/components/ProtectedRoute";
+
+const PAGE_SIZE = 20;
+
+const INTERACTION_META: Record<InteractionType, { label: string; icon: LucideIcon | typeof IconBrandWhatsapp; className: string }> = {
+  call: { label: "Call", icon: Phone, className: "bg-blue-50 text-blue-700 border-blue-200" },
+  whatsapp: { label: "WhatsApp", icon: IconBrandWhatsapp, className: "bg-green-50 text-green-700 border-green-200" },
+  note: { label: "Note", icon: StickyNote, className: "bg-amber-50 text-amber-700 border-amber-200" },
+  status_change: { label: "Status changed", icon: RefreshCw, className: "bg-purple-50 text-purple-700 border-purple-200" },
+  remark: { label: "Remarks updated", icon: MessageSquare, className: "bg-muted text-muted-foreground border-border" }
+};
+
+const CALL_OUTCOMES: { value: CallOutcome; label: string }[] = [
+  { value: "answered", label: "Answered" },
+  { value: "no_answer", label: "No answer" },
+  { value: "busy", label: "Busy" },
+  { value: "switched_off", label: "Switched off" },
+  { value: "wrong_number", label: "Wrong number" }
+];
+
+const LOGGABLE_TYPES: CallingSevaInteractionCreate["type"][] = ["call", "whatsapp", "note"];
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+
+interface ContactTimelineSheetProps {
+  record: CallingSevaRead | null;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (record: CallingSevaRead) => void;
+  onWhatsApp: (record: CallingSevaRead) => void;
+  // Bumped by the parent when it logs an interaction itself (e.g. WhatsApp)
+  reloadKey: number;
+}
+
+// Contact details and the full history of conversations with a seeker
+export default function ContactTimelineSheet({ record, onOpenChange, onEdit, onWhatsApp, reloadKey }: ContactTimelineSheetProps) {
+  const { can } = useAuth();
+  const [interactions, setInteractions] = useState<CallingSevaInteraction[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // Log form
+  const [logType, setLogType] = useState<CallingSevaInteractionCreate["type"]>("call");
+  const [outcome, setOutcome] = useState<CallOutcome>("answered");
+  const [note, setNote] = useState("");
+  const [occurredAt, setOccurredAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [serverError, setServerError] = useState("");
+
+  const recordId = record?.id;
+  // Records created offline have no history on the server yet
+  const isSynced = !!recordId && !isLocalId(recordId);
+
+  const loadInteractions = useCallback(async (skip = 0) => {
+    if (!recordId || isLocalId(recordId)) return;
+
+    setLoading(true);
+    try {
+      const result = await callingSevaApi.getInteractions(recordId, { skip, limit: PAGE_SIZE });
+      setInteractions(prev => (skip === 0 ? result.items : [...prev, ...result.items]));
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error("Failed to fetch interactions:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load contact history");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [recordId]);
+
+  useEffect(() => {
+    setInteractions([]);
+    setHasMore(false);
+    loadInteractions();
+  }, [loadInteractions, reloadKey]);
+
+  // Fresh log form for each contact
+  useEffect(() => {
+    setLogType("call");
+    setOutcome("answered");
+    setNote("");
+    setOccurredAt(toDateTimeLocal(new Date().toISOString()));
+    setServerError("");
+  }, [recordId]);
+
+  const handleLogSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!recordId) return;
+
+    if (logType !== "call" && !note.trim()) {
+      setServerError("Please add a note");
+      return;
+    }
+
+    setSaving(true);
+    setServerError("");
+    try {
+      await callingSevaApi.logInteraction(recordId, {
+        type: logType,
+        occurred_at: fromDateTimeLocal(occurredAt) ?? new Date().toISOString(),
+        note: note.trim() || undefined,
+        outcome: logType === "call" ? outcome : undefined
+      });
+      toast.success("Interaction logged");
+      setNote("");
+      setOccurredAt(toDateTimeLocal(new Date().toISOString()));
+      loadInteractions();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeInteraction = (interaction: CallingSevaInteraction) => {
+    if (interaction.type === "status_change") {
+      return (
+        <span className="inline-flex items-center gap-1 flex-wrap">
+          {interaction.from_status || "None"}
+          <ArrowRight className="w-3 h-3" />
+          {interaction.to_status}
+        </span>
+      );
+    }
+    if (interaction.type === "call" && interaction.outcome) {
+      return CALL_OUTCOMES.find(o => o.value === interaction.outcome)?.label ?? interaction.outcome;
+    }
+    return null;
+  };
+
+  return (
+    <Sheet open={!!record} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
+        {record && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{record.mobile_no}</SheetTitle>
+              <SheetDescription>{record.address}</SheetDescription>
+            </SheetHeader>
+
+            <div className="px-4 space-y-6 pb-6">
+              {/* Contact summary */}
+              <div className="space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className="bg-gray-200 text-black-800 border border-black-100">{record.status}</Badge>
+                  <span className="text-muted-foreground">Assigned to {record.assigned_bhagat_name}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  Next follow-up: {record.next_follow_up_at ? formatFollowUp(record.next_follow_up_at) : "None"}
+                </p>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`tel:${normalizePhoneNumber(record.mobile_no) ?? record.mobile_no}`}>
+                      <Phone className="w-4 h-4 mr-2" />
+                      Call
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onWhatsApp(record)} className="text-green-600">
+                    <IconBrandWhatsapp className="w-4 h-4 mr-2" />
+                    WhatsApp
+                  </Button>
+                  {can("calling-seva:edit") && (
+                    <Button variant="outline" size="sm" onClick={() => onEdit(record)}>
+                      <Edit className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {/* Log interaction */}
+              {can("calling-seva:edit") && isSynced && (
+                <form onSubmit={handleLogSubmit} className="space-y-3 rounded-md border p-4">
+                  <p className="text-sm font-medium">Log interaction</p>
+
+                  {serverError && (
+                    <div className="bg-destructive/10 border border-destructive/20 text-destructive px-3 py-2 rounded-md text-sm">
+                      {serverError}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="interaction_type">Type</Label>
+                      <Select value={logType} onValueChange={(value) => setLogType(value as CallingSevaInteractionCreate["type"])}>
+                        <SelectTrigger id="interaction_type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LOGGABLE_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{INTERACTION_META[type].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {logType === "call" && (
+                      <div className="space-y-1">
+                        <Label htmlFor="interaction_outcome">Outcome</Label>
+                        <Select value={outcome} onValueChange={(value) => setOutcome(value as CallOutcome)}>
+                          <SelectTrigger id="interaction_outcome">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CALL_OUTCOMES.map(o => (
+                              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="interaction_at">When</Label>
+                    <Input
+                      id="interaction_at"
+                      type="datetime-local"
+                      value={occurredAt}
+                      onChange={(e) => setOccurredAt(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="interaction_note">Note{logType === "call" ? "" : " *"}</Label>
+                    <Textarea
+                      id="interaction_note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="What was discussed?"
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button type="submit" size="sm" disabled={saving}>
+                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Log
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {/* Timeline */}
+              <div className="space-y-3">
+                <p className="text-sm font-medium">History <span className="text-muted-foreground font-normal">(latest first)</span></p>
+
+                {!isSynced ? (
+                  <p className="text-sm text-muted-foreground">
+                    History will be available once this record has synced.
+                  </p>
+                ) : loading && interactions.length === 0 ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : interactions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No interactions recorded yet.</p>
+                ) : (
+                  <ol className="relative border-l border-border ml-3 space-y-5">
+                    {interactions.map(interaction => {
+                      const meta = INTERACTION_META[interaction.type] ?? INTERACTION_META.note;
+                      const Icon = meta.icon;
+                      const detail = describeInteraction(interaction);
+                      return (
+                        <li key={interaction.id} className="ml-6">
+                          <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border ${meta.className}`}>
+                            <Icon className="h-3 w-3" />
+                          </span>
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="font-medium">{meta.label}</span>
+                            {detail && <span className="text-muted-foreground">· {detail}</span>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTimestamp(interaction.occurred_at)}
+                            {interaction.created_by && ` · ${interaction.created_by}`}
+                          </p>
+                          {interaction.note && (
+                            <p className="mt-1 text-sm whitespace-pre-wrap">{interaction.note}</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+
+                {hasMore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => loadInteractions(interactions.length)}
+                    disabled={loading}
+                    className="w-full"
+                  >
+                    {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Show older
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
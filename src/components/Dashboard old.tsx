@@ -73,21 +73,21 @@ export default function Dashboard() {
       ]);
 
       if (bookSevasData.status === 'fulfilled') {
-        setBookSevas(Array.isArray(bookSevasData.value) ? bookSevasData.value : []);
+        setBookSevas(bookSevasData.value.items);
       } else {
         console.error('Failed to fetch book sevas:', bookSevasData.reason);
         setBookSevas([]);
       }
 
       if (callingSevasData.status === 'fulfilled') {
-        setCallingSevas(Array.isArray(callingSevasData.value) ? callingSevasData.value : []);
+        setCallingSevas(callingSevasData.value.items);
       } else {
         console.error('Failed to fetch calling sevas:', callingSevasData.reason);
         setCallingSevas([]);
       }
 
       if (expensesData.status === 'fulfilled') {
-        setExpenses(Array.isArray(expensesData.value) ? expensesData.value : []);
+        setExpenses(expensesData.value.items);
       } else {
         console.error('Failed to fetch expenses:', expensesData.reason);
         setExpenses([]);
@@ -1,26 +1,73 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import {
   Card,
+  CardContent,
   CardHeader,
   CardTitle,
   CardDescription
 } from "@/components/ui/card";
-import { BookOpen, Phone, DollarSign } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { BookOpen, Phone, DollarSign, HandCoins, Package, AlertTriangle, AlarmClock, PiggyBank } from "lucide-react";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useConstants } from "@/components/ConstantsProvider";
+import { apiUtils, callingSevaApi, inventoryApi } from "@/lib/api";
+import { getLowStockRows, type StockRow } from "@/lib/inventory";
+import { findBhagatForUser, getBucketRange } from "@/lib/followUps";
+import type { Module } from "@/lib/permissions";
+import { MODULE_ROUTES } from "@/lib/routes";
+import { getBudgetAlerts, BUDGET_PERIOD_LABELS } from "@/lib/expenses";
+import { useBudgetOverview } from "@/hooks/use-budgets";
+import { BudgetProgress } from "@/components/ExpenseBudgetsPanel";
 
-interface DashboardProps {
-  onNavigate: (view: "book-seva" | "calling-seva" | "expenses") => void;
-}
-
-export default function Dashboard({ onNavigate }: DashboardProps) {
+export default function Dashboard() {
   const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [lowStock, setLowStock] = useState<StockRow[]>([]);
+  const [overdueFollowUps, setOverdueFollowUps] = useState<number | null>(null);
+  const { user, role, can } = useAuth();
+  const { bhagatNames } = useConstants();
+  const canViewInventory = can("inventory:view");
+  const canViewCalling = can("calling-seva:view");
+  const canViewExpenses = can("expenses:view");
+  const { rows: budgetRows } = useBudgetOverview(canViewExpenses);
+  const budgetAlerts = getBudgetAlerts(budgetRows);
+  // Callers see their own overdue calls; admins and coordinators see the team total
+  const isTeamWide = role === "admin" || role === "coordinator";
+  const myBhagat = isTeamWide ? null : findBhagatForUser(user?.name, bhagatNames);
+  const router = useRouter();
+
+  const onNavigate = (view: Module) => router.push(MODULE_ROUTES[view]);
 
   useEffect(() => {
     const stored = localStorage.getItem("currentUserName");
     if (stored) setCurrentUser(stored);
   }, []);
 
+  // Low-stock alerts for titles at or below their threshold
+  useEffect(() => {
+    if (!canViewInventory) return;
+    inventoryApi.getStock()
+      .then(balances => setLowStock(getLowStockRows(balances)))
+      .catch(error => console.error("Failed to fetch stock:", error));
+  }, [canViewInventory]);
+
+  useEffect(() => {
+    if (!canViewCalling) return;
+    // myBhagat resolves once constants load; drop the earlier response
+    let cancelled = false;
+    apiUtils.countAll(page => callingSevaApi.getFollowUps({ ...getBucketRange("overdue"), assigned_bhagat_name: myBhagat ?? undefined, ...page }))
+      .then(count => {
+        if (!cancelled) setOverdueFollowUps(count);
+      })
+      .catch(error => console.error("Failed to fetch follow-ups:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [canViewCalling, myBhagat]);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -33,46 +80,155 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         </div>
       </div>
 
-      {/* Navigation Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-        <Card 
+      {/* Overdue Follow-ups */}
+      {overdueFollowUps !== null && (
+        <Card
           className="hover:shadow-lg cursor-pointer"
-          onClick={() => onNavigate("book-seva")}
+          onClick={() => router.push(`${MODULE_ROUTES["calling-seva"]}?tab=follow-ups`)}
         >
-          <CardHeader className="flex flex-col items-center p-4">
-            <BookOpen className="w-8 h-8 text-primary mb-2" />
-            <CardTitle className="text-lg">Book Seva</CardTitle>
+          <CardHeader className="flex flex-row items-center gap-4 p-4">
+            <div className={`w-12 h-12 rounded-full flex items-center justify-center ${overdueFollowUps > 0 ? "bg-red-100" : "bg-primary/10"}`}>
+              <AlarmClock className={`h-6 w-6 ${overdueFollowUps > 0 ? "text-red-600" : "text-primary"}`} />
+            </div>
+            <div>
+              <CardDescription>{myBhagat ? "Your overdue follow-ups" : "Overdue follow-ups"}</CardDescription>
+              <CardTitle className="text-2xl">{overdueFollowUps}</CardTitle>
+            </div>
           </CardHeader>
-          <CardDescription className="text-center pb-4">
-            Navigate to Book Seva page
-          </CardDescription>
         </Card>
+      )}
 
-        <Card 
-          className="hover:shadow-lg cursor-pointer"
-          onClick={() => onNavigate("calling-seva")}
-        >
-          <CardHeader className="flex flex-col items-center p-4">
-            <Phone className="w-8 h-8 text-primary mb-2" />
-            <CardTitle className="text-lg">Calling Seva</CardTitle>
-          </CardHeader>
-          <CardDescription className="text-center pb-4">
-            Navigate to Calling Seva page
-          </CardDescription>
-        </Card>
+      {/* Low-stock Alert */}
+      {lowStock.length > 0 && (
+        <Alert className="border-amber-200 bg-amber-50 text-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {lowStock.length} {lowStock.length === 1 ? "title is" : "titles are"} running low
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 space-y-0.5">
+              {lowStock.map(row => (
+                <li key={row.book_name} className="capitalize">
+                  {row.book_name}: {row.balance > 0 ? `${row.balance} left` : "out of stock"}
+                </li>
+              ))}
+            </ul>
+            <Button
+              variant="link"
+              className="h-auto p-0 mt-2 text-amber-900 dark:text-amber-200"
+              onClick={() => onNavigate("inventory")}
+            >
+              Open inventory
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
 
-        <Card 
-          className="hover:shadow-lg cursor-pointer"
-          onClick={() => onNavigate("expenses")}
-        >
-          <CardHeader className="flex flex-col items-center p-4">
-            <DollarSign className="w-8 h-8 text-primary mb-2" />
-            <CardTitle className="text-lg">Expenses</CardTitle>
+      {/* Budget Alerts */}
+      {budgetAlerts.length > 0 && (
+        <Card className="hover:shadow-lg cursor-pointer" onClick={() => onNavigate("expenses")}>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <PiggyBank className="h-5 w-5 text-primary" />
+              Budgets needing attention
+            </CardTitle>
+            <CardDescription>
+              {budgetAlerts.filter(row => row.status === "over").length} over budget,{" "}
+              {budgetAlerts.filter(row => row.status === "near").length} near budget
+            </CardDescription>
           </CardHeader>
-          <CardDescription className="text-center pb-4">
-            Navigate to Expenses page
-          </CardDescription>
+          <CardContent className="space-y-4">
+            {budgetAlerts.map(row => (
+              <div key={row.category} className="space-y-1">
+                <p className="text-sm font-medium">
+                  {row.label}
+                  <span className="font-normal text-muted-foreground">
+                    {" "}· {row.budget && BUDGET_PERIOD_LABELS[row.budget.period]} budget, {row.range.label}
+                  </span>
+                </p>
+                <BudgetProgress row={row} />
+              </div>
+            ))}
+          </CardContent>
         </Card>
+      )}
+
+      {/* Navigation Cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {can("book-seva:view") && (
+          <Card
+            className="hover:shadow-lg cursor-pointer"
+            onClick={() => onNavigate("book-seva")}
+          >
+            <CardHeader className="flex flex-col items-center p-4">
+              <BookOpen className="w-8 h-8 text-primary mb-2" />
+              <CardTitle className="text-lg">Book Seva</CardTitle>
+            </CardHeader>
+            <CardDescription className="text-center pb-4">
+              Navigate to Book Seva page
+            </CardDescription>
+          </Card>
+        )}
+
+        {can("calling-seva:view") && (
+          <Card
+            className="hover:shadow-lg cursor-pointer"
+            onClick={() => onNavigate("calling-seva")}
+          >
+            <CardHeader className="flex flex-col items-center p-4">
+              <Phone className="w-8 h-8 text-primary mb-2" />
+              <CardTitle className="text-lg">Calling Seva</CardTitle>
+            </CardHeader>
+            <CardDescription className="text-center pb-4">
+              Navigate to Calling Seva page
+            </CardDescription>
+          </Card>
+        )}
+
+        {can("expenses:view") && (
+          <Card
+            className="hover:shadow-lg cursor-pointer"
+            onClick={() => onNavigate("expenses")}
+          >
+            <CardHeader className="flex flex-col items-center p-4">
+              <DollarSign className="w-8 h-8 text-primary mb-2" />
+              <CardTitle className="text-lg">Expenses</CardTitle>
+            </CardHeader>
+            <CardDescription className="text-center pb-4">
+              Navigate to Expenses page
+            </CardDescription>
+          </Card>
+        )}
+
+        {can("income:view") && (
+          <Card
+            className="hover:shadow-lg cursor-pointer"
+            onClick={() => onNavigate("income")}
+          >
+            <CardHeader className="flex flex-col items-center p-4">
+              <HandCoins className="w-8 h-8 text-primary mb-2" />
+              <CardTitle className="text-lg">Income</CardTitle>
+            </CardHeader>
+            <CardDescription className="text-center pb-4">
+              Navigate to Income page
+            </CardDescription>
+          </Card>
+        )}
+
+        {canViewInventory && (
+          <Card
+            className="hover:shadow-lg cursor-pointer"
+            onClick={() => onNavigate("inventory")}
+          >
+            <CardHeader className="flex flex-col items-center p-4">
+              <Package className="w-8 h-8 text-primary mb-2" />
+              <CardTitle className="text-lg">Inventory</CardTitle>
+            </CardHeader>
+            <CardDescription className="text-center pb-4">
+              Navigate to Inventory page
+            </CardDescription>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,236 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { toast } from "sonner";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowRight, Edit, Loader2 } from "lucide-react";
+import {
+  expensesApi,
+  ApiServiceError,
+  apiUtils,
+  type ExpenseRead,
+  type ExpenseStatusChange
+} from "@/lib/api";
+import { isLocalId } from "@/lib/offlineQueue";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useAuth } from "@/components/ProtectedRoute";
+import { formatExportCurrency } from "@/lib/exportColumns";
+import {
+  EXPENSE_STATUS_BADGE_CLASSES,
+  EXPENSE_STATUS_LABELS,
+  categoryLabel,
+  expenseStatus,
+  getStatusActions,
+  isExpenseLocked,
+  type ExpenseStatusAction
+} from "@/lib/expenses";
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+
+interface ExpenseApprovalSheetProps {
+  expense: ExpenseRead | null;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (expense: ExpenseRead) => void;
+  // Called with the server's copy after the status changes
+  onStatusChange: (expense: ExpenseRead) => void;
+  isOnline: boolean;
+}
+
+// An expense's approval status, the actions open to the current user, and
+// who moved it through the workflow and when
+export default function ExpenseApprovalSheet({ expense, onOpenChange, onEdit, onStatusChange, isOnline }: ExpenseApprovalSheetProps) {
+  const { can } = useAuth();
+  const { expenseCategories } = useConstants();
+  const [history, setHistory] = useState<ExpenseStatusChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [comment, setComment] = useState("");
+  const [savingStatus, setSavingStatus] = useState<string | null>(null);
+  const [serverError, setServerError] = useState("");
+
+  const expenseId = expense?.id;
+  // Expenses created offline have no history on the server yet
+  const isSynced = !!expenseId && !isLocalId(expenseId);
+
+  const loadHistory = useCallback(async () => {
+    if (!expenseId || isLocalId(expenseId)) return;
+
+    setLoading(true);
+    try {
+      setHistory(await expensesApi.getStatusHistory(expenseId));
+    } catch (error) {
+      console.error("Failed to fetch approval history:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load approval history");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [expenseId]);
+
+  useEffect(() => {
+    setHistory([]);
+    setComment("");
+    setServerError("");
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleAction = async (action: ExpenseStatusAction) => {
+    if (!expenseId) return;
+
+    if (action.requiresComment && !comment.trim()) {
+      setServerError(`Please add a comment to ${action.label.toLowerCase()}`);
+      return;
+    }
+
+    setSavingStatus(action.to);
+    setServerError("");
+    try {
+      const updated = await expensesApi.updateStatus(expenseId, {
+        status: action.to,
+        comment: comment.trim() || undefined
+      });
+      toast.success(`Expense ${EXPENSE_STATUS_LABELS[action.to].toLowerCase()}`);
+      setComment("");
+      onStatusChange(updated);
+      loadHistory();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSavingStatus(null);
+    }
+  };
+
+  const status = expense ? expenseStatus(expense) : "draft";
+  const actions = getStatusActions(status, { canEdit: can("expenses:edit"), canApprove: can("expenses:approve") });
+  const canEdit = can("expenses:edit") && (!expense || !isExpenseLocked(expense) || can("expenses:approve"));
+
+  return (
+    <Sheet open={!!expense} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
+        {expense && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{expense.item_name}</SheetTitle>
+              <SheetDescription>
+                {formatExportCurrency(expense.total_amount)} · {categoryLabel(expenseCategories, expense.category)} ·{" "}
+                {new Date(expense.date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="px-4 space-y-6 pb-6">
+              {/* Status summary */}
+              <div className="space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md ${EXPENSE_STATUS_BADGE_CLASSES[status]}`}>
+                    {EXPENSE_STATUS_LABELS[status]}
+                  </span>
+                  {expense.created_by && <span className="text-muted-foreground">Submitted by {expense.created_by}</span>}
+                </div>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => onEdit(expense)}>
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+
+              {/* Status actions */}
+              {actions.length > 0 && isSynced && (
+                <div className="space-y-3 rounded-md border p-4">
+                  <p className="text-sm font-medium">Update status</p>
+
+                  {serverError && (
+                    <div className="bg-destructive/10 border border-destructive/20 text-destructive px-3 py-2 rounded-md text-sm">
+                      {serverError}
+                    </div>
+                  )}
+
+                  <div className="space-y-1">
+                    <Label htmlFor="approval_comment">Comment</Label>
+                    <Textarea
+                      id="approval_comment"
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="Required when rejecting"
+                    />
+                  </div>
+
+                  {!isOnline && (
+                    <p className="text-xs text-muted-foreground">Status changes need a connection.</p>
+                  )}
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {actions.map(action => (
+                      <Button
+                        key={action.to}
+                        size="sm"
+                        variant={action.to === "rejected" ? "destructive" : action.to === "draft" ? "outline" : "default"}
+                        onClick={() => handleAction(action)}
+                        disabled={!isOnline || savingStatus !== null}
+                      >
+                        {savingStatus === action.to && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {action.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* History */}
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Approval history <span className="text-muted-foreground font-normal">(latest first)</span></p>
+
+                {!isSynced ? (
+                  <p className="text-sm text-muted-foreground">
+                    History will be available once this expense has synced.
+                  </p>
+                ) : loading && history.length === 0 ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+                ) : (
+                  <ol className="relative border-l border-border ml-3 space-y-5">
+                    {history.map(change => (
+                      <li key={change.id} className="ml-6">
+                        <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${EXPENSE_STATUS_BADGE_CLASSES[change.to_status]}`} />
+                        <div className="flex flex-wrap items-center gap-1 text-sm">
+                          <span className="text-muted-foreground">
+                            {change.from_status ? EXPENSE_STATUS_LABELS[change.from_status] : "Created"}
+                          </span>
+                          <ArrowRight className="w-3 h-3" />
+                          <span className="font-medium">{EXPENSE_STATUS_LABELS[change.to_status]}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatTimestamp(change.changed_at)} · {change.changed_by}
+                        </p>
+                        {change.comment && (
+                          <p className="mt-1 text-sm whitespace-pre-wrap">{change.comment}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
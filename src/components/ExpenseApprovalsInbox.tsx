@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { expensesApi, ApiServiceError, type ExpenseRead } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { formatExportCurrency } from "@/lib/exportColumns";
+import { categoryBadgeClass, categoryLabel } from "@/lib/expenses";
+
+const PAGE_SIZE = 20;
+
+interface ExpenseApprovalsInboxProps {
+  onReview: (expense: ExpenseRead) => void;
+  // Bumped by the parent after a status change, to refresh the inbox
+  reloadKey: number;
+}
+
+// Every expense awaiting approval, whatever its date
+export default function ExpenseApprovalsInbox({ onReview, reloadKey }: ExpenseApprovalsInboxProps) {
+  const { expenseCategories } = useConstants();
+
+  // Page lives in the query string (?apage=)
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const currentPage = parsePageParam(searchParams.get("apage"), 1);
+
+  const [records, setRecords] = useState<ExpenseRead[]>([]);
+  const [total, setTotal] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadInbox = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await expensesApi.getAll({
+        status: "submitted",
+        skip: (currentPage - 1) * PAGE_SIZE,
+        limit: PAGE_SIZE
+      });
+
+      const lastPage = getTotalPages(result.total, PAGE_SIZE, result.skip + result.items.length, result.hasMore);
+      if (result.items.length === 0 && currentPage > lastPage) {
+        updateQuery({ apage: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
+      }
+
+      setRecords(result.items);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error("Failed to fetch approvals:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load approvals");
+      }
+      setRecords([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, updateQuery]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox, reloadKey]);
+
+  // Offline queue: reload once queued changes reach the server
+  useOfflineQueue(() => loadInbox());
+
+  const pendingAmount = useMemo(() => records.reduce((sum, item) => sum + item.total_amount, 0), [records]);
+
+  if (loading && records.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <ClipboardCheck className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <CardTitle className="mb-2">Nothing to approve</CardTitle>
+          <CardDescription>Submitted expenses will appear here.</CardDescription>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Awaiting approval
+        </CardTitle>
+        <CardDescription>
+          {total !== null && `${total} ${total === 1 ? "expense" : "expenses"} · `}
+          {formatExportCurrency(pendingAmount)} on this page
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-b border-border bg-muted/30">
+                <TableHead className="font-medium text-muted-foreground">Date</TableHead>
+                <TableHead className="font-medium text-muted-foreground">Item Name</TableHead>
+                <TableHead className="font-medium text-muted-foreground">Category</TableHead>
+                <TableHead className="font-medium text-muted-foreground">Submitted By</TableHead>
+                <TableHead className="font-medium text-muted-foreground text-right">Amount</TableHead>
+                <TableHead className="font-medium text-muted-foreground w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map(item => (
+                <TableRow key={item.id} className="border-b border-border hover:bg-muted/20">
+                  <TableCell>
+                    {new Date(item.date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}
+                  </TableCell>
+                  <TableCell className="font-medium">{item.item_name}</TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md ${categoryBadgeClass(expenseCategories, item.category)}`}>
+                      {categoryLabel(expenseCategories, item.category)}
+                    </span>
+                  </TableCell>
+                  <TableCell>{item.created_by || "-"}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatExportCurrency(item.total_amount)}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => onReview(item)}>
+                      Review
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <TablePagination
+          currentPage={currentPage}
+          recordsPerPage={PAGE_SIZE}
+          total={total}
+          hasMore={hasMore}
+          pageCount={records.length}
+          onPageChange={(page) => updateQuery({ apage: page > 1 ? page : null })}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Edit, Loader2, PiggyBank } from "lucide-react";
+import { toast } from "sonner";
+import { expensesApi, type BudgetPeriod } from "@/lib/api";
+import {
+  BUDGET_PERIODS,
+  BUDGET_PERIOD_LABELS,
+  BUDGET_STATUS_LABELS,
+  type BudgetRow,
+  type BudgetStatus
+} from "@/lib/expenses";
+import { formatExportCurrency } from "@/lib/exportColumns";
+
+const STATUS_BADGE_CLASSES: Record<BudgetStatus, string> = {
+  ok: "bg-green-50 text-green-700 border border-green-200",
+  near: "bg-amber-50 text-amber-700 border border-amber-200",
+  over: "bg-red-50 text-red-700 border border-red-200"
+};
+
+const STATUS_INDICATOR_CLASSES: Record<BudgetStatus, string> = {
+  ok: "",
+  near: "[&>[data-slot=progress-indicator]]:bg-amber-500",
+  over: "[&>[data-slot=progress-indicator]]:bg-red-600"
+};
+
+// Budget-vs-actual bar with the amounts underneath; also used on the dashboard
+export function BudgetProgress({ row }: { row: BudgetRow }) {
+  if (!row.budget) return null;
+  const remaining = row.budget.amount - row.spent;
+
+  return (
+    <div className="space-y-1">
+      <Progress value={Math.min(100, row.percent)} className={STATUS_INDICATOR_CLASSES[row.status]} />
+      <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+        <span>
+          {formatExportCurrency(row.spent)} of {formatExportCurrency(row.budget.amount)} ({Math.round(row.percent)}%)
+        </span>
+        <span className={remaining < 0 ? "text-red-600 font-medium" : ""}>
+          {remaining < 0 ? `${formatExportCurrency(-remaining)} over` : `${formatExportCurrency(remaining)} left`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface ExpenseBudgetsPanelProps {
+  rows: BudgetRow[];
+  loading: boolean;
+  canManage: boolean;
+  // Called after a budget is saved or removed
+  onChange: () => void;
+}
+
+// Budget vs actual for each category in its current month or financial year
+export default function ExpenseBudgetsPanel({ rows, loading, canManage, onChange }: ExpenseBudgetsPanelProps) {
+  const [editingRow, setEditingRow] = useState<BudgetRow | null>(null);
+  const [period, setPeriod] = useState<BudgetPeriod>("monthly");
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const openBudget = (row: BudgetRow) => {
+    setEditingRow(row);
+    setPeriod(row.budget?.period ?? "monthly");
+    setAmount(row.budget ? String(row.budget.amount) : "");
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editingRow) return;
+
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error("Budget must be greater than 0");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await expensesApi.updateBudget(editingRow.category, { period, amount: value });
+      setEditingRow(null);
+      onChange();
+    } catch (error) {
+      console.error("Failed to update budget:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!editingRow) return;
+
+    setSaving(true);
+    try {
+      await expensesApi.deleteBudget(editingRow.category);
+      setEditingRow(null);
+      onChange();
+    } catch (error) {
+      console.error("Failed to remove budget:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5" />
+          Budgets
+        </CardTitle>
+        <CardDescription>Spend against each category's budget for the current period</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && rows.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {rows.map(row => (
+              <div key={row.category} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{row.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.budget ? `${BUDGET_PERIOD_LABELS[row.budget.period]} · ${row.range.label}` : "No budget set"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {row.budget && (
+                      <Badge className={STATUS_BADGE_CLASSES[row.status]}>
+                        {BUDGET_STATUS_LABELS[row.status]}
+                      </Badge>
+                    )}
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openBudget(row)}
+                        aria-label={`Edit budget for ${row.label}`}
+                        className="h-8 w-8 p-0 hover:bg-muted"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {row.budget ? (
+                  <BudgetProgress row={row} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {formatExportCurrency(row.spent)} spent in {row.range.label}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingRow} onOpenChange={(open) => !open && setEditingRow(null)}>
+        <DialogContent className="max-w-sm bg-card">
+          <DialogHeader>
+            <DialogTitle>Category Budget</DialogTitle>
+            <DialogDescription>{editingRow?.label}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget_period">Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <SelectTrigger id="budget_period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUDGET_PERIODS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {option === "annual" ? "Annual (April to March)" : BUDGET_PERIOD_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget_amount">Budget amount</Label>
+              <Input
+                id="budget_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              {editingRow?.budget ? (
+                <Button type="button" variant="ghost" onClick={handleRemove} disabled={saving} className="text-destructive hover:text-destructive">
+                  Remove budget
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingRow(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArchiveRestore, Archive, ArrowLeft, Edit, Loader2, Plus, X } from "lucide-react";
+import { expensesApi, ApiServiceError, apiUtils, type ExpenseCategory, type ExpenseSubCategory } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { CATEGORY_COLORS, CATEGORY_COLOR_CLASSES, toCategoryValue } from "@/lib/expenses";
+
+interface ExpenseCategoryManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyCategory = (): ExpenseCategory => ({ value: "", label: "", color: CATEGORY_COLORS[0], active: true, sub_categories: [] });
+
+const validateCategory = (data: ExpenseCategory, others: ExpenseCategory[], isNew: boolean) => {
+  const errors: Record<string, string> = {};
+  if (!data.label.trim()) errors.label = "Name is required";
+  else if (isNew && !toCategoryValue(data.label)) errors.label = "Name needs at least one letter or digit";
+  else if (isNew && others.some(category => category.value === toCategoryValue(data.label))) {
+    errors.label = "A category with this name already exists";
+  }
+
+  const subValues = data.sub_categories.map(sub => sub.value || toCategoryValue(sub.label));
+  if (data.sub_categories.some(sub => !sub.label.trim())) {
+    errors.sub_categories = "Sub-categories need a name";
+  } else if (new Set(subValues).size !== subValues.length) {
+    errors.sub_categories = "Sub-category names must be different";
+  }
+  return errors;
+};
+
+// Lists, creates and edits expense categories. Categories are retired rather
+// than deleted, since existing expenses refer to them.
+export default function ExpenseCategoryManager({ open, onOpenChange }: ExpenseCategoryManagerProps) {
+  const { expenseCategories, refresh } = useConstants();
+  // null shows the list; otherwise the form for a new ("") or existing category
+  const [editingValue, setEditingValue] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ExpenseCategory>(emptyCategory());
+  // Values of sub-categories already saved, which can be retired but not removed
+  const [savedSubValues, setSavedSubValues] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [serverError, setServerError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [togglingValue, setTogglingValue] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setEditingValue(null);
+  }, [open]);
+
+  const openForm = (category?: ExpenseCategory) => {
+    setEditingValue(category?.value ?? "");
+    setFormData(category ? { ...category, sub_categories: category.sub_categories.map(sub => ({ ...sub })) } : emptyCategory());
+    setSavedSubValues(category?.sub_categories.map(sub => sub.value) ?? []);
+    setErrors({});
+    setServerError("");
+  };
+
+  const handleChange = <K extends keyof ExpenseCategory>(field: K, value: ExpenseCategory[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const updateSub = (index: number, changes: Partial<ExpenseSubCategory>) => {
+    handleChange("sub_categories", formData.sub_categories.map((sub, i) => (i === index ? { ...sub, ...changes } : sub)));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const isNew = !editingValue;
+    const validationErrors = validateCategory(formData, expenseCategories, isNew);
+    if (Object.values(validationErrors).some(Boolean)) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setSaving(true);
+    setServerError("");
+    try {
+      const data: ExpenseCategory = {
+        ...formData,
+        label: formData.label.trim(),
+        // New sub-categories get their value from the name; saved ones keep theirs
+        sub_categories: formData.sub_categories.map(sub => ({
+          ...sub,
+          label: sub.label.trim(),
+          value: sub.value || toCategoryValue(sub.label),
+        })),
+      };
+      if (isNew) {
+        await expensesApi.createCategory({ ...data, value: toCategoryValue(data.label) });
+      } else {
+        const { value, ...changes } = data;
+        await expensesApi.updateCategory(value, changes);
+      }
+      await refresh({ silent: true });
+      setEditingValue(null);
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (category: ExpenseCategory) => {
+    setTogglingValue(category.value);
+    try {
+      await expensesApi.updateCategory(category.value, { active: !category.active });
+      await refresh({ silent: true });
+    } catch (error) {
+      console.error("Error updating category:", error);
+    } finally {
+      setTogglingValue(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editingValue === null ? "Expense Categories" : editingValue ? "Edit Category" : "New Category"}
+          </DialogTitle>
+          <DialogDescription>
+            {editingValue === null
+              ? "Retired categories are hidden from new expenses but still shown on older ones."
+              : "Sub-categories are optional and narrow down a category."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingValue === null ? (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => openForm()}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Category
+              </Button>
+            </div>
+
+            {expenseCategories.map(category => (
+              <div key={category.value} className={`border rounded-md p-3 space-y-2 ${category.active ? "" : "opacity-60"}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md ${CATEGORY_COLOR_CLASSES[category.color] ?? CATEGORY_COLOR_CLASSES.gray}`}>
+                      {category.label}
+                    </span>
+                    {!category.active && <Badge variant="secondary">Retired</Badge>}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => openForm(category)} aria-label={`Edit ${category.label}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={togglingValue === category.value}
+                      onClick={() => toggleActive(category)}
+                      aria-label={category.active ? `Retire ${category.label}` : `Restore ${category.label}`}
+                      title={category.active ? "Retire" : "Restore"}
+                    >
+                      {togglingValue === category.value
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : category.active ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                </div>
+                {category.sub_categories.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {category.sub_categories.map(sub => (sub.active ? sub.label : `${sub.label} (retired)`)).join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {serverError && (
+              <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+                {serverError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category_label">Name *</Label>
+                <Input
+                  id="category_label"
+                  value={formData.label}
+                  onChange={(e) => handleChange("label", e.target.value)}
+                  placeholder="e.g. Transport"
+                  className={errors.label ? "border-destructive" : ""}
+                />
+                {errors.label && <p className="text-sm text-destructive">{errors.label}</p>}
+                {editingValue && (
+                  <p className="text-xs text-muted-foreground">Stored on expenses as "{editingValue}"</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Colour</Label>
+                <div className="flex flex-wrap gap-2">
+                  {CATEGORY_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => handleChange("color", color)}
+                      aria-label={color}
+                      aria-pressed={formData.color === color}
+                      className={`px-2 py-1 text-xs font-medium rounded-md capitalize ${CATEGORY_COLOR_CLASSES[color]} ${formData.color === color ? "ring-2 ring-primary ring-offset-1" : ""}`}
+                    >
+                      {color}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 md:col-span-2">
+                <Switch
+                  id="category_active"
+                  checked={formData.active}
+                  onCheckedChange={(checked) => handleChange("active", checked)}
+                />
+                <Label htmlFor="category_active">Available for new expenses</Label>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label>Sub-categories</Label>
+                {formData.sub_categories.map((sub, index) => (
+                  <div key={sub.value || `new-${index}`} className="flex items-center gap-2">
+                    <Input
+                      value={sub.label}
+                      onChange={(e) => updateSub(index, { label: e.target.value })}
+                      placeholder="Sub-category name"
+                      aria-label="Sub-category name"
+                    />
+                    {savedSubValues.includes(sub.value) ? (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Switch
+                          checked={sub.active}
+                          onCheckedChange={(checked) => updateSub(index, { active: checked })}
+                          aria-label={`${sub.label} available`}
+                        />
+                        <span className="text-xs text-muted-foreground w-14">{sub.active ? "Active" : "Retired"}</span>
+                      </div>
+                    ) : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleChange("sub_categories", formData.sub_categories.filter((_, i) => i !== index))}
+                        aria-label="Remove sub-category"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {errors.sub_categories && <p className="text-sm text-destructive">{errors.sub_categories}</p>}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleChange("sub_categories", [...formData.sub_categories, { value: "", label: "", active: true }])}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add sub-category
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setEditingValue(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  editingValue ? "Update Category" : "Create Category"
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
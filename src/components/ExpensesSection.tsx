@@ -9,7 +9,10 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Plus, DollarSign, Edit, Trash2, TrendingUp, Search, Calendar, ChevronLeft, ChevronRight, Filter, Loader2, Download } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Plus, DollarSign, Edit, Trash2, TrendingUp, Search, Calendar, Filter, Loader2, Download, FileText, AlertTriangle, Tags, ClipboardCheck, Lock } from "lucide-react";
 import { toast } from "sonner";
 import {
   expensesApi,
@@ -17,26 +20,93 @@ import {
   type ExpenseRead,
   type ExpenseCreate,
   type ExpenseUpdate,
+  type ExpenseStatus,
   type User,
   ApiServiceError,
   apiUtils
 } from "@/lib/api";
-import { exportToCSV } from "@/utils/exportToCSV";
-import { formatRecords } from "@/utils/formatRecords";
-
-const EXPENSE_CATEGORIES: { value: string; label: string }[] = [
-  { value: "seva", label: "Seva" },
-  { value: "naamdaan", label: "Naamdaan" }
-];
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { getPendingCreates, getSyncStates, isLocalId } from "@/lib/offlineQueue";
+import ExportDialog from "@/components/ExportDialog";
+import ExpenseBudgetsPanel from "@/components/ExpenseBudgetsPanel";
+import { useBudgetOverview, useBudgetCheck } from "@/hooks/use-budgets";
+import { useConstants } from "@/components/ConstantsProvider";
+import ExpenseCategoryManager from "@/components/ExpenseCategoryManager";
+import ExpenseApprovalSheet from "@/components/ExpenseApprovalSheet";
+import ExpenseApprovalsInbox from "@/components/ExpenseApprovalsInbox";
+import {
+  EXPENSE_STATUSES,
+  EXPENSE_STATUS_BADGE_CLASSES,
+  EXPENSE_STATUS_LABELS,
+  categoryBadgeClass,
+  categoryLabel,
+  categoryOptions,
+  expenseStatus,
+  isApprovedExpense,
+  isExpenseLocked,
+  subCategoryLabel,
+  subCategoryOptions
+} from "@/lib/expenses";
+import ReceiptAttachments, { attachmentPreviewItem, revokePendingReceipts, type PendingReceipt } from "@/components/ReceiptAttachments";
+import ReceiptPreviewDialog, { type ReceiptPreviewItem } from "@/components/ReceiptPreviewDialog";
+import { getExpenseColumns } from "@/lib/exportColumns";
+import { formatPeriod } from "@/lib/reports";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+
+// Radix Select items can't have an empty value
+const NO_SUB_CATEGORY = "__none__";
+
+const TABS = ["expenses", "approvals"] as const;
+type Tab = typeof TABS[number];
+
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_PAGE_SIZE = 20;
+
+// Search, category and status are applied in the browser to the loaded page
+const matchesFilters = (item: ExpenseRead, query: string, category: string, status: string) => {
+  const matchesSearch = query === "" ||
+    item.item_name.toLowerCase().includes(query.toLowerCase()) ||
+    item.category.toLowerCase().includes(query.toLowerCase()) ||
+    !!item.sub_category?.toLowerCase().includes(query.toLowerCase());
+
+  const matchesCategory = category === "all" || item.category === category;
+  const matchesStatus = status === "all" || expenseStatus(item) === status;
+
+  return matchesSearch && matchesCategory && matchesStatus;
+};
 
 export default function ExpensesSection() {
+  const { can } = useAuth();
+  const { expenseCategories } = useConstants();
+  const expenseColumns = useMemo(() => getExpenseColumns(expenseCategories), [expenseCategories]);
+
+  // Applied date range, page, search, category, status, totals and tab live in the query
+  // string (?from=&to=&page=&size=&q=&category=&status=&unapproved=&tab=) so a view
+  // survives refresh and can be shared
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const appliedFrom = searchParams.get("from") || "";
+  const appliedTo = searchParams.get("to") || "";
+  const appliedSearch = searchParams.get("q") || "";
+  const appliedCategory = searchParams.get("category") || "all";
+  const appliedStatus = searchParams.get("status") || "all";
+  // Totals count approved and reimbursed expenses unless asked otherwise
+  const includeUnapproved = searchParams.get("unapproved") === "1";
+  const tabParam = searchParams.get("tab");
+  const tab: Tab = TABS.includes(tabParam as Tab) && can("expenses:approve") ? (tabParam as Tab) : "expenses";
+  const currentPage = parsePageParam(searchParams.get("page"), 1);
+  const recordsPerPage = parsePageParam(searchParams.get("size"), DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS);
+
   const [expenses, setExpenses] = useState<ExpenseRead[]>([]);
   const [filteredExpenses, setFilteredExpenses] = useState<ExpenseRead[]>([]);
   const [loading, setLoading] = useState(false);
   const [dataLoaded, setDataLoaded] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<"all" | string>("all");
+  const [searchQuery, setSearchQuery] = useState(appliedSearch);
+  const [categoryFilter, setCategoryFilter] = useState<"all" | string>(appliedCategory);
+  const [statusFilter, setStatusFilter] = useState<"all" | string>(appliedStatus);
 
   // Filter states
   const today = new Date().toISOString().split("T")[0];
@@ -45,17 +115,18 @@ export default function ExpensesSection() {
   const oneMonthAgoStr = oneMonthAgo.toISOString().split("T")[0];
 
   const [filters, setFilters] = useState({
-    from_date: oneMonthAgoStr,
-    to_date: today
+    from_date: appliedFrom || oneMonthAgoStr,
+    to_date: appliedTo || today
   });
 
   // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
-  const [recordsPerPage, setRecordsPerPage] = useState(20);
+  const [totalRecords, setTotalRecords] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
 
   // Modal states
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
   const [editingItem, setEditingItem] = useState<ExpenseRead | null>(null);
   const [modalLoading, setModalLoading] = useState(false);
 
@@ -66,56 +137,72 @@ export default function ExpensesSection() {
     item_price: 0,
     quantity: 1,
     total_amount: 0,
-    category: "naamdaan",
+    category: "",
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [serverError, setServerError] = useState("");
 
+  // Receipt states: picked files are uploaded, and removals applied, after the expense saves
+  const [pendingReceipts, setPendingReceipts] = useState<PendingReceipt[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([]);
+  const [previewItems, setPreviewItems] = useState<ReceiptPreviewItem[]>([]);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+
+  // Budgets, and how the expense in the form affects its category's budget
+  const { budgets, rows: budgetRows, loading: budgetsLoading, reload: reloadBudgets } = useBudgetOverview();
+  const budgetCheck = useBudgetCheck(isModalOpen ? budgets : [], formData, editingItem);
+
   // Delete states
   const [deletingItem, setDeletingItem] = useState<ExpenseRead | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
-  const validateFilters = useCallback(() => {
-    if (!filters.from_date || !filters.to_date) {
+  // Approval states
+  const [reviewingItem, setReviewingItem] = useState<ExpenseRead | null>(null);
+  const [inboxReloadKey, setInboxReloadKey] = useState(0);
+
+  const validateFilters = useCallback((range: { from_date: string; to_date: string }) => {
+    if (!range.from_date || !range.to_date) {
       toast.error("Please select both From Date and To Date to load data");
       return false;
     }
 
-    if (new Date(filters.from_date) > new Date(filters.to_date)) {
+    if (new Date(range.from_date) > new Date(range.to_date)) {
       toast.error("From Date cannot be later than To Date");
       return false;
     }
 
     return true;
-  }, [filters]);
+  }, []);
 
-  const loadData = useCallback(async (page: number = 1) => {
-    if (!validateFilters()) return;
+  // Loads a page of the date range applied in the URL
+  const loadData = useCallback(async (page: number = currentPage) => {
+    if (!validateFilters({ from_date: appliedFrom, to_date: appliedTo })) return;
 
     try {
       setLoading(true);
       const skip = (page - 1) * recordsPerPage;
 
-      const data = await expensesApi.getAll({
+      const result = await expensesApi.getAll({
         skip,
         limit: recordsPerPage,
-        from_date: filters.from_date,
-        to_date: filters.to_date
+        from_date: appliedFrom,
+        to_date: appliedTo
       });
 
-      setExpenses(Array.isArray(data) ? data : []);
-      setFilteredExpenses(Array.isArray(data) ? data : []);
-      setDataLoaded(true);
-      setCurrentPage(page);
-
-      // Calculate total pages (approximate since we don't get total count from API)
-      if (data.length < recordsPerPage) {
-        setTotalPages(currentPage);
-      } else {
-        setTotalPages(currentPage + 1); // We don't know exact total, so we show next page option
+      // Step back if the requested page no longer exists (e.g. after a delete)
+      const lastPage = getTotalPages(result.total, recordsPerPage, result.skip + result.items.length, result.hasMore);
+      if (result.items.length === 0 && page > lastPage) {
+        updateQuery({ page: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
       }
 
-      toast.success(`Loaded ${data.length} expense records`);
+      setExpenses(result.items);
+      setFilteredExpenses(result.items);
+      setTotalRecords(result.total);
+      setHasMore(result.hasMore);
+      setDataLoaded(true);
+
+      toast.success(`Loaded ${result.items.length} ${result.total === null ? "" : ` of ${result.total}`} expense records`);
 
     } catch (error) {
       console.error("Failed to fetch expenses:", error);
@@ -131,47 +218,105 @@ export default function ExpensesSection() {
     } finally {
       setLoading(false);
     }
-  }, [filters, recordsPerPage, validateFilters, currentPage]);
+  }, [appliedFrom, appliedTo, currentPage, recordsPerPage, validateFilters, updateQuery]);
 
   useEffect(() => {
     if (dataLoaded) {
-      const filtered = expenses.filter((item) => {
-        const matchesSearch = searchQuery === "" ||
-          item.item_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          item.category.toLowerCase().includes(searchQuery.toLowerCase());
-
-        const matchesFilter = categoryFilter === "all" || item.category === categoryFilter;
-
-        return matchesSearch && matchesFilter;
-      });
-      setFilteredExpenses(filtered);
+      setFilteredExpenses(expenses.filter(item => matchesFilters(item, searchQuery, categoryFilter, statusFilter)));
     }
-  }, [expenses, searchQuery, categoryFilter, dataLoaded]);
+  }, [expenses, searchQuery, categoryFilter, statusFilter, dataLoaded]);
+
+  // Offline queue: reload once queued changes reach the server
+  const { mutations, isOnline } = useOfflineQueue(() => {
+    if (dataLoaded) loadData(currentPage);
+  });
+  const syncStates = useMemo(() => getSyncStates(mutations, "expenses"), [mutations]);
+  const displayedExpenses = useMemo(
+    () => [...getPendingCreates<ExpenseRead>(mutations, "expenses"), ...filteredExpenses],
+    [mutations, filteredExpenses]
+  );
 
   const totalExpenses = useMemo(() => {
-    return filteredExpenses.reduce((sum, expense) => sum + expense.total_amount, 0);
-  }, [filteredExpenses]);
+    return filteredExpenses
+      .filter(expense => includeUnapproved || isApprovedExpense(expense))
+      .reduce((sum, expense) => sum + expense.total_amount, 0);
+  }, [filteredExpenses, includeUnapproved]);
+
+  const awaitingApproval = useMemo(
+    () => filteredExpenses.filter(expense => expenseStatus(expense) === "submitted"),
+    [filteredExpenses]
+  );
 
-  const handlePageChange = useCallback((page: number) => {
-    setCurrentPage(page);
-  }, []);
+  // Apply the date range by writing it to the URL; the effect below loads
+  const handleLoadData = useCallback(() => {
+    if (!validateFilters(filters)) return;
+    const changed = updateQuery({ from: filters.from_date, to: filters.to_date, page: null });
+    // Same range as already applied: just refresh
+    if (!changed) loadData(1);
+  }, [filters, validateFilters, updateQuery, loadData]);
+
+  const handleSearchChange = useCallback((value: string) => {
+    setSearchQuery(value);
+    updateQuery({ q: value.trim() ? value : null }, { replace: true });
+  }, [updateQuery]);
+
+  const handleCategoryChange = useCallback((value: string) => {
+    setCategoryFilter(value);
+    updateQuery({ category: value === "all" ? null : value }, { replace: true });
+  }, [updateQuery]);
+
+  const handleStatusFilterChange = useCallback((value: string) => {
+    setStatusFilter(value);
+    updateQuery({ status: value === "all" ? null : value }, { replace: true });
+  }, [updateQuery]);
+
+  const handleIncludeUnapprovedChange = useCallback((checked: boolean) => {
+    updateQuery({ unapproved: checked ? "1" : null }, { replace: true });
+  }, [updateQuery]);
+
+  const handleTabChange = useCallback((value: string) => {
+    updateQuery({ tab: value === "expenses" ? null : value });
+  }, [updateQuery]);
 
-  const handleExport = () => {
-    const { headers, rows } = formatRecords(filteredExpenses);
-    exportToCSV(headers, rows, "expenses-nds-kochi");
+  const handlePageChange = useCallback((page: number) => {
+    updateQuery({ page: page > 1 ? page : null });
+  }, [updateQuery]);
+
+  // Every expense in the applied range, with search, category and status applied
+  const fetchAllForExport = async () => {
+    const all = await apiUtils.fetchAllPages(page => expensesApi.getAll({
+      ...page,
+      from_date: appliedFrom,
+      to_date: appliedTo
+    }));
+    return all.filter(item => matchesFilters(item, searchQuery, categoryFilter, statusFilter));
   };
 
   const handleRecordsPerPageChange = useCallback((value: string) => {
-    setRecordsPerPage(parseInt(value));
-    setCurrentPage(1); // Reset to first page when changing page size
-  }, []);
+    const size = parseInt(value);
+    // Reset to first page when changing page size
+    updateQuery({ size: size === DEFAULT_PAGE_SIZE ? null : size, page: null });
+  }, [updateQuery]);
 
-  // Reload data when page or records per page changes
+  // Load whenever the applied range or page in the URL change, including
+  // deep links and back/forward navigation
   useEffect(() => {
-    if (dataLoaded) {
-      loadData(currentPage);
+    if (!appliedFrom || !appliedTo) {
+      setDataLoaded(false);
+      setExpenses([]);
+      setFilteredExpenses([]);
+      return;
     }
-  }, [currentPage, recordsPerPage, dataLoaded]);
+    setFilters({ from_date: appliedFrom, to_date: appliedTo });
+    loadData(currentPage);
+  }, [appliedFrom, appliedTo, currentPage, recordsPerPage]);
+
+  // Keep search, category and status in step with history navigation
+  useEffect(() => {
+    setSearchQuery(appliedSearch);
+    setCategoryFilter(appliedCategory);
+    setStatusFilter(appliedStatus);
+  }, [appliedSearch, appliedCategory, appliedStatus]);
 
   const validateForm = useCallback((data: Partial<ExpenseCreate>): Record<string, string> => {
     const errors: Record<string, string> = {};
@@ -196,6 +341,7 @@ export default function ExpensesSection() {
         quantity: item.quantity,
         total_amount: item.total_amount,
         category: item.category,
+        sub_category: item.sub_category ?? null,
       });
     } else {
       setFormData({
@@ -204,14 +350,16 @@ export default function ExpensesSection() {
         item_price: 0,
         quantity: 1,
         total_amount: 0,
-        category: "naamdaan",
+        category: categoryOptions(expenseCategories)[0]?.value ?? "",
       });
     }
 
     setFormErrors({});
     setServerError("");
+    setPendingReceipts([]);
+    setRemovedAttachmentIds([]);
     setIsModalOpen(true);
-  }, []);
+  }, [expenseCategories]);
 
   const closeModal = useCallback(() => {
     setIsModalOpen(false);
@@ -222,16 +370,70 @@ export default function ExpensesSection() {
       item_price: 0,
       quantity: 1,
       total_amount: 0,
-      category: "naamdaan",
+      category: "",
     });
     setFormErrors({});
     setServerError("");
+    setPendingReceipts(prev => {
+      revokePendingReceipts(prev);
+      return [];
+    });
+    setRemovedAttachmentIds([]);
   }, []);
 
-  const handleFormChange = useCallback((field: keyof ExpenseCreate, value: string | number) => {
+  const openPreview = useCallback((items: ReceiptPreviewItem[], index: number) => {
+    setPreviewItems(items);
+    setPreviewIndex(index);
+  }, []);
+
+  // Applies the form's receipt changes to a saved expense. Uploads go one at
+  // a time: the client merges identical in-flight requests, and every
+  // FormData body looks the same to it.
+  const saveReceipts = useCallback(async (expenseId: string) => {
+    if (pendingReceipts.length === 0 && removedAttachmentIds.length === 0) return;
+
+    // Created offline: the server id isn't known until the queue syncs, so
+    // the files are handed over to be uploaded then
+    if (isLocalId(expenseId)) {
+      if (pendingReceipts.length > 0) {
+        expensesApi.deferAttachments(expenseId, pendingReceipts.map(receipt => ({ file: receipt.blob, fileName: receipt.fileName })));
+        toast.info("Receipts will upload once the expense has synced.");
+      }
+      return;
+    }
+
+    let failed = 0;
+    for (const attachmentId of removedAttachmentIds) {
+      try {
+        await expensesApi.deleteAttachment(expenseId, attachmentId);
+      } catch (error) {
+        console.error("Failed to remove receipt:", error);
+        failed++;
+      }
+    }
+    for (const receipt of pendingReceipts) {
+      try {
+        await expensesApi.uploadAttachment(expenseId, receipt.blob, receipt.fileName);
+      } catch (error) {
+        console.error("Failed to upload receipt:", error);
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      toast.error(`${failed} receipt ${failed === 1 ? "change" : "changes"} could not be saved. Edit the expense to try again.`);
+    } else if (pendingReceipts.length > 0) {
+      toast.success(`${pendingReceipts.length} ${pendingReceipts.length === 1 ? "receipt" : "receipts"} attached`);
+    }
+  }, [pendingReceipts, removedAttachmentIds]);
+
+  const handleFormChange = useCallback((field: keyof ExpenseCreate, value: string | number | null) => {
     setFormData(prev => {
       const newData = { ...prev, [field]: value };
 
+      // Sub-categories belong to a category
+      if (field === "category") newData.sub_category = null;
+
       // Auto-calculate total amount when price or quantity changes
       if (field === "item_price" || field === "quantity") {
         const price = Number(newData.item_price) || 0;
@@ -247,7 +449,9 @@ export default function ExpensesSection() {
     }
   }, [formErrors]);
 
-  const handleSubmit = useCallback(async (e: FormEvent) => {
+  // New expenses are submitted for approval unless saved as a draft; edits
+  // leave the status alone
+  const handleSubmit = useCallback(async (e: FormEvent, status: ExpenseStatus = "submitted") => {
     e.preventDefault();
 
     const errors = validateForm(formData);
@@ -260,17 +464,23 @@ export default function ExpensesSection() {
     setServerError("");
 
     try {
+      let expenseId: string;
       if (editingItem) {
         const updatePayload: ExpenseUpdate = formData;
-        await expensesApi.update(editingItem.id, updatePayload);
-        toast.success("Expense updated successfully");
+        const { queued } = await expensesApi.update(editingItem.id, updatePayload);
+        expenseId = editingItem.id;
+        // Queued changes get the offline toast instead
+        if (!queued) toast.success("Expense updated successfully");
       } else {
-        // await expensesApi.create(formData as unknown as ExpenseCreate);
-        await expensesApi.create(formData as ExpenseCreate);
-        toast.success("Expense created successfully");
+        const { data: created, queued } = await expensesApi.create({ ...formData, status } as ExpenseCreate);
+        expenseId = created.id;
+        if (!queued) toast.success("Expense created successfully");
       }
 
+      await saveReceipts(expenseId);
+
       closeModal();
+      reloadBudgets();
       // Reload current page to show changes
       if (dataLoaded) {
         loadData(currentPage);
@@ -284,16 +494,24 @@ export default function ExpensesSection() {
     } finally {
       setModalLoading(false);
     }
-  }, [formData, editingItem, validateForm, closeModal, loadData, currentPage, dataLoaded]);
+  }, [formData, editingItem, validateForm, saveReceipts, closeModal, reloadBudgets, loadData, currentPage, dataLoaded]);
+
+  // Keeps the loaded page in step with a status change made in the sheet
+  const handleStatusChange = useCallback((updated: ExpenseRead) => {
+    setExpenses(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    setReviewingItem(updated);
+    setInboxReloadKey(key => key + 1);
+  }, []);
 
   const handleDelete = useCallback(async () => {
     if (!deletingItem) return;
 
     setDeleteLoading(true);
     try {
-      await expensesApi.delete(deletingItem.id);
+      const { queued } = await expensesApi.delete(deletingItem.id);
       setDeletingItem(null);
-      toast.success("Expense deleted successfully");
+      if (!queued) toast.success("Expense deleted successfully");
+      reloadBudgets();
       if (dataLoaded) {
         loadData(currentPage);
       }
@@ -306,7 +524,7 @@ export default function ExpensesSection() {
     } finally {
       setDeleteLoading(false);
     }
-  }, [deletingItem, loadData, currentPage, dataLoaded]);
+  }, [deletingItem, reloadBudgets, loadData, currentPage, dataLoaded]);
 
   const formatCurrency = useCallback((amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -324,103 +542,154 @@ export default function ExpensesSection() {
           <h1 className="text-3xl font-bold text-foreground">Expenses</h1>
           <p className="text-muted-foreground">Track and manage expense records</p>
         </div>
-        <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90">
-          <Plus className="w-4 h-4 mr-2" />
-          Add New
-        </Button>
+        <div className="flex gap-2">
+          {can("expenses:manage") && (
+            <Button variant="outline" onClick={() => setShowCategoryManager(true)}>
+              <Tags className="w-4 h-4 mr-2" />
+              Categories
+            </Button>
+          )}
+          {can("expenses:create") && (
+            <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Add New
+            </Button>
+          )}
+        </div>
       </div>
 
+      <ExpenseBudgetsPanel
+        rows={budgetRows}
+        loading={budgetsLoading}
+        canManage={can("expenses:manage")}
+        onChange={reloadBudgets}
+      />
+
+      {can("expenses:approve") && (
+        <Tabs value={tab} onValueChange={handleTabChange}>
+          <TabsList>
+            <TabsTrigger value="expenses">Expenses</TabsTrigger>
+            <TabsTrigger value="approvals">Approvals</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      {tab === "approvals" && (
+        <ExpenseApprovalsInbox onReview={setReviewingItem} reloadKey={inboxReloadKey} />
+      )}
+
       {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="h-5 w-5" />
-            Filters
-          </CardTitle>
-          <CardDescription>Set date range to load expense data</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="from_date">
-                From: {filters.from_date && (
-                  <p className="text-sm text-muted-foreground">
-                    {new Date(filters.from_date).toLocaleDateString("en-IN", {
-                      day: "2-digit",
-                      month: "short",
-                      year: "numeric"
-                    })}
-                  </p>
-                )}
-              </Label>
-              <Input
-                id="from_date"
-                type="date"
-                value={filters.from_date}
-                onChange={(e) => setFilters(prev => ({ ...prev, from_date: e.target.value }))}
-                className="w-48"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="to_date">
-                To: {filters.to_date && (
-                  <p className="text-sm text-muted-foreground">
-                    {new Date(filters.to_date).toLocaleDateString("en-IN", {
-                      day: "2-digit",
-                      month: "short",
-                      year: "numeric"
-                    })}
-                  </p>
+      {tab === "expenses" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+            <CardDescription>Set date range to load expense data</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="from_date">
+                  From: {filters.from_date && (
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(filters.from_date).toLocaleDateString("en-IN", {
+                        day: "2-digit",
+                        month: "short",
+                        year: "numeric"
+                      })}
+                    </p>
+                  )}
+                </Label>
+                <Input
+                  id="from_date"
+                  type="date"
+                  value={filters.from_date}
+                  onChange={(e) => setFilters(prev => ({ ...prev, from_date: e.target.value }))}
+                  className="w-48"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to_date">
+                  To: {filters.to_date && (
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(filters.to_date).toLocaleDateString("en-IN", {
+                        day: "2-digit",
+                        month: "short",
+                        year: "numeric"
+                      })}
+                    </p>
+                  )}
+                </Label>
+                <Input
+                  id="to_date"
+                  type="date"
+                  value={filters.to_date}
+                  onChange={(e) => setFilters(prev => ({ ...prev, to_date: e.target.value }))}
+                  className="w-48"
+                />
+              </div>
+              <Button
+                onClick={handleLoadData}
+                disabled={loading}
+                className="bg-primary hover:bg-primary/90"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  <>
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Load Data
+                  </>
                 )}
-              </Label>
-              <Input
-                id="to_date"
-                type="date"
-                value={filters.to_date}
-                onChange={(e) => setFilters(prev => ({ ...prev, to_date: e.target.value }))}
-                className="w-48"
-              />
-            </div>
-            <Button
-              onClick={() => loadData(1)}
-              disabled={loading}
-              className="bg-primary hover:bg-primary/90"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Loading...
-                </>
-              ) : (
-                <>
-                  <Calendar className="w-4 h-4 mr-2" />
-                  Load Data
-                </>
+              </Button>
+              {can("expenses:export") && (
+                <Button variant={"outline"} onClick={() => setShowExportDialog(true)}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
               )}
-            </Button>
-            <Button variant={"outline"} onClick={handleExport}>
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Show content only after data is loaded */}
-      {dataLoaded && (
+      {tab === "expenses" && dataLoaded && (
         <>
           {/* Summary Card */}
           {filteredExpenses.length > 0 && (
             <Card>
               <CardContent className="p-6">
-                <div className="flex items-center gap-4">
-                  <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
-                    <TrendingUp className="h-6 w-6 text-primary" />
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                      <TrendingUp className="h-6 w-6 text-primary" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        {includeUnapproved ? "Total Expenses" : "Approved Expenses"}
+                      </p>
+                      <p className="text-2xl font-bold text-foreground">{formatCurrency(totalExpenses)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {filteredExpenses.length} items
+                        {awaitingApproval.length > 0 && (
+                          <> · {awaitingApproval.length} awaiting approval ({formatCurrency(awaitingApproval.reduce((sum, item) => sum + item.total_amount, 0))})</>
+                        )}
+                      </p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Total Expenses</p>
-                    <p className="text-2xl font-bold text-foreground">{formatCurrency(totalExpenses)}</p>
-                    <p className="text-sm text-muted-foreground">{filteredExpenses.length} items</p>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="include_unapproved"
+                      checked={includeUnapproved}
+                      onCheckedChange={handleIncludeUnapprovedChange}
+                    />
+                    <Label htmlFor="include_unapproved">Include unapproved</Label>
                   </div>
                 </div>
               </CardContent>
@@ -436,28 +705,40 @@ export default function ExpensesSection() {
                   type="text"
                   placeholder="Search by item name or category..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="bg-card pl-10"
                 />
               </div>
             </div>
-            <Select value={categoryFilter} onValueChange={(value: "all" | string) => setCategoryFilter(value)}>
+            <Select value={categoryFilter} onValueChange={handleCategoryChange}>
               <SelectTrigger className="w-40 bg-card">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
-                {EXPENSE_CATEGORIES.map((category) => (
+                {/* Retired categories stay filterable for older records */}
+                {expenseCategories.map((category) => (
                   <SelectItem key={category.value} value={category.value}>
-                    {category.label}
+                    {category.label}{!category.active && " (retired)"}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+              <SelectTrigger className="w-44 bg-card">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {EXPENSE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{EXPENSE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Table */}
-          {filteredExpenses.length === 0 ? (
+          {displayedExpenses.length === 0 ? (
             <Card>
               <CardContent className="text-center py-12">
                 <DollarSign className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -474,7 +755,11 @@ export default function ExpensesSection() {
                   <div>
                     {/* <CardTitle>Expense Records</CardTitle> */}
                     <CardDescription>
-                      Showing {filteredExpenses.length} records
+                      {searchQuery.trim() || categoryFilter !== "all" || statusFilter !== "all"
+                        ? `${filteredExpenses.length} of ${expenses.length} records on this page match`
+                        : totalRecords === null
+                          ? `${expenses.length} records on this page`
+                          : `${totalRecords} records in selected range`}
                     </CardDescription>
                   </div>
 
@@ -486,9 +771,9 @@ export default function ExpensesSection() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="20">20</SelectItem>
-                        <SelectItem value="50">50</SelectItem>
-                        <SelectItem value="100">100</SelectItem>
+                        {PAGE_SIZE_OPTIONS.map(size => (
+                          <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -505,11 +790,13 @@ export default function ExpensesSection() {
                         <TableHead className="font-medium text-muted-foreground">Quantity</TableHead>
                         <TableHead className="font-medium text-muted-foreground">Total Amount</TableHead>
                         <TableHead className="font-medium text-muted-foreground">Category</TableHead>
-                        <TableHead className="font-medium text-muted-foreground w-24">Actions</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Receipt</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Status</TableHead>
+                        <TableHead className="font-medium text-muted-foreground w-32">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredExpenses.map((item) => (
+                      {displayedExpenses.map((item) => (
                         <TableRow key={item.id} className="border-b border-border hover:bg-muted/20">
                           <TableCell>
                             {/* {item.date ? new Date(item.date).toLocaleDateString() : 'N/A'} */}
@@ -518,17 +805,54 @@ export default function ExpensesSection() {
                               month: "short",
                               year: "numeric"
                             }) : 'N/A'}
+                            <div className="mt-1">
+                              <SyncStatusBadge mutation={syncStates.get(item.id)} />
+                            </div>
                           </TableCell>
                           <TableCell className="font-medium">{item.item_name}</TableCell>
                           <TableCell>{formatCurrency(item.item_price)}</TableCell>
                           <TableCell>{item.quantity}</TableCell>
                           <TableCell className="font-semibold">{formatCurrency(item.total_amount)}</TableCell>
                           <TableCell>
-                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md capitalize ${item.category === "seva"
-                              ? "bg-blue-50 text-blue-700 border border-blue-200"
-                              : "bg-purple-50 text-purple-700 border border-purple-200"
-                              }`}>
-                              {item.category}
+                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md capitalize ${categoryBadgeClass(expenseCategories, item.category)}`}>
+                              {categoryLabel(expenseCategories, item.category)}
+                            </span>
+                            {item.sub_category && (
+                              <p className="mt-1 text-xs text-muted-foreground">
+                                {subCategoryLabel(expenseCategories, item.category, item.sub_category)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {item.attachments && item.attachments.length > 0 ? (
+                              <button
+                                type="button"
+                                onClick={() => openPreview(item.attachments!.map(attachmentPreviewItem), 0)}
+                                aria-label={`View receipts for ${item.item_name}`}
+                                className="relative flex h-10 w-10 items-center justify-center overflow-hidden rounded-md border bg-muted hover:ring-2 hover:ring-primary"
+                              >
+                                {item.attachments[0].thumbnail_url ? (
+                                  <img
+                                    src={item.attachments[0].thumbnail_url}
+                                    alt={item.attachments[0].file_name}
+                                    className="h-full w-full object-cover"
+                                  />
+                                ) : (
+                                  <FileText className="h-5 w-5 text-muted-foreground" />
+                                )}
+                                {item.attachments.length > 1 && (
+                                  <span className="absolute bottom-0 right-0 rounded-tl bg-background/90 px-1 text-[10px] font-medium">
+                                    {item.attachments.length}
+                                  </span>
+                                )}
+                              </button>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-md whitespace-nowrap ${EXPENSE_STATUS_BADGE_CLASSES[expenseStatus(item)]}`}>
+                              {EXPENSE_STATUS_LABELS[expenseStatus(item)]}
                             </span>
                           </TableCell>
                           <TableCell>
@@ -536,43 +860,61 @@ export default function ExpensesSection() {
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => openModal(item)}
-                                aria-label={`Edit ${item.item_name} expense`}
+                                onClick={() => setReviewingItem(item)}
+                                aria-label={`Approval for ${item.item_name} expense`}
+                                title="Approval and history"
                                 className="h-8 w-8 p-0 hover:bg-muted"
                               >
-                                <Edit className="h-4 w-4" />
+                                <ClipboardCheck className="h-4 w-4" />
                               </Button>
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => setDeletingItem(item)}
-                                    aria-label={`Delete ${item.item_name} expense`}
-                                    className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Delete Expense Record</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Are you sure you want to delete the expense record for <strong>{item.item_name}</strong> worth <strong>{formatCurrency(item.total_amount)}</strong>? This action cannot be undone.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={handleDelete}
-                                      disabled={deleteLoading}
-                                      className="bg-destructive hover:bg-destructive/90"
+                              {can("expenses:edit") && isExpenseLocked(item) && !can("expenses:approve") ? (
+                                <span className="flex h-8 w-8 items-center justify-center text-muted-foreground" title="Approved expenses can only be changed by an approver">
+                                  <Lock className="h-4 w-4" />
+                                </span>
+                              ) : can("expenses:edit") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openModal(item)}
+                                  aria-label={`Edit ${item.item_name} expense`}
+                                  className="h-8 w-8 p-0 hover:bg-muted"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {can("expenses:delete") && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setDeletingItem(item)}
+                                      aria-label={`Delete ${item.item_name} expense`}
+                                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
                                     >
-                                      {deleteLoading ? "Deleting..." : "Delete"}
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Expense Record</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete the expense record for <strong>{item.item_name}</strong> worth <strong>{formatCurrency(item.total_amount)}</strong>? This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={handleDelete}
+                                        disabled={deleteLoading}
+                                        className="bg-destructive hover:bg-destructive/90"
+                                      >
+                                        {deleteLoading ? "Deleting..." : "Delete"}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -583,54 +925,14 @@ export default function ExpensesSection() {
 
                 {/* Pagination */}
                 {expenses.length > 0 && (
-                  <div className="flex items-center justify-between mt-4">
-                    <div className="text-sm text-muted-foreground">
-                      Page {currentPage} of {totalPages || 1}
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handlePageChange(currentPage - 1)}
-                        disabled={currentPage <= 1}
-                      >
-                        <ChevronLeft className="w-4 h-4" />
-                        Previous
-                      </Button>
-
-                      {/* Page numbers */}
-                      {totalPages > 1 && (
-                        <div className="flex items-center space-x-1">
-                          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                            const pageNum = Math.max(1, currentPage - 2) + i;
-                            if (pageNum > totalPages) return null;
-
-                            return (
-                              <Button
-                                key={pageNum}
-                                variant={pageNum === currentPage ? "default" : "outline"}
-                                size="sm"
-                                onClick={() => handlePageChange(pageNum)}
-                                className="w-8 h-8 p-0"
-                              >
-                                {pageNum}
-                              </Button>
-                            );
-                          })}
-                        </div>
-                      )}
-
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handlePageChange(currentPage + 1)}
-                        disabled={expenses.length < recordsPerPage}
-                      >
-                        Next
-                        <ChevronRight className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
+                  <TablePagination
+                    currentPage={currentPage}
+                    recordsPerPage={recordsPerPage}
+                    total={totalRecords}
+                    hasMore={hasMore}
+                    pageCount={expenses.length}
+                    onPageChange={handlePageChange}
+                  />
                 )}
               </CardContent>
             </Card>
@@ -639,7 +941,7 @@ export default function ExpensesSection() {
       )}
 
       {/* No Data Loaded State */}
-      {!dataLoaded && !loading && (
+      {tab === "expenses" && !dataLoaded && !loading && (
         <Card>
           <CardContent className="text-center py-12">
             <Filter className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -651,8 +953,29 @@ export default function ExpensesSection() {
         </Card>
       )}
 
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="expenses"
+        columns={expenseColumns}
+        loadedRecords={filteredExpenses}
+        fetchAll={fetchAllForExport}
+        total={totalRecords}
+        filename="expenses-nds-kochi"
+        report={{
+          title: "Expense Report",
+          period: formatPeriod(appliedFrom, appliedTo),
+          filters: [
+            { label: "Category", value: categoryFilter === "all" ? "All" : categoryLabel(expenseCategories, categoryFilter) },
+            { label: "Status", value: statusFilter === "all" ? "All" : EXPENSE_STATUS_LABELS[statusFilter as ExpenseStatus] ?? statusFilter },
+            ...(searchQuery.trim() ? [{ label: "Search", value: searchQuery.trim() }] : [])
+          ]
+        }}
+        groupBy={item => categoryLabel(expenseCategories, item.category)}
+      />
+
       {/* Add/Edit Modal */}
-      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-card">
           <DialogHeader>
             <DialogTitle>{editingItem ? "Edit Expense" : "Add New Expense"}</DialogTitle>
@@ -757,28 +1080,104 @@ export default function ExpensesSection() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {EXPENSE_CATEGORIES.map((category) => (
+                    {categoryOptions(expenseCategories, editingItem?.category).map((category) => (
                       <SelectItem key={category.value} value={category.value}>
-                        {category.label}
+                        {category.label}{!category.active && " (retired)"}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
                 {formErrors.category && <p className="text-sm text-destructive">{formErrors.category}</p>}
               </div>
+
+              {subCategoryOptions(expenseCategories, formData.category, editingItem?.sub_category).length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="sub_category">Sub-category</Label>
+                  <Select
+                    value={formData.sub_category || NO_SUB_CATEGORY}
+                    onValueChange={(value: string) => handleFormChange("sub_category", value === NO_SUB_CATEGORY ? null : value)}
+                  >
+                    <SelectTrigger id="sub_category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SUB_CATEGORY}>None</SelectItem>
+                      {subCategoryOptions(expenseCategories, formData.category, editingItem?.sub_category).map((sub) => (
+                        <SelectItem key={sub.value} value={sub.value}>
+                          {sub.label}{!sub.active && " (retired)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
 
+            {budgetCheck && budgetCheck.status !== "ok" && !!formData.total_amount && (
+              <Alert className={budgetCheck.status === "over"
+                ? "border-red-200 bg-red-50 text-red-900 dark:bg-red-950/30 dark:text-red-200"
+                : "border-amber-200 bg-amber-50 text-amber-900 dark:bg-amber-950/30 dark:text-amber-200"}
+              >
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {budgetCheck.status === "over" ? "This expense exceeds the budget" : "Close to the budget"}
+                </AlertTitle>
+                <AlertDescription>
+                  {categoryLabel(expenseCategories, budgetCheck.budget.category)} spend for {budgetCheck.range.label} would be{" "}
+                  {formatCurrency(budgetCheck.projected)} of {formatCurrency(budgetCheck.budget.amount)}
+                  {budgetCheck.status === "over"
+                    ? `, ${formatCurrency(budgetCheck.projected - budgetCheck.budget.amount)} over budget.`
+                    : ` (${Math.round((budgetCheck.projected / budgetCheck.budget.amount) * 100)}%).`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ReceiptAttachments
+              attachments={(editingItem?.attachments ?? []).filter(attachment => !removedAttachmentIds.includes(attachment.id))}
+              pending={pendingReceipts}
+              onAddPending={(receipts) => setPendingReceipts(prev => [...prev, ...receipts])}
+              onRemoveAttachment={(attachment) => setRemovedAttachmentIds(prev => [...prev, attachment.id])}
+              onRemovePending={(receipt) => {
+                URL.revokeObjectURL(receipt.previewUrl);
+                setPendingReceipts(prev => prev.filter(r => r.id !== receipt.id));
+              }}
+              onPreview={openPreview}
+              isOnline={isOnline}
+              allowOffline={!editingItem}
+              disabled={modalLoading}
+            />
+
             <div className="flex justify-end gap-3 pt-4">
               <Button type="button" variant="outline" onClick={closeModal} disabled={modalLoading}>
                 Cancel
               </Button>
+              {!editingItem && (
+                <Button type="button" variant="outline" onClick={(e) => handleSubmit(e, "draft")} disabled={modalLoading}>
+                  Save as Draft
+                </Button>
+              )}
               <Button type="submit" disabled={modalLoading} className="bg-primary hover:bg-primary/90">
-                {modalLoading ? "Saving..." : editingItem ? "Update" : "Create"}
+                {modalLoading ? "Saving..." : editingItem ? "Update" : "Submit for Approval"}
               </Button>
             </div>
           </form>
         </DialogContent>
       </Dialog>
+
+      <ExpenseApprovalSheet
+        expense={reviewingItem}
+        onOpenChange={(open) => !open && setReviewingItem(null)}
+        onEdit={(item) => {
+          setReviewingItem(null);
+          openModal(item);
+        }}
+        onStatusChange={handleStatusChange}
+        isOnline={isOnline}
+      />
+
+      <ReceiptPreviewDialog items={previewItems} index={previewIndex} onIndexChange={setPreviewIndex} />
+
+      <ExpenseCategoryManager open={showCategoryManager} onOpenChange={setShowCategoryManager} />
     </div>
   );
 }
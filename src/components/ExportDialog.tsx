@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Loader2 } from "lucide-react";
+import { ApiServiceError } from "@/lib/api";
+import { exportToCSV, downloadBlob } from "@/utils/exportToCSV";
+import { buildReport, type ReportMeta } from "@/lib/reports";
+import { buildXlsx } from "@/lib/xlsxWriter";
+import { printReport } from "@/lib/printReport";
+import {
+  buildExport,
+  defaultColumnKeys,
+  loadColumnKeys,
+  saveColumnKeys,
+  type ExportColumn,
+  type ExportEntity
+} from "@/lib/exportColumns";
+
+type ExportScope = "loaded" | "all";
+type ExportFormat = "csv" | "xlsx" | "pdf";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "PDF (print)"
+};
+
+interface ExportDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entity: ExportEntity;
+  columns: ExportColumn<T>[];
+  // Records on screen (the loaded page after search)
+  loadedRecords: T[];
+  // Every record matching the current filter, across all pages
+  fetchAll: () => Promise<T[]>;
+  // Server total for the current filter, before search; null when unknown
+  total: number | null;
+  filename: string;
+  // Report heading: title, date range and filters applied
+  report: ReportMeta;
+  // Splits XLSX into a sheet per group and PDF into a section per group
+  groupBy?: (record: T) => string;
+}
+
+// Pick a format, the columns and whether to export the loaded page or every
+// page of the current filter. CSV and XLSX download; PDF opens the print
+// dialog.
+export default function ExportDialog<T>({
+  open,
+  onOpenChange,
+  entity,
+  columns,
+  loadedRecords,
+  fetchAll,
+  total,
+  filename,
+  report,
+  groupBy
+}: ExportDialogProps<T>) {
+  const [keys, setKeys] = useState<string[]>([]);
+  const [scope, setScope] = useState<ExportScope>("loaded");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setKeys(loadColumnKeys(entity, columns));
+    setScope("loaded");
+  }, [open, entity, columns]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setKeys(prev => columns
+      .map(column => column.key)
+      .filter(k => (k === key ? checked : prev.includes(k))));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const records = scope === "all" ? await fetchAll() : loadedRecords;
+      if (format === "csv") {
+        const { headers, rows } = buildExport(columns, keys, records);
+        exportToCSV(headers, rows, filename);
+      } else {
+        const built = buildReport(report, columns, keys, records, groupBy);
+        if (format === "xlsx") downloadBlob(buildXlsx(built), `${filename}.xlsx`);
+        else printReport(built);
+      }
+      saveColumnKeys(entity, keys);
+      toast.success(`Exported ${records.length} record${records.length === 1 ? "" : "s"}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Export failed");
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>Choose the format, records and columns to include.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex flex-wrap gap-4"
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(value => (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={value} id={`export_format_${value}`} />
+                  <Label htmlFor={`export_format_${value}`} className="font-normal">{FORMAT_LABELS[value]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="loaded" id="export_loaded" />
+              <Label htmlFor="export_loaded" className="font-normal">
+                Records on screen ({loadedRecords.length})
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="all" id="export_all" />
+              <Label htmlFor="export_all" className="font-normal">
+                All pages of the current filter{total !== null && ` (about ${total})`}
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="space-x-2">
+                <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setKeys(columns.map(c => c.key))}>
+                  All
+                </Button>
+                <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setKeys(defaultColumnKeys(columns))}>
+                  Defaults
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+              {columns.map(column => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export_col_${column.key}`}
+                    checked={keys.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export_col_${column.key}`} className="font-normal">{column.header}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || keys.length === 0}>
+            {exporting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </>
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
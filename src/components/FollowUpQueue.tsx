@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useCallback, useEffect, FormEvent } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlarmClock, CalendarClock, Check, Edit, History, Loader2, Phone } from "lucide-react";
+import { callingSevaApi, apiUtils, ApiServiceError, type CallingSevaRead } from "@/lib/api";
+import { normalizePhoneNumber } from "@/lib/phone";
+import {
+  FOLLOW_UP_BUCKETS,
+  FOLLOW_UP_LABELS,
+  SNOOZE_OPTIONS,
+  findBhagatForUser,
+  formatFollowUp,
+  fromDateTimeLocal,
+  getBucketRange,
+  isFollowUpBucket,
+  toDateTimeLocal,
+  type FollowUpBucket
+} from "@/lib/followUps";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+
+const PAGE_SIZE = 20;
+
+const BUCKET_BADGE_CLASSES: Record<FollowUpBucket, string> = {
+  overdue: "bg-red-50 text-red-700 border border-red-200",
+  today: "bg-amber-50 text-amber-700 border border-amber-200",
+  upcoming: "bg-blue-50 text-blue-700 border border-blue-200"
+};
+
+interface FollowUpQueueProps {
+  onEdit: (record: CallingSevaRead) => void;
+  onOpenContact: (record: CallingSevaRead) => void;
+  // Bumped by the parent after it saves a record, to refresh the queue
+  reloadKey: number;
+}
+
+// Calls to make, split into overdue / due today / upcoming. Defaults to the
+// signed-in bhagat's own follow-ups.
+export default function FollowUpQueue({ onEdit, onOpenContact, reloadKey }: FollowUpQueueProps) {
+  const { user, can } = useAuth();
+  const { bhagatNames } = useConstants();
+
+  // Bucket, bhagat and page live in the query string (?due=&bhagat=&fpage=)
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const dueParam = searchParams.get("due");
+  const bucket: FollowUpBucket = isFollowUpBucket(dueParam) ? dueParam : "overdue";
+  const myBhagat = findBhagatForUser(user?.name, bhagatNames);
+  const bhagat = searchParams.get("bhagat") ?? myBhagat ?? "all";
+  const currentPage = parsePageParam(searchParams.get("fpage"), 1);
+
+  const [records, setRecords] = useState<CallingSevaRead[]>([]);
+  const [total, setTotal] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [counts, setCounts] = useState<Partial<Record<FollowUpBucket, number>>>({});
+  const [loading, setLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Reschedule dialog
+  const [rescheduling, setRescheduling] = useState<CallingSevaRead | null>(null);
+  const [rescheduleValue, setRescheduleValue] = useState("");
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    const now = new Date();
+    const assigned = bhagat === "all" ? undefined : bhagat;
+
+    try {
+      const [list, ...totals] = await Promise.all([
+        callingSevaApi.getFollowUps({
+          ...getBucketRange(bucket, now),
+          assigned_bhagat_name: assigned,
+          skip: (currentPage - 1) * PAGE_SIZE,
+          limit: PAGE_SIZE
+        }),
+        // Only the totals are needed for the tab counters
+        ...FOLLOW_UP_BUCKETS.map(b => apiUtils.countAll(page => callingSevaApi.getFollowUps({
+          ...getBucketRange(b, now),
+          assigned_bhagat_name: assigned,
+          ...page
+        })))
+      ]);
+
+      const lastPage = getTotalPages(list.total, PAGE_SIZE, list.skip + list.items.length, list.hasMore);
+      if (list.items.length === 0 && currentPage > lastPage) {
+        updateQuery({ fpage: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
+      }
+
+      setRecords(list.items);
+      setTotal(list.total);
+      setHasMore(list.hasMore);
+      setCounts(Object.fromEntries(FOLLOW_UP_BUCKETS.map((b, i) => [b, totals[i]])));
+    } catch (error) {
+      console.error("Failed to fetch follow-ups:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load follow-ups");
+      }
+      setRecords([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [bucket, bhagat, currentPage, updateQuery]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, reloadKey]);
+
+  // Offline queue: reload once queued changes reach the server
+  useOfflineQueue(() => loadQueue());
+
+  const handleBucketChange = (value: string) => {
+    updateQuery({ due: value === "overdue" ? null : value, fpage: null });
+  };
+
+  const handleBhagatChange = (value: string) => {
+    updateQuery({ bhagat: value === myBhagat ? null : value, fpage: null });
+  };
+
+  const handlePageChange = (page: number) => {
+    updateQuery({ fpage: page > 1 ? page : null });
+  };
+
+  // Move (or clear) a follow-up. The record leaves the current bucket, so
+  // it is dropped locally right away and the counts refresh from the server.
+  const setFollowUp = async (record: CallingSevaRead, followUpAt: string | null) => {
+    setUpdatingId(record.id);
+    try {
+      await callingSevaApi.update(record.id, { next_follow_up_at: followUpAt });
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+      loadQueue();
+    } catch (error) {
+      console.error("Failed to update follow-up:", error);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const openReschedule = (record: CallingSevaRead) => {
+    setRescheduling(record);
+    setRescheduleValue(toDateTimeLocal(record.next_follow_up_at));
+  };
+
+  const handleRescheduleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!rescheduling) return;
+
+    const followUpAt = fromDateTimeLocal(rescheduleValue);
+    if (!followUpAt) {
+      toast.error("Please choose a date and time");
+      return;
+    }
+
+    const record = rescheduling;
+    setRescheduling(null);
+    await setFollowUp(record, followUpAt);
+  };
+
+  const canEdit = can("calling-seva:edit");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlarmClock className="h-5 w-5" />
+              Follow-up Queue
+            </CardTitle>
+            <CardDescription>Seekers waiting for their next call</CardDescription>
+          </div>
+          <Select value={bhagat} onValueChange={handleBhagatChange}>
+            <SelectTrigger className="w-56 bg-card" aria-label="Assigned bhagat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All bhagats</SelectItem>
+              {bhagatNames.map(name => (
+                <SelectItem key={name} value={name}>
+                  {name.charAt(0).toUpperCase() + name.slice(1)}
+                  {name === myBhagat && " (you)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={bucket} onValueChange={handleBucketChange}>
+          <TabsList>
+            {FOLLOW_UP_BUCKETS.map(b => (
+              <TabsTrigger key={b} value={b}>
+                {FOLLOW_UP_LABELS[b]}
+                {counts[b] !== undefined && (
+                  <Badge variant="secondary" className={`ml-1 ${b === "overdue" && counts[b] ? BUCKET_BADGE_CLASSES.overdue : ""}`}>
+                    {counts[b]}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading && records.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-12">
+            <Check className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <CardTitle className="mb-2">Nothing {FOLLOW_UP_LABELS[bucket].toLowerCase()}</CardTitle>
+            <CardDescription>
+              Set a next follow-up on a calling record to see it here.
+            </CardDescription>
+          </div>
+        ) : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Follow-up</TableHead>
+                    <TableHead>Mobile</TableHead>
+                    <TableHead>Address</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Assigned Bhagat</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map(record => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        {record.next_follow_up_at && (
+                          <Badge className={BUCKET_BADGE_CLASSES[bucket]}>
+                            {formatFollowUp(record.next_follow_up_at)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <a href={`tel:${normalizePhoneNumber(record.mobile_no) ?? record.mobile_no}`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                          <Phone className="w-3 h-3" />
+                          {record.mobile_no}
+                        </a>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{record.address}</TableCell>
+                      <TableCell>
+                        <Badge className="bg-gray-200 text-black-800 border border-black-100">
+                          {record.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{record.assigned_bhagat_name}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onOpenContact(record)}
+                            aria-label="Contact history"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                          {canEdit && (
+                            <>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={updatingId === record.id}
+                                    aria-label="Snooze follow-up"
+                                  >
+                                    {updatingId === record.id
+                                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                                      : <CalendarClock className="w-4 h-4" />}
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {SNOOZE_OPTIONS.map(option => (
+                                    <DropdownMenuItem
+                                      key={option.key}
+                                      onClick={() => setFollowUp(record, option.getDate(new Date()).toISOString())}
+                                    >
+                                      {option.label}
+                                    </DropdownMenuItem>
+                                  ))}
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem onClick={() => openReschedule(record)}>
+                                    Pick date & time...
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setFollowUp(record, null)}
+                                disabled={updatingId === record.id}
+                                className="text-green-600 hover:text-green-700"
+                                aria-label="Mark follow-up done"
+                              >
+                                <Check className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onEdit(record)}
+                                aria-label="Edit calling seva record"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <TablePagination
+              currentPage={currentPage}
+              recordsPerPage={PAGE_SIZE}
+              total={total}
+              hasMore={hasMore}
+              pageCount={records.length}
+              onPageChange={handlePageChange}
+            />
+          </>
+        )}
+      </CardContent>
+
+      {/* Reschedule Dialog */}
+      <Dialog open={!!rescheduling} onOpenChange={(open) => !open && setRescheduling(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Reschedule Follow-up</DialogTitle>
+            <DialogDescription>{rescheduling?.mobile_no}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRescheduleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reschedule_at">Next follow-up</Label>
+              <Input
+                id="reschedule_at"
+                type="datetime-local"
+                value={rescheduleValue}
+                onChange={(e) => setRescheduleValue(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setRescheduling(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,714 @@
+"use client";
+
+import { useState, useCallback, useMemo, useEffect, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Plus, Edit, Trash2, Calendar, Filter, Loader2, Download, HandCoins, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import {
+  incomeApi,
+  ApiServiceError,
+  apiUtils,
+  type IncomeCreate,
+  type IncomeRead,
+  type PaymentMode
+} from "@/lib/api";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import CashBook from "@/components/CashBook";
+import ExportDialog from "@/components/ExportDialog";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+import { getPendingCreates, getSyncStates } from "@/lib/offlineQueue";
+import { INCOME_COLUMNS, formatExportCurrency } from "@/lib/exportColumns";
+import { formatPeriod } from "@/lib/reports";
+import {
+  INCOME_PURPOSES,
+  PAYMENT_MODES,
+  PAYMENT_MODE_LABELS,
+  isBookSevaIncome,
+  purposeLabel
+} from "@/lib/income";
+
+const TABS = ["income", "cash-book"] as const;
+type Tab = typeof TABS[number];
+
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_PAGE_SIZE = 20;
+
+const emptyIncome = (): Partial<IncomeCreate> => ({
+  date: new Date().toISOString().split("T")[0],
+  donor_name: "",
+  amount: 0,
+  mode: "cash",
+  receipt_no: "",
+  purpose: "donation",
+  remarks: "",
+});
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+export default function IncomeSection() {
+  const { can } = useAuth();
+
+  // Applied date range, mode, page and tab live in the query string
+  // (?from=&to=&mode=&page=&size=&tab=) so a view survives refresh and can be shared
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const appliedFrom = searchParams.get("from") || "";
+  const appliedTo = searchParams.get("to") || "";
+  const modeParam = searchParams.get("mode");
+  const appliedMode = PAYMENT_MODES.includes(modeParam as PaymentMode) ? (modeParam as PaymentMode) : null;
+  const tabParam = searchParams.get("tab");
+  const tab: Tab = TABS.includes(tabParam as Tab) ? (tabParam as Tab) : "income";
+  const currentPage = parsePageParam(searchParams.get("page"), 1);
+  const recordsPerPage = parsePageParam(searchParams.get("size"), DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS);
+
+  const [records, setRecords] = useState<IncomeRead[]>([]);
+  const [totalRecords, setTotalRecords] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [cashBookReloadKey, setCashBookReloadKey] = useState(0);
+
+  const today = new Date().toISOString().split("T")[0];
+  const oneMonthAgo = new Date();
+  oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+  const oneMonthAgoStr = oneMonthAgo.toISOString().split("T")[0];
+
+  const [filters, setFilters] = useState({
+    from_date: appliedFrom || oneMonthAgoStr,
+    to_date: appliedTo || today
+  });
+
+  // Modal states
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<IncomeRead | null>(null);
+  const [modalLoading, setModalLoading] = useState(false);
+  const [formData, setFormData] = useState<Partial<IncomeCreate>>(emptyIncome);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [serverError, setServerError] = useState("");
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  // Delete states
+  const [deletingItem, setDeletingItem] = useState<IncomeRead | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const validateFilters = useCallback((range: { from_date: string; to_date: string }) => {
+    if (!range.from_date || !range.to_date) {
+      toast.error("Please select both From Date and To Date to load data");
+      return false;
+    }
+    if (new Date(range.from_date) > new Date(range.to_date)) {
+      toast.error("From Date cannot be later than To Date");
+      return false;
+    }
+    return true;
+  }, []);
+
+  const loadData = useCallback(async (page: number = currentPage) => {
+    if (!validateFilters({ from_date: appliedFrom, to_date: appliedTo })) return;
+
+    try {
+      setLoading(true);
+      const result = await incomeApi.getAll({
+        skip: (page - 1) * recordsPerPage,
+        limit: recordsPerPage,
+        from_date: appliedFrom,
+        to_date: appliedTo,
+        mode: appliedMode ?? undefined
+      });
+
+      // Step back if the requested page no longer exists (e.g. after a delete)
+      const lastPage = getTotalPages(result.total, recordsPerPage, result.skip + result.items.length, result.hasMore);
+      if (result.items.length === 0 && page > lastPage) {
+        updateQuery({ page: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
+      }
+
+      setRecords(result.items);
+      setTotalRecords(result.total);
+      setHasMore(result.hasMore);
+      setDataLoaded(true);
+    } catch (error) {
+      console.error("Failed to fetch income:", error);
+      if (!(error instanceof ApiServiceError)) toast.error("Failed to load income");
+      setRecords([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFrom, appliedTo, appliedMode, currentPage, recordsPerPage, validateFilters, updateQuery]);
+
+  // Offline queue: reload once queued changes reach the server
+  const { mutations } = useOfflineQueue(() => {
+    if (dataLoaded) loadData(currentPage);
+    setCashBookReloadKey(key => key + 1);
+  });
+  const syncStates = useMemo(() => getSyncStates(mutations, "income"), [mutations]);
+  const displayedRecords = useMemo(
+    () => [...getPendingCreates<IncomeRead>(mutations, "income"), ...records],
+    [mutations, records]
+  );
+
+  const pageTotal = useMemo(() => records.reduce((sum, item) => sum + item.amount, 0), [records]);
+
+  // Load whenever the applied range, mode or page in the URL change
+  useEffect(() => {
+    if (!appliedFrom || !appliedTo) {
+      setDataLoaded(false);
+      setRecords([]);
+      return;
+    }
+    setFilters({ from_date: appliedFrom, to_date: appliedTo });
+    if (tab === "income") loadData(currentPage);
+  }, [appliedFrom, appliedTo, appliedMode, currentPage, recordsPerPage, tab]);
+
+  const handleLoadData = useCallback(() => {
+    if (!validateFilters(filters)) return;
+    const changed = updateQuery({ from: filters.from_date, to: filters.to_date, page: null });
+    if (!changed) {
+      if (tab === "income") loadData(1);
+      else setCashBookReloadKey(key => key + 1);
+    }
+  }, [filters, validateFilters, updateQuery, loadData, tab]);
+
+  const handleModeChange = useCallback((value: string) => {
+    updateQuery({ mode: value === "all" ? null : value, page: null });
+  }, [updateQuery]);
+
+  const handleTabChange = useCallback((value: string) => {
+    updateQuery({ tab: value === "income" ? null : value });
+  }, [updateQuery]);
+
+  const handlePageChange = useCallback((page: number) => {
+    updateQuery({ page: page > 1 ? page : null });
+  }, [updateQuery]);
+
+  const handleRecordsPerPageChange = useCallback((value: string) => {
+    const size = parseInt(value);
+    updateQuery({ size: size === DEFAULT_PAGE_SIZE ? null : size, page: null });
+  }, [updateQuery]);
+
+  // Every income entry in the applied range and mode
+  const fetchAllForExport = () => apiUtils.fetchAllPages(page => incomeApi.getAll({
+    ...page,
+    from_date: appliedFrom,
+    to_date: appliedTo,
+    mode: appliedMode ?? undefined
+  }));
+
+  const validateForm = (data: Partial<IncomeCreate>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    if (!data.date) errors.date = "Date is required";
+    if (!data.donor_name?.trim()) errors.donor_name = "Received from is required";
+    if (!(data.amount && data.amount > 0)) errors.amount = "Amount must be greater than 0";
+    if (!data.mode) errors.mode = "Mode is required";
+    if (!data.purpose) errors.purpose = "Purpose is required";
+    return errors;
+  };
+
+  const openModal = (item?: IncomeRead) => {
+    setEditingItem(item || null);
+    setFormData(item
+      ? {
+        date: item.date ? item.date.slice(0, 10) : "",
+        donor_name: item.donor_name,
+        amount: item.amount,
+        mode: item.mode,
+        receipt_no: item.receipt_no ?? "",
+        purpose: item.purpose,
+        remarks: item.remarks ?? "",
+      }
+      : emptyIncome());
+    setFormErrors({});
+    setServerError("");
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    setFormErrors({});
+    setServerError("");
+  };
+
+  const handleFormChange = (field: keyof IncomeCreate, value: string | number) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (formErrors[field]) setFormErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateForm(formData);
+    if (Object.keys(errors).length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+
+    setModalLoading(true);
+    setServerError("");
+    try {
+      const payload = { ...formData, donor_name: formData.donor_name?.trim() };
+      if (editingItem) {
+        await incomeApi.update(editingItem.id, payload);
+      } else {
+        await incomeApi.create(payload as IncomeCreate);
+      }
+      closeModal();
+      setCashBookReloadKey(key => key + 1);
+      if (dataLoaded) loadData(currentPage);
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setModalLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingItem) return;
+
+    setDeleteLoading(true);
+    try {
+      await incomeApi.delete(deletingItem.id);
+      setDeletingItem(null);
+      setCashBookReloadKey(key => key + 1);
+      if (dataLoaded) loadData(currentPage);
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        toast.error("Failed to delete income: " + error.message);
+      } else {
+        toast.error("Failed to delete income");
+      }
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Income</h1>
+          <p className="text-muted-foreground">Donations, book sales and the cash book</p>
+        </div>
+        {can("income:create") && (
+          <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add New
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Filters
+          </CardTitle>
+          <CardDescription>Set date range to load income and the cash book</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="from_date">From</Label>
+              <Input
+                id="from_date"
+                type="date"
+                value={filters.from_date}
+                onChange={(e) => setFilters(prev => ({ ...prev, from_date: e.target.value }))}
+                className="w-48"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to_date">To</Label>
+              <Input
+                id="to_date"
+                type="date"
+                value={filters.to_date}
+                onChange={(e) => setFilters(prev => ({ ...prev, to_date: e.target.value }))}
+                className="w-48"
+              />
+            </div>
+            {tab === "income" && (
+              <div className="space-y-2">
+                <Label>Mode</Label>
+                <Select value={appliedMode ?? "all"} onValueChange={handleModeChange}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Modes</SelectItem>
+                    {PAYMENT_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>{PAYMENT_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button onClick={handleLoadData} disabled={loading} className="bg-primary hover:bg-primary/90">
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                <>
+                  <Calendar className="w-4 h-4 mr-2" />
+                  Load Data
+                </>
+              )}
+            </Button>
+            {tab === "income" && can("income:export") && (
+              <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={!dataLoaded}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs value={tab} onValueChange={handleTabChange}>
+        <TabsList>
+          <TabsTrigger value="income">Income</TabsTrigger>
+          <TabsTrigger value="cash-book">Cash Book</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {tab === "cash-book" && (
+        <CashBook
+          fromDate={appliedFrom}
+          toDate={appliedTo}
+          canExport={can("income:export") && can("expenses:view")}
+          reloadKey={cashBookReloadKey}
+        />
+      )}
+
+      {tab === "income" && dataLoaded && (
+        <>
+          {/* Summary Card */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center">
+                  <Wallet className="h-6 w-6 text-green-700" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Received on this page</p>
+                  <p className="text-2xl font-bold text-foreground">{formatExportCurrency(pageTotal)}</p>
+                  <p className="text-sm text-muted-foreground">{totalRecords === null ? `${records.length} entries on this page` : `${records.length} of ${totalRecords} entries in range`}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {displayedRecords.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <HandCoins className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                <CardTitle className="mb-2">No income found</CardTitle>
+                <CardDescription>Nothing was received in the selected date range.</CardDescription>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardDescription>{totalRecords === null ? `${records.length} entries on this page` : `${totalRecords} entries in selected range`}</CardDescription>
+                  <div className="flex items-center space-x-2">
+                    <Label>Records per page:</Label>
+                    <Select value={recordsPerPage.toString()} onValueChange={handleRecordsPerPageChange}>
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAGE_SIZE_OPTIONS.map(size => (
+                          <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-b border-border bg-muted/30">
+                        <TableHead className="font-medium text-muted-foreground">Date</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Received From</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Purpose</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Mode</TableHead>
+                        <TableHead className="font-medium text-muted-foreground">Receipt No</TableHead>
+                        <TableHead className="font-medium text-muted-foreground text-right">Amount</TableHead>
+                        <TableHead className="font-medium text-muted-foreground w-24">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {displayedRecords.map((item) => {
+                        const fromBookSeva = isBookSevaIncome(item);
+                        return (
+                          <TableRow key={item.id} className="border-b border-border hover:bg-muted/20">
+                            <TableCell>
+                              {item.date ? formatDate(item.date) : "N/A"}
+                              <div className="mt-1">
+                                <SyncStatusBadge mutation={syncStates.get(item.id)} />
+                              </div>
+                            </TableCell>
+                            <TableCell className="font-medium">
+                              {item.donor_name}
+                              {item.remarks && <p className="text-xs font-normal text-muted-foreground">{item.remarks}</p>}
+                            </TableCell>
+                            <TableCell>
+                              {purposeLabel(item.purpose)}
+                              {fromBookSeva && <Badge variant="outline" className="ml-2">Book seva</Badge>}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">{PAYMENT_MODE_LABELS[item.mode] ?? item.mode}</Badge>
+                            </TableCell>
+                            <TableCell>{item.receipt_no || "-"}</TableCell>
+                            <TableCell className="text-right font-semibold">{formatExportCurrency(item.amount)}</TableCell>
+                            <TableCell>
+                              {/* Book seva entries follow their book seva record */}
+                              {!fromBookSeva && (
+                                <div className="flex items-center gap-1">
+                                  {can("income:edit") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => openModal(item)}
+                                      aria-label={`Edit income from ${item.donor_name}`}
+                                      className="h-8 w-8 p-0 hover:bg-muted"
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  {can("income:delete") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setDeletingItem(item)}
+                                      aria-label={`Delete income from ${item.donor_name}`}
+                                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {records.length > 0 && (
+                  <TablePagination
+                    currentPage={currentPage}
+                    recordsPerPage={recordsPerPage}
+                    total={totalRecords}
+                    hasMore={hasMore}
+                    pageCount={records.length}
+                    onPageChange={handlePageChange}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* No Data Loaded State */}
+      {tab === "income" && !dataLoaded && !loading && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Filter className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <CardTitle className="mb-2">Load Data</CardTitle>
+            <CardDescription>
+              Please select a date range and click "Load Data" to view income records.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      )}
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="income"
+        columns={INCOME_COLUMNS}
+        loadedRecords={records}
+        fetchAll={fetchAllForExport}
+        total={totalRecords}
+        filename="income-nds-kochi"
+        report={{
+          title: "Income Report",
+          period: formatPeriod(appliedFrom, appliedTo),
+          filters: [{ label: "Mode", value: appliedMode ? PAYMENT_MODE_LABELS[appliedMode] : "All" }]
+        }}
+        groupBy={item => purposeLabel(item.purpose)}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deletingItem} onOpenChange={(open) => !open && setDeletingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Income Entry</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the entry from <strong>{deletingItem?.donor_name}</strong> for{" "}
+              <strong>{deletingItem ? formatExportCurrency(deletingItem.amount) : ""}</strong>? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteLoading}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteLoading ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Add/Edit Modal */}
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && closeModal()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-card">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Edit Income" : "Record Income"}</DialogTitle>
+            <DialogDescription>
+              {editingItem ? "Update the income entry." : "Record a donation or other money received."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {serverError && (
+            <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+              {serverError}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="income_date">Date *</Label>
+                <Input
+                  id="income_date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => handleFormChange("date", e.target.value)}
+                  className={formErrors.date ? "border-destructive" : ""}
+                />
+                {formErrors.date && <p className="text-sm text-destructive">{formErrors.date}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="donor_name">Received From *</Label>
+                <Input
+                  id="donor_name"
+                  placeholder="Donor or buyer name"
+                  value={formData.donor_name}
+                  onChange={(e) => handleFormChange("donor_name", e.target.value)}
+                  className={formErrors.donor_name ? "border-destructive" : ""}
+                />
+                {formErrors.donor_name && <p className="text-sm text-destructive">{formErrors.donor_name}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount *</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={formData.amount || ""}
+                  onChange={(e) => handleFormChange("amount", parseFloat(e.target.value) || 0)}
+                  className={formErrors.amount ? "border-destructive" : ""}
+                />
+                {formErrors.amount && <p className="text-sm text-destructive">{formErrors.amount}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="mode">Mode *</Label>
+                <Select value={formData.mode} onValueChange={(value: string) => handleFormChange("mode", value)}>
+                  <SelectTrigger id="mode" className={formErrors.mode ? "border-destructive" : ""}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>{PAYMENT_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formErrors.mode && <p className="text-sm text-destructive">{formErrors.mode}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="purpose">Purpose *</Label>
+                <Select value={formData.purpose} onValueChange={(value: string) => handleFormChange("purpose", value)}>
+                  <SelectTrigger id="purpose" className={formErrors.purpose ? "border-destructive" : ""}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INCOME_PURPOSES.map(purpose => (
+                      <SelectItem key={purpose.value} value={purpose.value}>{purpose.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formErrors.purpose && <p className="text-sm text-destructive">{formErrors.purpose}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt_no">Receipt No</Label>
+                <Input
+                  id="receipt_no"
+                  placeholder="Printed receipt number"
+                  value={formData.receipt_no}
+                  onChange={(e) => handleFormChange("receipt_no", e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="income_remarks">Remarks</Label>
+                <Textarea
+                  id="income_remarks"
+                  rows={2}
+                  value={formData.remarks}
+                  onChange={(e) => handleFormChange("remarks", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={closeModal} disabled={modalLoading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={modalLoading} className="bg-primary hover:bg-primary/90">
+                {modalLoading ? "Saving..." : editingItem ? "Update" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
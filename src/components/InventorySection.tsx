@@ -0,0 +1,655 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Plus, Package, AlertTriangle, History, Edit, Loader2, Download, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  inventoryApi,
+  BOOK_NAMES,
+  type BookName,
+  type StockBalance,
+  type StockMovement,
+  type StockMovementType,
+  type StockReceiptCreate,
+  ApiServiceError,
+  apiUtils
+} from "@/lib/api";
+import { toStockRows, describeMovement, STOCK_LEVEL_LABELS, type StockLevel, type StockRow } from "@/lib/inventory";
+import { STOCK_MOVEMENT_COLUMNS } from "@/lib/exportColumns";
+import ExportDialog from "@/components/ExportDialog";
+import { useAuth } from "@/components/ProtectedRoute";
+import TablePagination, { getTotalPages } from "@/components/TablePagination";
+import { useUrlQuery, parsePageParam } from "@/hooks/use-url-query";
+
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_PAGE_SIZE = 20;
+
+const MOVEMENT_TYPES: { value: StockMovementType; label: string }[] = [
+  { value: "in", label: "Stock In" },
+  { value: "out", label: "Stock Out" },
+  { value: "adjustment", label: "Adjustment" }
+];
+
+const LEVEL_BADGE_CLASSES: Record<StockLevel, string> = {
+  ok: "bg-green-50 text-green-700 border border-green-200",
+  low: "bg-amber-50 text-amber-700 border border-amber-200",
+  out: "bg-red-50 text-red-700 border border-red-200",
+  untracked: "bg-muted text-muted-foreground border border-border"
+};
+
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric"
+  }) : "N/A";
+
+export default function InventorySection() {
+  const { can } = useAuth();
+
+  // History filters and page live in the query string (?book=&type=&page=&size=)
+  const { searchParams, update: updateQuery } = useUrlQuery();
+  const bookFilter = searchParams.get("book") || "all";
+  const typeFilter = searchParams.get("type") || "all";
+  const currentPage = parsePageParam(searchParams.get("page"), 1);
+  const recordsPerPage = parsePageParam(searchParams.get("size"), DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS);
+
+  // Stock balances
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [stockLoading, setStockLoading] = useState(false);
+
+  // Movement history
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [totalMovements, setTotalMovements] = useState<number | null>(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [movementsLoading, setMovementsLoading] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  // Stock-in dialog
+  const today = new Date().toISOString().split("T")[0];
+  const emptyReceipt: StockReceiptCreate = {
+    date: today,
+    book_name: BOOK_NAMES[0],
+    quantity: 1,
+    received_from: "",
+    remarks: ""
+  };
+  const [isReceiptOpen, setIsReceiptOpen] = useState(false);
+  const [receiptData, setReceiptData] = useState<StockReceiptCreate>(emptyReceipt);
+  const [receiptErrors, setReceiptErrors] = useState<Record<string, string>>({});
+  const [receiptLoading, setReceiptLoading] = useState(false);
+  const [serverError, setServerError] = useState("");
+
+  // Threshold dialog
+  const [editingStock, setEditingStock] = useState<StockRow | null>(null);
+  const [thresholdValue, setThresholdValue] = useState("");
+  const [thresholdLoading, setThresholdLoading] = useState(false);
+
+  const stockRows = useMemo(() => toStockRows(balances), [balances]);
+  const lowStockRows = stockRows.filter(row => row.level === "low" || row.level === "out");
+  const totalInStock = stockRows.reduce((sum, row) => sum + Math.max(row.balance, 0), 0);
+
+  const loadStock = useCallback(async () => {
+    setStockLoading(true);
+    try {
+      setBalances(await inventoryApi.getStock());
+    } catch (error) {
+      console.error("Failed to fetch stock:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load stock balances");
+      }
+    } finally {
+      setStockLoading(false);
+    }
+  }, []);
+
+  const loadMovements = useCallback(async (page: number = currentPage) => {
+    setMovementsLoading(true);
+    try {
+      const result = await inventoryApi.getMovements({
+        skip: (page - 1) * recordsPerPage,
+        limit: recordsPerPage,
+        book_name: bookFilter === "all" ? undefined : bookFilter as BookName,
+        type: typeFilter === "all" ? undefined : typeFilter as StockMovementType
+      });
+
+      // Step back if the requested page no longer exists
+      const lastPage = getTotalPages(result.total, recordsPerPage, result.skip + result.items.length, result.hasMore);
+      if (result.items.length === 0 && page > lastPage) {
+        updateQuery({ page: lastPage > 1 ? lastPage : null }, { replace: true });
+        return;
+      }
+
+      setMovements(result.items);
+      setTotalMovements(result.total);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error("Failed to fetch stock movements:", error);
+      if (!(error instanceof ApiServiceError)) {
+        toast.error("Failed to load stock movements");
+      }
+      setMovements([]);
+    } finally {
+      setMovementsLoading(false);
+    }
+  }, [currentPage, recordsPerPage, bookFilter, typeFilter, updateQuery]);
+
+  useEffect(() => {
+    loadStock();
+  }, [loadStock]);
+
+  // Reload history whenever its filters or page in the URL change
+  useEffect(() => {
+    loadMovements();
+  }, [bookFilter, typeFilter, currentPage, recordsPerPage]);
+
+  const handleRefresh = useCallback(() => {
+    loadStock();
+    loadMovements();
+  }, [loadStock, loadMovements]);
+
+  const handleFilterChange = useCallback((key: "book" | "type", value: string) => {
+    updateQuery({ [key]: value === "all" ? null : value, page: null });
+  }, [updateQuery]);
+
+  const handlePageChange = useCallback((page: number) => {
+    updateQuery({ page: page > 1 ? page : null });
+  }, [updateQuery]);
+
+  const handleRecordsPerPageChange = useCallback((value: string) => {
+    const size = parseInt(value);
+    updateQuery({ size: size === DEFAULT_PAGE_SIZE ? null : size, page: null });
+  }, [updateQuery]);
+
+  const openReceipt = (bookName?: BookName) => {
+    setReceiptData({ ...emptyReceipt, book_name: bookName ?? BOOK_NAMES[0] });
+    setReceiptErrors({});
+    setServerError("");
+    setIsReceiptOpen(true);
+  };
+
+  const validateReceipt = (data: StockReceiptCreate) => {
+    const errors: Record<string, string> = {};
+    if (!data.date) errors.date = "Date is required";
+    if (!data.book_name) errors.book_name = "Book is required";
+    if (!Number.isInteger(data.quantity) || data.quantity <= 0) {
+      errors.quantity = "Quantity must be a whole number greater than 0";
+    }
+    if (!data.received_from.trim()) errors.received_from = "Source is required";
+    return errors;
+  };
+
+  const handleReceiptChange = <K extends keyof StockReceiptCreate>(field: K, value: StockReceiptCreate[K]) => {
+    setReceiptData(prev => ({ ...prev, [field]: value }));
+    if (receiptErrors[field]) {
+      setReceiptErrors(prev => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  const handleReceiptSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateReceipt(receiptData);
+    if (Object.keys(errors).length > 0) {
+      setReceiptErrors(errors);
+      return;
+    }
+
+    setReceiptLoading(true);
+    setServerError("");
+    try {
+      await inventoryApi.createReceipt({
+        ...receiptData,
+        received_from: receiptData.received_from.trim(),
+        remarks: receiptData.remarks?.trim() || undefined
+      });
+      setIsReceiptOpen(false);
+      handleRefresh();
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setReceiptLoading(false);
+    }
+  };
+
+  const openThreshold = (row: StockRow) => {
+    setEditingStock(row);
+    setThresholdValue(String(row.low_stock_threshold));
+  };
+
+  const handleThresholdSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editingStock) return;
+
+    const threshold = Number(thresholdValue);
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      toast.error("Threshold must be a whole number of 0 or more");
+      return;
+    }
+
+    setThresholdLoading(true);
+    try {
+      const updated = await inventoryApi.updateThreshold(editingStock.book_name, { low_stock_threshold: threshold });
+      setBalances(prev => {
+        const others = prev.filter(stock => stock.book_name !== updated.book_name);
+        return [...others, updated];
+      });
+      setEditingStock(null);
+    } catch (error) {
+      console.error("Failed to update threshold:", error);
+    } finally {
+      setThresholdLoading(false);
+    }
+  };
+
+  // Every movement for the applied book and type filters
+  const fetchAllForExport = () => apiUtils.fetchAllPages(page => inventoryApi.getMovements({
+    ...page,
+    book_name: bookFilter === "all" ? undefined : bookFilter as BookName,
+    type: typeFilter === "all" ? undefined : typeFilter as StockMovementType
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Inventory</h1>
+          <p className="text-muted-foreground">Book stock in the store room and its movement history</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleRefresh} disabled={stockLoading || movementsLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${stockLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          {can("inventory:create") && (
+            <Button onClick={() => openReceipt()} className="bg-primary hover:bg-primary/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Record Stock In
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                <Package className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Books in stock</p>
+                <p className="text-2xl font-bold text-foreground">{totalInStock}</p>
+                <p className="text-sm text-muted-foreground">across {stockRows.filter(row => row.level !== "untracked").length} titles</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-amber-600" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Low or out of stock</p>
+                <p className="text-2xl font-bold text-foreground">{lowStockRows.length}</p>
+                <p className="text-sm text-muted-foreground">titles at or below their threshold</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Stock balances */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Current Stock
+          </CardTitle>
+          <CardDescription>Balances update automatically as book seva is recorded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {stockLoading && balances.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-b border-border bg-muted/30">
+                    <TableHead className="font-medium text-muted-foreground">Book</TableHead>
+                    <TableHead className="font-medium text-muted-foreground">Balance</TableHead>
+                    <TableHead className="font-medium text-muted-foreground">Low-stock Threshold</TableHead>
+                    <TableHead className="font-medium text-muted-foreground">Status</TableHead>
+                    <TableHead className="font-medium text-muted-foreground">Last Movement</TableHead>
+                    <TableHead className="font-medium text-muted-foreground w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockRows.map((row) => (
+                    <TableRow key={row.book_name} className="border-b border-border hover:bg-muted/20">
+                      <TableCell className="font-medium capitalize">{row.book_name}</TableCell>
+                      <TableCell className="font-semibold">{row.balance}</TableCell>
+                      <TableCell>{row.low_stock_threshold}</TableCell>
+                      <TableCell>
+                        <Badge className={LEVEL_BADGE_CLASSES[row.level]}>
+                          {STOCK_LEVEL_LABELS[row.level]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(row.last_movement_at)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          {can("inventory:create") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openReceipt(row.book_name)}
+                              aria-label={`Record stock in for ${row.book_name}`}
+                              className="h-8 w-8 p-0 hover:bg-muted"
+                            >
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can("inventory:edit") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openThreshold(row)}
+                              aria-label={`Edit low-stock threshold for ${row.book_name}`}
+                              className="h-8 w-8 p-0 hover:bg-muted"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Movement history */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Stock Movements
+              </CardTitle>
+              <CardDescription>{totalMovements === null ? `${movements.length} movements on this page` : `${totalMovements} movements recorded`}</CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={bookFilter} onValueChange={(value) => handleFilterChange("book", value)}>
+                <SelectTrigger className="w-56 bg-card">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Books</SelectItem>
+                  {BOOK_NAMES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={(value) => handleFilterChange("type", value)}>
+                <SelectTrigger className="w-36 bg-card">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {MOVEMENT_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={recordsPerPage.toString()} onValueChange={handleRecordsPerPageChange}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZE_OPTIONS.map(size => (
+                    <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {can("inventory:export") && (
+                <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={movements.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {movementsLoading && movements.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : movements.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <CardTitle className="mb-2">No movements found</CardTitle>
+              <CardDescription>
+                Stock receipts and book seva distribution will appear here.
+              </CardDescription>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-b border-border bg-muted/30">
+                      <TableHead className="font-medium text-muted-foreground">Date</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Book</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Type</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Quantity</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Balance After</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Details</TableHead>
+                      <TableHead className="font-medium text-muted-foreground">Recorded By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {movements.map((movement) => (
+                      <TableRow key={movement.id} className="border-b border-border hover:bg-muted/20">
+                        <TableCell>{formatDate(movement.date)}</TableCell>
+                        <TableCell className="capitalize">{movement.book_name}</TableCell>
+                        <TableCell>
+                          <Badge variant={movement.type === "in" ? "default" : movement.type === "out" ? "secondary" : "outline"}>
+                            {MOVEMENT_TYPES.find(type => type.value === movement.type)?.label ?? movement.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className={`font-semibold ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                        </TableCell>
+                        <TableCell>{movement.balance_after}</TableCell>
+                        <TableCell className="max-w-xs truncate" title={movement.remarks}>
+                          {describeMovement(movement)}
+                        </TableCell>
+                        <TableCell>{movement.created_by || "N/A"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <TablePagination
+                currentPage={currentPage}
+                recordsPerPage={recordsPerPage}
+                total={totalMovements}
+                hasMore={hasMore}
+                pageCount={movements.length}
+                onPageChange={handlePageChange}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        entity="inventory"
+        columns={STOCK_MOVEMENT_COLUMNS}
+        loadedRecords={movements}
+        fetchAll={fetchAllForExport}
+        total={totalMovements}
+        filename="stock-movements-nds-kochi"
+        report={{
+          title: "Stock Movements",
+          filters: [
+            { label: "Book", value: bookFilter === "all" ? "All" : bookFilter },
+            { label: "Type", value: typeFilter === "all" ? "All" : typeFilter }
+          ]
+        }}
+      />
+
+      {/* Stock-in Dialog */}
+      <Dialog open={isReceiptOpen} onOpenChange={setIsReceiptOpen}>
+        <DialogContent className="max-w-lg bg-card">
+          <DialogHeader>
+            <DialogTitle>Record Stock In</DialogTitle>
+            <DialogDescription>Add books received into the store room.</DialogDescription>
+          </DialogHeader>
+
+          {serverError && (
+            <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+              {serverError}
+            </div>
+          )}
+
+          <form onSubmit={handleReceiptSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receipt_date">Date *</Label>
+                <Input
+                  id="receipt_date"
+                  type="date"
+                  value={receiptData.date}
+                  onChange={(e) => handleReceiptChange("date", e.target.value)}
+                  className={receiptErrors.date ? "border-destructive" : ""}
+                />
+                {receiptErrors.date && <p className="text-sm text-destructive">{receiptErrors.date}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt_quantity">Quantity *</Label>
+                <Input
+                  id="receipt_quantity"
+                  type="number"
+                  min="1"
+                  value={receiptData.quantity}
+                  onChange={(e) => handleReceiptChange("quantity", parseInt(e.target.value) || 0)}
+                  className={receiptErrors.quantity ? "border-destructive" : ""}
+                />
+                {receiptErrors.quantity && <p className="text-sm text-destructive">{receiptErrors.quantity}</p>}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="receipt_book">Book *</Label>
+                <Select
+                  value={receiptData.book_name}
+                  onValueChange={(value) => handleReceiptChange("book_name", value as BookName)}
+                >
+                  <SelectTrigger id="receipt_book">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOOK_NAMES.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="received_from">Received From *</Label>
+                <Input
+                  id="received_from"
+                  value={receiptData.received_from}
+                  onChange={(e) => handleReceiptChange("received_from", e.target.value)}
+                  placeholder="e.g. Ashram publication, Bangalore centre"
+                  className={receiptErrors.received_from ? "border-destructive" : ""}
+                />
+                {receiptErrors.received_from && <p className="text-sm text-destructive">{receiptErrors.received_from}</p>}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="receipt_remarks">Remarks</Label>
+                <Textarea
+                  id="receipt_remarks"
+                  value={receiptData.remarks}
+                  onChange={(e) => handleReceiptChange("remarks", e.target.value)}
+                  placeholder="Invoice number, carton count, etc."
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsReceiptOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={receiptLoading}>
+                {receiptLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Threshold Dialog */}
+      <Dialog open={!!editingStock} onOpenChange={(open) => !open && setEditingStock(null)}>
+        <DialogContent className="max-w-sm bg-card">
+          <DialogHeader>
+            <DialogTitle>Low-stock Threshold</DialogTitle>
+            <DialogDescription className="capitalize">{editingStock?.book_name}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleThresholdSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="threshold">Alert when balance is at or below</Label>
+              <Input
+                id="threshold"
+                type="number"
+                min="0"
+                value={thresholdValue}
+                onChange={(e) => setThresholdValue(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditingStock(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={thresholdLoading}>
+                {thresholdLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,28 +1,40 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { usePathname, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Menu, BookOpen, Phone, Receipt, BarChart3, LogOut, User, Sun, Moon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Menu, BookOpen, Phone, Receipt, HandCoins, Package, BarChart3, LogOut, User, Sun, Moon, CloudOff, RefreshCw, AlertTriangle, Trash2 } from "lucide-react";
 import { toast } from "sonner";
-import { authApi, fetchConstants, type User as ApiUser, ApiServiceError, apiUtils } from "@/lib/api";
+import { authApi, syncApi, ApiServiceError, apiUtils } from "@/lib/api";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useAuth } from "@/components/ProtectedRoute";
+import { useConstants } from "@/components/ConstantsProvider";
+import { ROLE_LABELS, type Module } from "@/lib/permissions";
+import { MODULE_ROUTES, moduleForPath } from "@/lib/routes";
 
 interface LayoutProps {
   children: React.ReactNode;
-  onNavigate: (view: "dashboard" | "book-seva" | "calling-seva" | "expenses") => void;
 }
 
-type ViewType = "dashboard" | "book-seva" | "calling-seva" | "expenses";
-
-export default function Layout({ children, onNavigate }: LayoutProps) {
-  const [currentUser, setCurrentUser] = useState<ApiUser | null>(null);
-  const [currentView, setCurrentView] = useState<ViewType>("dashboard");
+export default function Layout({ children }: LayoutProps) {
+  const { user: currentUser, role, can } = useAuth();
+  const router = useRouter();
+  const currentView = moduleForPath(usePathname());
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const { isOnline, pendingCount, failedCount, syncing, syncNow, retryFailed, discardFailed } = useOfflineQueue();
+  const { loading: constantsLoading, refresh: refreshConstants } = useConstants();
+
+  // Replay anything left in the offline queue from a previous session
+  useEffect(() => {
+    syncApi.syncNow().catch(error => console.error("Failed to sync offline queue:", error));
+  }, []);
 
   // Initialize theme
   useEffect(() => {
@@ -30,28 +42,14 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
     setIsDarkMode(isDark);
   }, []);
 
-  const fetchCurrentUser = useCallback(async () => {
-    try {
-      if (apiUtils.isAuthenticated()) {
-        const [user] = await Promise.all([
-          authApi.getCurrentUser(),
-          fetchConstants()
-        ]);
-        setCurrentUser(user);
-      }
-    } catch (error) {
-      console.error("Failed to fetch current user or constants:", error);
-      if (error instanceof ApiServiceError && error.status === 401) {
-        // User is not authenticated, this will be handled by the auth interceptor
-        setCurrentUser(null);
-      }
-    }
+  // Queue actions picked from the sync menu; storage errors are reported
+  const runQueueAction = useCallback((action: () => Promise<unknown>, failure: string) => {
+    action().catch(error => {
+      console.error("Failed to sync offline queue:", error);
+      toast.error(failure);
+    });
   }, []);
 
-  useEffect(() => {
-    fetchCurrentUser();
-  }, [fetchCurrentUser]);
-
   const toggleTheme = useCallback(() => {
     const newDarkMode = !isDarkMode;
     setIsDarkMode(newDarkMode);
@@ -65,11 +63,10 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
     }
   }, [isDarkMode]);
 
-  const handleNavigation = useCallback((view: ViewType) => {
-    setCurrentView(view);
-    onNavigate(view);
+  const handleNavigation = useCallback((view: Module) => {
+    router.push(MODULE_ROUTES[view]);
     setIsSheetOpen(false);
-  }, [onNavigate]);
+  }, [router]);
 
   const handleLogout = useCallback(async () => {
     setLoggingOut(true);
@@ -106,33 +103,48 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
     return 'U';
   }, []);
 
-  const navigationItems = [
+  const allNavigationItems = [
     {
-      key: "dashboard" as ViewType,
+      key: "dashboard" as Module,
       label: "Dashboard",
       icon: BarChart3,
       description: "Overview and analytics"
     },
     {
-      key: "book-seva" as ViewType,
+      key: "book-seva" as Module,
       label: "Book Seva",
       icon: BookOpen,
       description: "Book distribution records"
     },
     {
-      key: "calling-seva" as ViewType,
+      key: "calling-seva" as Module,
       label: "Calling Seva",
       icon: Phone,
       description: "Calling seva management"
     },
     {
-      key: "expenses" as ViewType,
+      key: "expenses" as Module,
       label: "Expenses",
       icon: Receipt,
       description: "Expense tracking"
+    },
+    {
+      key: "income" as Module,
+      label: "Income",
+      icon: HandCoins,
+      description: "Donations and cash book"
+    },
+    {
+      key: "inventory" as Module,
+      label: "Inventory",
+      icon: Package,
+      description: "Book stock and movements"
     }
   ];
 
+  // Only show modules the current role may open
+  const navigationItems = allNavigationItems.filter(item => can(`${item.key}:view`));
+
   const NavigationContent = ({ isMobile = false }: { isMobile?: boolean }) => (
     <nav className={`space-y-2 ${isMobile ? 'p-4' : 'p-6'}`}>
       {navigationItems.map((item) => {
@@ -210,6 +222,59 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
 
           {/* User Menu */}
           <div className="flex items-center gap-3">
+            {(!isOnline || pendingCount > 0 || failedCount > 0) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="px-2" aria-label="Offline sync status">
+                    {failedCount > 0 ? (
+                      <Badge variant="destructive">
+                        <AlertTriangle />
+                        {failedCount} failed
+                      </Badge>
+                    ) : pendingCount > 0 ? (
+                      <Badge className="bg-amber-50 text-amber-700 border border-amber-200">
+                        {syncing ? <RefreshCw className="animate-spin" /> : <CloudOff />}
+                        {pendingCount} pending sync
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        <CloudOff />
+                        Offline
+                      </Badge>
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  <div className="px-2 py-1.5">
+                    <div className="text-sm font-medium text-foreground">
+                      {isOnline ? "Online" : "Offline"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {pendingCount} change{pendingCount === 1 ? "" : "s"} waiting to sync
+                      {failedCount > 0 && `, ${failedCount} failed`}
+                    </div>
+                  </div>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => runQueueAction(syncNow, "Failed to sync offline changes")} disabled={!isOnline || syncing || pendingCount === 0}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    {syncing ? "Syncing..." : "Sync now"}
+                  </DropdownMenuItem>
+                  {failedCount > 0 && (
+                    <>
+                      <DropdownMenuItem onClick={() => runQueueAction(retryFailed, "Failed to retry offline changes")} disabled={!isOnline || syncing}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Retry failed changes
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => runQueueAction(discardFailed, "Failed to discard offline changes")} className="text-destructive">
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Discard failed changes
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
             <Button
               variant="ghost"
               size="sm"
@@ -249,6 +314,9 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
                   <div className="text-xs text-muted-foreground">
                     {currentUser?.email || "Loading..."}
                   </div>
+                  <Badge variant="secondary" className="mt-1">
+                    {ROLE_LABELS[role]}
+                  </Badge>
                 </div>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem className="sm:hidden" onClick={toggleTheme}>
@@ -264,6 +332,10 @@ export default function Layout({ children, onNavigate }: LayoutProps) {
                     </>
                   )}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => refreshConstants()} disabled={!isOnline || constantsLoading}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${constantsLoading ? "animate-spin" : ""}`} />
+                  {constantsLoading ? "Refreshing lists..." : "Refresh Lists"}
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleLogout} disabled={loggingOut}>
                   <LogOut className="mr-2 h-4 w-4" />
                   {loggingOut ? "Logging out..." : "Logout"}
@@ -1,17 +1,17 @@
 "use client";
 
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
-
-interface User {
-  email: string;
-  name: string;
-}
+import type { User } from "@/lib/api";
+import { getPermissions, normalizeRole, type Permission, type UserRole } from "@/lib/permissions";
+import { LOGIN_ROUTE } from "@/lib/routes";
 
 interface AuthContextValue {
   user: User | null;
+  role: UserRole;
+  can: (permission: Permission) => boolean;
   doRequest: <T = any>(
     url: string,
     options?: RequestInit
@@ -37,11 +37,17 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
 
+  // Send the user to login, remembering where they were going
+  const redirectToLogin = () => {
+    const next = `${window.location.pathname}${window.location.search}`;
+    router.push(`${LOGIN_ROUTE}?next=${encodeURIComponent(next)}`);
+  };
+
   const clearTokenAndRedirect = () => {
     if (typeof window !== "undefined") {
       localStorage.removeItem("access_token");
       toast.error("Session expired");
-      router.push("/");
+      redirectToLogin();
 
       setTimeout(() => {
         const firstInput = document.querySelector('input[type="email"], input[type="text"]') as HTMLInputElement;
@@ -107,7 +113,7 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
       const token = localStorage.getItem("access_token");
 
       if (!token) {
-        router.push("/");
+        redirectToLogin();
         return;
       }
 
@@ -132,6 +138,10 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
     initializeAuth();
   }, [router]);
 
+  const permissions = useMemo(() => getPermissions(user), [user]);
+  const role = normalizeRole(user?.role);
+  const can = (permission: Permission) => permissions.has(permission);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -148,7 +158,7 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, doRequest }}>
+    <AuthContext.Provider value={{ user, role, can, doRequest }}>
       {children}
     </AuthContext.Provider>
   );
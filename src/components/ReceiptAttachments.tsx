@@ -0,0 +1,190 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Camera, FileText, Loader2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import type { ExpenseAttachment } from "@/lib/api";
+import { RECEIPT_ACCEPT, formatFileSize, prepareReceipt } from "@/lib/imageCompression";
+import type { ReceiptPreviewItem } from "@/components/ReceiptPreviewDialog";
+
+// A receipt picked in the form, uploaded once the expense is saved
+export interface PendingReceipt {
+  id: string;
+  blob: Blob;
+  fileName: string;
+  previewUrl: string;
+}
+
+let nextPendingId = 0;
+
+const isPdfType = (contentType: string) => contentType === "application/pdf";
+
+export const attachmentPreviewItem = (attachment: ExpenseAttachment): ReceiptPreviewItem => ({
+  key: attachment.id,
+  name: attachment.file_name,
+  url: attachment.url,
+  isPdf: isPdfType(attachment.content_type),
+});
+
+export const pendingPreviewItem = (receipt: PendingReceipt): ReceiptPreviewItem => ({
+  key: receipt.id,
+  name: receipt.fileName,
+  url: receipt.previewUrl,
+  isPdf: isPdfType(receipt.blob.type),
+});
+
+export const revokePendingReceipts = (receipts: PendingReceipt[]) => {
+  receipts.forEach(receipt => URL.revokeObjectURL(receipt.previewUrl));
+};
+
+interface ReceiptAttachmentsProps {
+  // Saved receipts, minus any marked for removal
+  attachments: ExpenseAttachment[];
+  pending: PendingReceipt[];
+  onAddPending: (receipts: PendingReceipt[]) => void;
+  onRemoveAttachment: (attachment: ExpenseAttachment) => void;
+  onRemovePending: (receipt: PendingReceipt) => void;
+  onPreview: (items: ReceiptPreviewItem[], index: number) => void;
+  // Saved receipts can only be changed online. Files picked for a new
+  // expense are kept until it syncs, so those can be added offline.
+  isOnline: boolean;
+  allowOffline?: boolean;
+  disabled?: boolean;
+}
+
+// Receipts field of the expense form: file upload, phone camera capture and
+// thumbnails of what is attached
+export default function ReceiptAttachments({
+  attachments,
+  pending,
+  onAddPending,
+  onRemoveAttachment,
+  onRemovePending,
+  onPreview,
+  isOnline,
+  allowOffline = false,
+  disabled = false,
+}: ReceiptAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const previewItems = [...attachments.map(attachmentPreviewItem), ...pending.map(pendingPreviewItem)];
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setProcessing(true);
+    const added: PendingReceipt[] = [];
+    for (const file of files) {
+      try {
+        const { blob, fileName } = await prepareReceipt(file);
+        added.push({ id: `receipt-${nextPendingId++}`, blob, fileName, previewUrl: URL.createObjectURL(blob) });
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Could not add ${file.name}`);
+      }
+    }
+    setProcessing(false);
+    if (added.length > 0) onAddPending(added);
+  };
+
+  const pickDisabled = disabled || processing || (!isOnline && !allowOffline);
+
+  const renderThumbnail = (item: ReceiptPreviewItem, index: number, size: number, onRemove: () => void, removeDisabled: boolean) => (
+    <div key={item.key} className="relative">
+      <button
+        type="button"
+        onClick={() => onPreview(previewItems, index)}
+        className="flex h-20 w-20 items-center justify-center overflow-hidden rounded-md border bg-muted hover:ring-2 hover:ring-primary"
+        aria-label={`View ${item.name}`}
+        title={`${item.name} (${formatFileSize(size)})`}
+      >
+        {item.isPdf ? (
+          <FileText className="h-8 w-8 text-muted-foreground" />
+        ) : (
+          <img src={item.url} alt={item.name} className="h-full w-full object-cover" />
+        )}
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={removeDisabled}
+        className="absolute -right-2 -top-2 flex h-5 w-5 items-center justify-center rounded-full bg-destructive text-destructive-foreground shadow"
+        aria-label={`Remove ${item.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Receipts</Label>
+
+      {previewItems.length > 0 && (
+        <div className="flex flex-wrap gap-3 pt-1">
+          {attachments.map((attachment, index) =>
+            renderThumbnail(
+              { ...attachmentPreviewItem(attachment), url: attachment.thumbnail_url || attachment.url },
+              index,
+              attachment.size,
+              () => onRemoveAttachment(attachment),
+              disabled || !isOnline
+            )
+          )}
+          {pending.map((receipt, index) =>
+            renderThumbnail(pendingPreviewItem(receipt), attachments.length + index, receipt.blob.size, () => onRemovePending(receipt), disabled)
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={pickDisabled}>
+          {processing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+          Upload file
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => cameraInputRef.current?.click()} disabled={pickDisabled}>
+          <Camera className="w-4 h-4 mr-2" />
+          Take photo
+        </Button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={RECEIPT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          // Copy before clearing, so picking the same file again still fires
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          handleFiles(files);
+        }}
+      />
+      {/* capture opens the rear camera on phones; desktops fall back to a file picker */}
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          handleFiles(files);
+        }}
+      />
+
+      <p className="text-xs text-muted-foreground">
+        {isOnline
+          ? "Images or PDFs. Photos are compressed before upload."
+          : allowOffline
+            ? "Receipts will upload once the expense has synced."
+            : "Receipts can be attached when you are back online."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+
+export interface ReceiptPreviewItem {
+  key: string;
+  name: string;
+  url: string;
+  isPdf: boolean;
+}
+
+interface ReceiptPreviewDialogProps {
+  items: ReceiptPreviewItem[];
+  // Index of the receipt to show; null when closed
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+}
+
+// Full-screen viewer for an expense's receipts, with arrow-key paging
+export default function ReceiptPreviewDialog({ items, index, onIndexChange }: ReceiptPreviewDialogProps) {
+  const [zoomed, setZoomed] = useState(false);
+  const open = index !== null && index < items.length;
+  const item = open ? items[index] : null;
+
+  useEffect(() => {
+    setZoomed(false);
+  }, [index]);
+
+  const step = (delta: number) => {
+    if (index === null || items.length < 2) return;
+    onIndexChange((index + delta + items.length) % items.length);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onIndexChange(null)}>
+      <DialogContent
+        className="max-w-[95vw] w-[95vw] h-[95vh] flex flex-col gap-3 p-4"
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft") step(-1);
+          if (e.key === "ArrowRight") step(1);
+        }}
+      >
+        <DialogHeader className="pr-8">
+          <DialogTitle className="truncate">{item?.name}</DialogTitle>
+          <DialogDescription>
+            {items.length > 1 ? `Receipt ${(index ?? 0) + 1} of ${items.length}` : "Receipt"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`relative flex-1 min-h-0 rounded-md bg-muted ${zoomed ? "overflow-auto" : "flex items-center justify-center overflow-hidden"}`}>
+          {item && (item.isPdf ? (
+            <iframe src={item.url} title={item.name} className="h-full w-full rounded-md bg-white" />
+          ) : (
+            <img
+              src={item.url}
+              alt={item.name}
+              onClick={() => setZoomed(z => !z)}
+              className={zoomed ? "max-w-none cursor-zoom-out" : "max-h-full max-w-full object-contain cursor-zoom-in"}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={item?.url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open in new tab
+            </a>
+          </Button>
+          {items.length > 1 && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous receipt">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next receipt">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
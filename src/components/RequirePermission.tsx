@@ -0,0 +1,33 @@
+"use client";
+
+import { ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardTitle } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import { useAuth } from "@/components/ProtectedRoute";
+import type { Permission } from "@/lib/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+// Renders children only when the current user holds `permission`
+export default function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { can } = useAuth();
+
+  if (!can(permission)) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <CardTitle className="mb-2">Access restricted</CardTitle>
+          <CardDescription>
+            Your role does not have access to this section. Please contact an admin if you need it.
+          </CardDescription>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import type { QueuedMutation } from "@/lib/offlineQueue";
+
+interface SyncStatusBadgeProps {
+  mutation?: QueuedMutation;
+}
+
+// Per-row indicator for records with changes waiting in the offline queue.
+export default function SyncStatusBadge({ mutation }: SyncStatusBadgeProps) {
+  if (!mutation) return null;
+
+  if (mutation.state === "failed") {
+    return (
+      <Badge variant="destructive" title={mutation.lastError}>
+        <AlertTriangle />
+        Sync failed
+      </Badge>
+    );
+  }
+
+  if (mutation.state === "syncing") {
+    return (
+      <Badge className="bg-blue-50 text-blue-700 border border-blue-200">
+        <RefreshCw className="animate-spin" />
+        Syncing
+      </Badge>
+    );
+  }
+
+  const label = mutation.method === "DELETE"
+    ? "Pending delete"
+    : mutation.method === "POST"
+      ? "Pending sync"
+      : "Pending update";
+
+  return (
+    <Badge className="bg-amber-50 text-amber-700 border border-amber-200">
+      <CloudOff />
+      {label}
+    </Badge>
+  );
+}
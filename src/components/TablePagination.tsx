@@ -0,0 +1,111 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from "lucide-react";
+
+interface TablePaginationProps {
+  currentPage: number;
+  recordsPerPage: number;
+  // null when the server doesn't report a count
+  total: number | null;
+  // Number of items actually on the current page
+  pageCount: number;
+  // Whether there are items after this page, for an unknown total
+  hasMore?: boolean;
+  onPageChange: (page: number) => void;
+}
+
+// Pages known to exist. Without a total, that's the pages seen so far
+// (up to `shownUpTo` items), plus the next one while there are more.
+export const getTotalPages = (total: number | null, recordsPerPage: number, shownUpTo = 0, hasMore = false) =>
+  total === null
+    ? Math.max(1, Math.ceil(shownUpTo / recordsPerPage) + (hasMore ? 1 : 0))
+    : Math.max(1, Math.ceil(total / recordsPerPage));
+
+export default function TablePagination({
+  currentPage,
+  recordsPerPage,
+  total,
+  pageCount,
+  hasMore = false,
+  onPageChange,
+}: TablePaginationProps) {
+  const firstShown = pageCount > 0 ? (currentPage - 1) * recordsPerPage + 1 : 0;
+  const lastShown = pageCount > 0 ? firstShown + pageCount - 1 : 0;
+  const totalPages = getTotalPages(total, recordsPerPage, Math.max(lastShown, (currentPage - 1) * recordsPerPage), hasMore);
+  const totalKnown = total !== null || !hasMore;
+
+  // Window of up to 5 page buttons, kept full near the last page
+  const windowSize = Math.min(5, totalPages);
+  const windowStart = Math.max(1, Math.min(currentPage - 2, totalPages - windowSize + 1));
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-2 mt-4">
+      <div className="text-sm text-muted-foreground">
+        {totalKnown
+          ? `Showing ${firstShown}–${lastShown} of ${total ?? lastShown} · Page ${currentPage} of ${totalPages}`
+          : `Showing ${firstShown}–${lastShown} of more · Page ${currentPage}`}
+      </div>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(1)}
+          disabled={currentPage <= 1}
+          aria-label="First page"
+        >
+          <ChevronsLeft className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(currentPage - 1)}
+          disabled={currentPage <= 1}
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Previous
+        </Button>
+
+        {/* Page numbers */}
+        {totalPages > 1 && (
+          <div className="flex items-center space-x-1">
+            {Array.from({ length: windowSize }, (_, i) => {
+              const pageNum = windowStart + i;
+
+              return (
+                <Button
+                  key={pageNum}
+                  variant={pageNum === currentPage ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => onPageChange(pageNum)}
+                  className="w-8 h-8 p-0"
+                >
+                  {pageNum}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(currentPage + 1)}
+          disabled={currentPage >= totalPages}
+        >
+          Next
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(totalPages)}
+          disabled={currentPage >= totalPages || !totalKnown}
+          aria-label="Last page"
+        >
+          <ChevronsRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,495 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Check, Loader2, Play, Plus, SkipForward, Trash2, Users } from "lucide-react";
+import { IconBrandWhatsapp } from "@tabler/icons-react";
+import { callingSevaApi, templatesApi, apiUtils, BOOK_NAMES, type CallingSevaRead } from "@/lib/api";
+import { useConstants } from "@/components/ConstantsProvider";
+import { useWhatsAppTemplates } from "@/hooks/use-whatsapp-templates";
+import { getPlaceholders, getTemplateValues, renderTemplate } from "@/lib/templates";
+import {
+  deleteCampaign,
+  getCampaignProgress,
+  getNextRecipientIndex,
+  loadCampaigns,
+  saveCampaign,
+  setRecipientState,
+  uniqueRecipients,
+  type Campaign,
+  type CampaignRecipient,
+  type CampaignSegment,
+  type RecipientState
+} from "@/lib/campaigns";
+
+interface WhatsAppCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Opens WhatsApp for one recipient; returns false if it couldn't
+  onSend: (recipient: Pick<CallingSevaRead, "id" | "mobile_no">, message: string) => boolean;
+}
+
+type Step = "list" | "segment" | "template" | "send";
+
+const ALL_BHAGATS = "all";
+
+const STATE_BADGES: Record<RecipientState, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  sent: "bg-green-100 text-green-800",
+  skipped: "bg-amber-100 text-amber-800"
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-IN", { day: "2-digit", month: "short", hour: "numeric", minute: "2-digit" });
+
+// Guided bulk outreach: choose a segment and a template, then open WhatsApp
+// for each recipient in turn and mark them sent or skipped
+export default function WhatsAppCampaignDialog({ open, onOpenChange, onSend }: WhatsAppCampaignDialogProps) {
+  const { statusOptions, bhagatNames } = useConstants();
+  const { templates, patchTemplate } = useWhatsAppTemplates();
+
+  const [step, setStep] = useState<Step>("list");
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // Segment step
+  const [segment, setSegment] = useState<CampaignSegment>({ status: "" });
+  const [recipients, setRecipients] = useState<CampaignRecipient[] | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Template step
+  const [campaignName, setCampaignName] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [book, setBook] = useState<string>(BOOK_NAMES[0]);
+
+  // Send step
+  const [opened, setOpened] = useState(false);
+
+  const campaign = campaigns.find(c => c.id === activeId) || null;
+
+  useEffect(() => {
+    if (!open) return;
+    const stored = loadCampaigns();
+    setCampaigns(stored);
+    setActiveId(null);
+    setStep(stored.length > 0 ? "list" : "segment");
+  }, [open]);
+
+  const startNew = () => {
+    setSegment({ status: statusOptions[0] || "" });
+    setRecipients(null);
+    setErrors({});
+    setCampaignName("");
+    setTemplateId("");
+    setBook(BOOK_NAMES[0]);
+    setStep("segment");
+  };
+
+  const handleSegmentChange = (changes: Partial<CampaignSegment>) => {
+    setSegment(prev => ({ ...prev, ...changes }));
+    // The recipient count no longer matches
+    setRecipients(null);
+    setErrors({});
+  };
+
+  const findRecipients = async () => {
+    if (!segment.status) {
+      setErrors({ status: "Status is required" });
+      return;
+    }
+    if (segment.from_date && segment.to_date && segment.from_date > segment.to_date) {
+      setErrors({ to_date: "To date must be on or after from date" });
+      return;
+    }
+
+    setFetching(true);
+    try {
+      const records = await apiUtils.fetchAllPages(params => callingSevaApi.getAll({ ...segment, ...params }));
+      setRecipients(uniqueRecipients(records));
+    } catch (error) {
+      console.error("Error fetching campaign recipients:", error);
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const template = templates.find(t => t.id === templateId);
+  const needsBook = template ? getPlaceholders(template.body).includes("book") : false;
+
+  const createCampaign = () => {
+    if (!template || !recipients) return;
+    const now = Date.now();
+    const created: Campaign = {
+      id: `campaign-${now.toString(36)}`,
+      name: campaignName.trim() || `${template.name} – ${new Date(now).toLocaleDateString("en-IN", { day: "2-digit", month: "short" })}`,
+      segment,
+      templateId: template.id,
+      templateBody: template.body,
+      book: needsBook ? book : undefined,
+      recipients,
+      createdAt: now,
+      updatedAt: now
+    };
+    setCampaigns(saveCampaign(created));
+    resume(created.id);
+  };
+
+  const resume = (id: string) => {
+    setActiveId(id);
+    setOpened(false);
+    setStep("send");
+  };
+
+  const removeCampaign = (target: Campaign) => {
+    if (!confirm(`Delete the campaign "${target.name}" and its log?`)) return;
+    setCampaigns(deleteCampaign(target.id));
+  };
+
+  const currentIndex = campaign ? getNextRecipientIndex(campaign) : -1;
+  const current = campaign && currentIndex >= 0 ? campaign.recipients[currentIndex] : null;
+  const progress = campaign ? getCampaignProgress(campaign) : null;
+
+  const message = useMemo(
+    () => (campaign && current
+      ? renderTemplate(campaign.templateBody, getTemplateValues(current, { book: campaign.book }))
+      : ""),
+    [campaign, current]
+  );
+
+  const updateRecipient = (index: number, state: RecipientState) => {
+    if (!campaign) return;
+    setCampaigns(saveCampaign(setRecipientState(campaign, index, state)));
+    setOpened(false);
+  };
+
+  const openWhatsApp = () => {
+    if (!current) return;
+    if (onSend(current, message)) setOpened(true);
+  };
+
+  const markSent = () => {
+    if (!campaign || currentIndex < 0) return;
+    updateRecipient(currentIndex, "sent");
+    templatesApi.recordUse(campaign.templateId)
+      .then(patchTemplate)
+      .catch(error => console.error("Failed to record template use:", error));
+    if (progress && progress.pending === 1) toast.success(`Campaign "${campaign.name}" complete`);
+  };
+
+  const renderSegmentSummary = (value: CampaignSegment) => [
+    capitalize(value.status),
+    value.assigned_bhagat_name ? capitalize(value.assigned_bhagat_name) : "All bhagats",
+    value.from_date || value.to_date ? `${value.from_date || "…"} to ${value.to_date || "…"}` : null
+  ].filter(Boolean).join(" · ");
+
+  const titles: Record<Step, string> = {
+    list: "WhatsApp Campaigns",
+    segment: "New Campaign: Recipients",
+    template: "New Campaign: Message",
+    send: campaign?.name || "Campaign"
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{titles[step]}</DialogTitle>
+          <DialogDescription>
+            {step === "list" && "Resume a campaign or start a new one. Progress is saved on this device."}
+            {step === "segment" && "Choose who should receive the message."}
+            {step === "template" && "Choose the template to send. Placeholders are filled in per contact."}
+            {step === "send" && campaign && renderSegmentSummary(campaign.segment)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "list" && (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={startNew}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Campaign
+              </Button>
+            </div>
+            {campaigns.map(c => {
+              const cp = getCampaignProgress(c);
+              return (
+                <div key={c.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{c.name}</p>
+                      <p className="text-sm text-muted-foreground">{renderSegmentSummary(c.segment)}</p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="outline" onClick={() => resume(c.id)}>
+                        {cp.pending > 0 ? (
+                          <>
+                            <Play className="w-4 h-4 mr-1" />
+                            Resume
+                          </>
+                        ) : "View log"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => removeCampaign(c)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={cp.total ? ((cp.sent + cp.skipped) / cp.total) * 100 : 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {cp.sent} sent · {cp.skipped} skipped · {cp.pending} left · updated {formatTime(c.updatedAt)}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === "segment" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign_status">Status *</Label>
+                <Select value={segment.status} onValueChange={(value) => handleSegmentChange({ status: value })}>
+                  <SelectTrigger id="campaign_status" className={errors.status ? "border-destructive" : ""}>
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusOptions.map(status => (
+                      <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.status && <p className="text-sm text-destructive">{errors.status}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="campaign_bhagat">Assigned Bhagat</Label>
+                <Select
+                  value={segment.assigned_bhagat_name || ALL_BHAGATS}
+                  onValueChange={(value) => handleSegmentChange({ assigned_bhagat_name: value === ALL_BHAGATS ? undefined : value })}
+                >
+                  <SelectTrigger id="campaign_bhagat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_BHAGATS}>All bhagats</SelectItem>
+                    {bhagatNames.map(name => (
+                      <SelectItem key={name} value={name}>{capitalize(name)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="campaign_from">From Date</Label>
+                <Input
+                  id="campaign_from"
+                  type="date"
+                  value={segment.from_date || ""}
+                  onChange={(e) => handleSegmentChange({ from_date: e.target.value || undefined })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="campaign_to">To Date</Label>
+                <Input
+                  id="campaign_to"
+                  type="date"
+                  value={segment.to_date || ""}
+                  onChange={(e) => handleSegmentChange({ to_date: e.target.value || undefined })}
+                  className={errors.to_date ? "border-destructive" : ""}
+                />
+                {errors.to_date && <p className="text-sm text-destructive">{errors.to_date}</p>}
+              </div>
+            </div>
+
+            {recipients && (
+              <div className="bg-muted rounded-md px-3 py-2 text-sm flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                {recipients.length === 0
+                  ? "No contacts with a mobile number match this segment."
+                  : `${recipients.length} contact${recipients.length === 1 ? "" : "s"} will be messaged.`}
+              </div>
+            )}
+
+            <div className="flex justify-between pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => (campaigns.length > 0 ? setStep("list") : onOpenChange(false))}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {campaigns.length > 0 ? "Back" : "Cancel"}
+              </Button>
+              {recipients && recipients.length > 0 ? (
+                <Button onClick={() => setStep("template")}>Next</Button>
+              ) : (
+                <Button onClick={findRecipients} disabled={fetching}>
+                  {fetching ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Finding contacts...
+                    </>
+                  ) : "Find Contacts"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "template" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign_name">Campaign Name</Label>
+              <Input
+                id="campaign_name"
+                value={campaignName}
+                onChange={(e) => setCampaignName(e.target.value)}
+                placeholder="e.g. Satsang invitation"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign_template">Template *</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="campaign_template">
+                  <SelectValue placeholder={templates.length > 0 ? "Select template" : "No templates yet"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(t => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name} ({capitalize(t.language)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {needsBook && (
+              <div className="space-y-2">
+                <Label htmlFor="campaign_book">Book</Label>
+                <Select value={book} onValueChange={setBook}>
+                  <SelectTrigger id="campaign_book">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOOK_NAMES.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {template && recipients && recipients[0] && (
+              <div className="space-y-2">
+                <Label>Preview for the first contact</Label>
+                <div className="bg-muted rounded-md px-3 py-2 text-sm whitespace-pre-wrap">
+                  {renderTemplate(template.body, getTemplateValues(recipients[0], { book }))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setStep("segment")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={createCampaign} disabled={!template}>
+                Start Campaign
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "send" && campaign && progress && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Progress value={progress.total ? ((progress.sent + progress.skipped) / progress.total) * 100 : 100} />
+              <p className="text-sm text-muted-foreground">
+                {progress.sent + progress.skipped} of {progress.total} done · {progress.sent} sent · {progress.skipped} skipped
+              </p>
+            </div>
+
+            {current ? (
+              <div className="border rounded-md p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{current.name || current.mobile_no}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {current.name ? `${current.mobile_no} · ` : ""}{capitalize(current.assigned_bhagat_name || "")}
+                    </p>
+                  </div>
+                  <span className="text-sm text-muted-foreground">#{currentIndex + 1}</span>
+                </div>
+                <div className="bg-muted rounded-md px-3 py-2 text-sm whitespace-pre-wrap">{message}</div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="outline" onClick={() => updateRecipient(currentIndex, "skipped")}>
+                    <SkipForward className="w-4 h-4 mr-2" />
+                    Skip
+                  </Button>
+                  <Button variant={opened ? "outline" : "default"} onClick={openWhatsApp}>
+                    <IconBrandWhatsapp className="w-4 h-4 mr-2" />
+                    {opened ? "Open Again" : "Open WhatsApp"}
+                  </Button>
+                  <Button onClick={markSent} disabled={!opened} className="bg-green-600 hover:bg-green-700 text-white">
+                    <Check className="w-4 h-4 mr-2" />
+                    Mark Sent
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-center text-muted-foreground py-4">
+                Everyone in this campaign has been messaged or skipped.
+              </p>
+            )}
+
+            {/* Campaign log */}
+            <div className="space-y-2">
+              <Label>Log</Label>
+              <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                {campaign.recipients.map((recipient, index) => (
+                  <div key={`${recipient.id}-${index}`} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <span className="truncate">{recipient.name || recipient.mobile_no}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {recipient.updatedAt && (
+                        <span className="text-xs text-muted-foreground">{formatTime(recipient.updatedAt)}</span>
+                      )}
+                      <Badge className={STATE_BADGES[recipient.state]}>{capitalize(recipient.state)}</Badge>
+                      {recipient.state === "skipped" && (
+                        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => updateRecipient(index, "pending")}>
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-start pt-2">
+              <Button type="button" variant="ghost" onClick={() => setStep("list")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                All Campaigns
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
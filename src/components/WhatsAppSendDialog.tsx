@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { IconBrandWhatsapp } from "@tabler/icons-react";
+import { templatesApi, BOOK_NAMES, type CallingSevaRead } from "@/lib/api";
+import { useWhatsAppTemplates } from "@/hooks/use-whatsapp-templates";
+import { getPlaceholders, getTemplateValues, renderTemplate } from "@/lib/templates";
+
+interface WhatsAppSendDialogProps {
+  // Contact to message; null closes the dialog
+  record: CallingSevaRead | null;
+  onOpenChange: (open: boolean) => void;
+  // Opens WhatsApp with the final text; returns false if it couldn't
+  onSend: (record: CallingSevaRead, message: string) => boolean;
+}
+
+// Picker values other than template ids
+const SAVED_MESSAGE = "saved";
+const CUSTOM_MESSAGE = "custom";
+
+// Picks a template (or the record's saved message), fills in the contact's
+// details and lets the caller tweak the text before WhatsApp opens
+export default function WhatsAppSendDialog({ record, onOpenChange, onSend }: WhatsAppSendDialogProps) {
+  const { templates, patchTemplate } = useWhatsAppTemplates();
+  const [selected, setSelected] = useState(CUSTOM_MESSAGE);
+  const [book, setBook] = useState<string>(BOOK_NAMES[0]);
+  const [message, setMessage] = useState("");
+
+  const template = templates.find(t => t.id === selected);
+  const needsBook = template ? getPlaceholders(template.body).includes("book") : false;
+
+  const applySelection = (value: string, bookName = book) => {
+    setSelected(value);
+    if (!record) return;
+    const chosen = templates.find(t => t.id === value);
+    if (chosen) {
+      setMessage(renderTemplate(chosen.body, getTemplateValues(record, { book: bookName })));
+    } else if (value === SAVED_MESSAGE) {
+      setMessage(record.wa_message || "");
+    } else {
+      setMessage("");
+    }
+  };
+
+  // Start from the record's saved message when there is one
+  useEffect(() => {
+    if (!record) return;
+    setBook(BOOK_NAMES[0]);
+    applySelection(record.wa_message ? SAVED_MESSAGE : CUSTOM_MESSAGE, BOOK_NAMES[0]);
+  }, [record]);
+
+  const handleBookChange = (value: string) => {
+    setBook(value);
+    applySelection(selected, value);
+  };
+
+  const handleSend = () => {
+    if (!record || !onSend(record, message)) return;
+
+    if (template) {
+      templatesApi.recordUse(template.id)
+        .then(patchTemplate)
+        .catch(error => console.error("Failed to record template use:", error));
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!record} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send WhatsApp Message</DialogTitle>
+          <DialogDescription>
+            {record ? `To ${record.name || record.mobile_no}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="wa_template">Template</Label>
+            <Select value={selected} onValueChange={(value) => applySelection(value)}>
+              <SelectTrigger id="wa_template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {record?.wa_message && <SelectItem value={SAVED_MESSAGE}>Saved message</SelectItem>}
+                <SelectItem value={CUSTOM_MESSAGE}>Write my own</SelectItem>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name} ({t.language.charAt(0).toUpperCase() + t.language.slice(1)}) · used {t.usage_count}×
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {needsBook && (
+            <div className="space-y-2">
+              <Label htmlFor="wa_book">Book</Label>
+              <Select value={book} onValueChange={handleBookChange}>
+                <SelectTrigger id="wa_book">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOOK_NAMES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="wa_text">Message</Label>
+            <Textarea
+              id="wa_text"
+              rows={6}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Type a message"
+            />
+            <p className="text-sm text-muted-foreground">
+              Review the text before sending; anything in {"{braces}"} could not be filled in.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSend} className="bg-green-600 hover:bg-green-700 text-white">
+            <IconBrandWhatsapp className="w-4 h-4 mr-2" />
+            Open WhatsApp
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
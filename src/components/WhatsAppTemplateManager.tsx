@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { templatesApi, ApiServiceError, apiUtils, type WhatsAppTemplate, type WhatsAppTemplateCreate } from "@/lib/api";
+import { useWhatsAppTemplates } from "@/hooks/use-whatsapp-templates";
+import {
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_PLACEHOLDERS,
+  SAMPLE_TEMPLATE_VALUES,
+  getPlaceholders,
+  renderTemplate
+} from "@/lib/templates";
+
+interface WhatsAppTemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KNOWN_PLACEHOLDERS = TEMPLATE_PLACEHOLDERS.map(p => p.key);
+
+const emptyTemplate = (): WhatsAppTemplateCreate => ({ name: "", language: TEMPLATE_LANGUAGES[0], body: "" });
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const validateTemplate = (data: WhatsAppTemplateCreate) => {
+  const errors: Record<string, string> = {};
+  if (!data.name.trim()) errors.name = "Name is required";
+  if (!data.body.trim()) errors.body = "Message is required";
+
+  const unknown = getPlaceholders(data.body).filter(key => !KNOWN_PLACEHOLDERS.includes(key));
+  if (unknown.length > 0) {
+    errors.body = `Unknown placeholder${unknown.length === 1 ? "" : "s"}: ${unknown.map(key => `{${key}}`).join(", ")}`;
+  }
+  return errors;
+};
+
+// Lists, creates and edits the shared WhatsApp message templates
+export default function WhatsAppTemplateManager({ open, onOpenChange }: WhatsAppTemplateManagerProps) {
+  const { templates, loading, reload } = useWhatsAppTemplates();
+  // null shows the list; otherwise the form for a new (id "") or existing template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<WhatsAppTemplateCreate>(emptyTemplate());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [serverError, setServerError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (open) setEditingId(null);
+  }, [open]);
+
+  const groupedTemplates = useMemo(() => {
+    const groups = new Map<string, WhatsAppTemplate[]>();
+    templates.forEach(template => {
+      groups.set(template.language, [...(groups.get(template.language) || []), template]);
+    });
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [templates]);
+
+  const openForm = (template?: WhatsAppTemplate) => {
+    setEditingId(template?.id ?? "");
+    setFormData(template
+      ? { name: template.name, language: template.language, body: template.body }
+      : emptyTemplate());
+    setErrors({});
+    setServerError("");
+  };
+
+  const handleChange = (field: keyof WhatsAppTemplateCreate, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  // Inserts the placeholder at the cursor, or at the end if the box isn't focused
+  const insertPlaceholder = (key: string) => {
+    const textarea = bodyRef.current;
+    const token = `{${key}}`;
+    const start = textarea?.selectionStart ?? formData.body.length;
+    const end = textarea?.selectionEnd ?? formData.body.length;
+    handleChange("body", formData.body.slice(0, start) + token + formData.body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateTemplate(formData);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setSaving(true);
+    setServerError("");
+    try {
+      const data = { ...formData, name: formData.name.trim() };
+      if (editingId) {
+        await templatesApi.update(editingId, data);
+      } else {
+        await templatesApi.create(data);
+      }
+      await reload();
+      setEditingId(null);
+    } catch (error) {
+      if (error instanceof ApiServiceError) {
+        setServerError(apiUtils.formatError(error));
+      } else {
+        setServerError("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: WhatsAppTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    setDeletingId(template.id);
+    try {
+      await templatesApi.delete(template.id);
+      await reload();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editingId === null ? "Message Templates" : editingId ? "Edit Template" : "New Template"}
+          </DialogTitle>
+          <DialogDescription>
+            {editingId === null
+              ? "Shared WhatsApp messages for callers. Placeholders are filled in per contact."
+              : "Use placeholders such as {name} to personalise the message."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => openForm()}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Template
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                Loading templates...
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No templates yet. Create one to stop typing the same greeting by hand.
+              </p>
+            ) : (
+              groupedTemplates.map(([language, items]) => (
+                <div key={language} className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">{capitalize(language)}</h3>
+                  {items.map(template => (
+                    <div key={template.id} className="border rounded-md p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{template.name}</span>
+                          <Badge variant="secondary">
+                            Used {template.usage_count} time{template.usage_count === 1 ? "" : "s"}
+                          </Badge>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => openForm(template)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600 hover:text-red-700"
+                            disabled={deletingId === template.id}
+                            onClick={() => handleDelete(template)}
+                          >
+                            {deletingId === template.id
+                              ? <Loader2 className="w-4 h-4 animate-spin" />
+                              : <Trash2 className="w-4 h-4" />}
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{template.body}</p>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {serverError && (
+              <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+                {serverError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template_name">Name *</Label>
+                <Input
+                  id="template_name"
+                  value={formData.name}
+                  onChange={(e) => handleChange("name", e.target.value)}
+                  placeholder="e.g. First call greeting"
+                  className={errors.name ? "border-destructive" : ""}
+                />
+                {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template_language">Language *</Label>
+                <Select value={formData.language} onValueChange={(value) => handleChange("language", value)}>
+                  <SelectTrigger id="template_language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_LANGUAGES.map(language => (
+                      <SelectItem key={language} value={language}>
+                        {capitalize(language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="template_body">Message *</Label>
+                <Textarea
+                  id="template_body"
+                  ref={bodyRef}
+                  rows={5}
+                  value={formData.body}
+                  onChange={(e) => handleChange("body", e.target.value)}
+                  placeholder="Hari Om {name}, this is {bhagat} from..."
+                  className={errors.body ? "border-destructive" : ""}
+                />
+                {errors.body && <p className="text-sm text-destructive">{errors.body}</p>}
+                <div className="flex flex-wrap gap-2">
+                  {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                    <Button
+                      key={placeholder.key}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      title={placeholder.description}
+                      onClick={() => insertPlaceholder(placeholder.key)}
+                    >
+                      {`{${placeholder.key}}`}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label>Preview</Label>
+                <div className="bg-muted rounded-md px-3 py-2 text-sm whitespace-pre-wrap min-h-[3rem]">
+                  {formData.body
+                    ? renderTemplate(formData.body, SAMPLE_TEMPLATE_VALUES)
+                    : <span className="text-muted-foreground">The message will appear here.</span>}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setEditingId(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  editingId ? "Update Template" : "Create Template"
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+import * as React from "react"
+
+import { callingSevaApi, type BhagatWorkload, type CallingSevaRead } from "@/lib/api"
+import { useConstants } from "@/components/ConstantsProvider"
+import {
+  assignBhagats,
+  loadAssignmentStrategy,
+  saveAssignmentStrategy,
+  type AssignmentStrategy,
+} from "@/lib/assignment"
+
+export function useAssignment() {
+  const { bhagatNames } = useConstants()
+  const [strategy, setStrategyState] = React.useState<AssignmentStrategy>(loadAssignmentStrategy)
+
+  const setStrategy = React.useCallback((value: AssignmentStrategy) => {
+    saveAssignmentStrategy(value)
+    setStrategyState(value)
+  }, [])
+
+  // Picks a bhagat per contact with fresh counts. Offline, count-based
+  // strategies see everyone as equally loaded. Nothing is remembered until
+  // the caller passes the saved picks to rememberAssignment.
+  const assign = React.useCallback(async (contacts: Pick<CallingSevaRead, "language">[]) => {
+    let workload: BhagatWorkload[] = []
+    if (strategy !== "round-robin" && navigator.onLine) {
+      try {
+        workload = await callingSevaApi.getWorkload()
+      } catch (error) {
+        console.error("Failed to fetch workload:", error)
+      }
+    }
+    return assignBhagats(strategy, { bhagatNames, workload }, contacts)
+  }, [strategy, bhagatNames])
+
+  return { strategy, setStrategy, assign }
+}
@@ -0,0 +1,107 @@
+import * as React from "react"
+
+import { apiUtils, expensesApi, type BudgetPeriod, type CategoryTotal, type ExpenseBudget, type ExpenseRead } from "@/lib/api"
+import { useConstants } from "@/components/ConstantsProvider"
+import {
+  approvedCategoryTotals,
+  getBudgetRange,
+  getBudgetStatus,
+  isApprovedExpense,
+  isInRange,
+  parseDay,
+  toBudgetRows,
+  type BudgetRange,
+  type BudgetRow,
+  type BudgetStatus,
+} from "@/lib/expenses"
+
+// Only approved spend counts against a budget, as in the cash book
+const fetchApprovedTotals = async ({ from_date, to_date }: { from_date: string; to_date: string }) =>
+  approvedCategoryTotals(await apiUtils.fetchAllPages((page) => expensesApi.getAll({ ...page, from_date, to_date })))
+
+// Budgets with each category's spend for the current month and financial year
+export function useBudgetOverview(enabled = true) {
+  const { expenseCategories } = useConstants()
+  const [budgets, setBudgets] = React.useState<ExpenseBudget[]>([])
+  const [totals, setTotals] = React.useState<Record<BudgetPeriod, CategoryTotal[]>>({ monthly: [], annual: [] })
+  const [loading, setLoading] = React.useState(false)
+
+  const reload = React.useCallback(async () => {
+    const today = new Date()
+    const month = getBudgetRange("monthly", today)
+    const year = getBudgetRange("annual", today)
+    setLoading(true)
+    try {
+      const [budgetList, monthly, annual] = await Promise.all([
+        expensesApi.getBudgets(),
+        fetchApprovedTotals(month),
+        fetchApprovedTotals(year),
+      ])
+      setBudgets(budgetList)
+      setTotals({ monthly, annual })
+    } catch (error) {
+      console.error("Failed to fetch budgets:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  // Rebuilt when categories change, e.g. after one is renamed
+  const rows = React.useMemo<BudgetRow[]>(
+    () => (enabled ? toBudgetRows(expenseCategories, budgets, totals) : []),
+    [enabled, expenseCategories, budgets, totals]
+  )
+
+  return { budgets, rows, loading, reload }
+}
+
+export interface BudgetCheck {
+  budget: ExpenseBudget
+  range: BudgetRange
+  // Spend in the period without this expense
+  spent: number
+  projected: number
+  status: BudgetStatus
+}
+
+// How an expense being entered affects its category's budget, for the
+// period containing the expense's date. Null while loading, offline, or
+// when the category has no budget.
+export function useBudgetCheck(
+  budgets: ExpenseBudget[],
+  expense: { category?: string; date?: string; total_amount?: number },
+  editing: ExpenseRead | null
+): BudgetCheck | null {
+  const budget = budgets.find((b) => b.category === expense.category)
+  const day = expense.date ? parseDay(expense.date) : null
+  const range = budget && day ? getBudgetRange(budget.period, day) : null
+  const [periodSpent, setPeriodSpent] = React.useState<number | null>(null)
+
+  React.useEffect(() => {
+    setPeriodSpent(null)
+    if (!range || !budget) return
+    let cancelled = false
+    fetchApprovedTotals({ from_date: range.from_date, to_date: range.to_date })
+      .then((totals) => {
+        if (!cancelled) setPeriodSpent(totals.find((t) => t.category === budget.category)?.total_amount ?? 0)
+      })
+      .catch((error) => console.error("Failed to fetch category totals:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [budget?.category, range?.from_date, range?.to_date])
+
+  if (!budget || !range || periodSpent === null) return null
+
+  // The saved amount of an approved expense being edited is already in the total
+  const saved = editing && isApprovedExpense(editing) && editing.category === budget.category && isInRange(editing.date, range)
+    ? editing.total_amount
+    : 0
+  const spent = periodSpent - saved
+  const projected = spent + (expense.total_amount || 0)
+  return { budget, range, spent, projected, status: getBudgetStatus(projected, budget.amount) }
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import { syncApi } from "@/lib/api"
+import type { QueuedMutation, ReplayResult } from "@/lib/offlineQueue"
+
+export function useOfflineQueue(onSynced?: (result: ReplayResult) => void) {
+  const [mutations, setMutations] = React.useState<QueuedMutation[]>(() => syncApi.getQueued())
+  const [isOnline, setIsOnline] = React.useState(true)
+
+  // Keep the latest callback without re-subscribing on every render
+  const onSyncedRef = React.useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  React.useEffect(() => {
+    const unsubscribe = syncApi.subscribe(setMutations)
+    const unsubscribeSync = syncApi.subscribeToSync((result) => {
+      if (result.synced > 0) onSyncedRef.current?.(result)
+    })
+    syncApi.load().then(setMutations).catch((error) => {
+      console.error("Failed to load offline queue:", error)
+    })
+
+    const updateOnline = () => setIsOnline(navigator.onLine)
+    updateOnline()
+    window.addEventListener("online", updateOnline)
+    window.addEventListener("offline", updateOnline)
+
+    return () => {
+      unsubscribe()
+      unsubscribeSync()
+      window.removeEventListener("online", updateOnline)
+      window.removeEventListener("offline", updateOnline)
+    }
+  }, [])
+
+  const pendingCount = mutations.filter((m) => m.state !== "failed").length
+  const failedCount = mutations.filter((m) => m.state === "failed").length
+  const syncing = mutations.some((m) => m.state === "syncing")
+
+  return {
+    mutations,
+    isOnline,
+    pendingCount,
+    failedCount,
+    syncing,
+    syncNow: syncApi.syncNow,
+    retryFailed: syncApi.retryFailed,
+    discardFailed: syncApi.discardFailed,
+  }
+}
@@ -0,0 +1,55 @@
+import * as React from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+type QueryValue = string | number | null | undefined
+
+// Read and update the query string of the current route. Empty values are
+// removed from the URL. Pushes a history entry unless `replace` is set.
+export function useUrlQuery() {
+  const searchParams = useSearchParams()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  const buildUrl = React.useCallback(
+    (updates: Record<string, QueryValue>) => {
+      const params = new URLSearchParams(searchParams.toString())
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value === null || value === undefined || value === "") {
+          params.delete(key)
+        } else {
+          params.set(key, String(value))
+        }
+      })
+      const query = params.toString()
+      return query ? `${pathname}?${query}` : pathname
+    },
+    [searchParams, pathname]
+  )
+
+  // Returns false when the URL would not change
+  const update = React.useCallback(
+    (updates: Record<string, QueryValue>, options: { replace?: boolean } = {}) => {
+      const url = buildUrl(updates)
+      const current = searchParams.toString() ? `${pathname}?${searchParams.toString()}` : pathname
+      if (url === current) return false
+
+      if (options.replace) {
+        router.replace(url, { scroll: false })
+      } else {
+        router.push(url, { scroll: false })
+      }
+      return true
+    },
+    [buildUrl, searchParams, pathname, router]
+  )
+
+  return { searchParams, update }
+}
+
+// Parse a positive integer query value, falling back to `fallback`
+export const parsePageParam = (value: string | null, fallback: number, allowed?: number[]) => {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) return fallback
+  if (allowed && !allowed.includes(parsed)) return fallback
+  return parsed
+}
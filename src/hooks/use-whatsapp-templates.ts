@@ -0,0 +1,52 @@
+import * as React from "react"
+
+import { templatesApi, type WhatsAppTemplate } from "@/lib/api"
+
+// Shared by every picker on the page so the list is fetched once and edits
+// in the template manager show up everywhere
+let cache: WhatsAppTemplate[] | null = null
+let inFlight: Promise<WhatsAppTemplate[]> | null = null
+const listeners = new Set<(templates: WhatsAppTemplate[]) => void>()
+
+const publish = (templates: WhatsAppTemplate[]) => {
+  cache = templates
+  listeners.forEach((listener) => listener(templates))
+}
+
+const reloadTemplates = (): Promise<WhatsAppTemplate[]> => {
+  if (!inFlight) {
+    inFlight = templatesApi.getAll()
+      .then((templates) => {
+        publish(templates)
+        return templates
+      })
+      .finally(() => {
+        inFlight = null
+      })
+  }
+  return inFlight
+}
+
+// Replace one template in the cache, e.g. after its usage count changed
+const patchTemplate = (template: WhatsAppTemplate) => {
+  if (cache) publish(cache.map((t) => (t.id === template.id ? template : t)))
+}
+
+export function useWhatsAppTemplates() {
+  const [templates, setTemplates] = React.useState<WhatsAppTemplate[]>(() => cache ?? [])
+  const [loading, setLoading] = React.useState(cache === null)
+
+  React.useEffect(() => {
+    listeners.add(setTemplates)
+    if (cache === null) {
+      reloadTemplates()
+        .catch((error) => console.error("Failed to fetch templates:", error))
+        .finally(() => setLoading(false))
+    }
+    return () => {
+      listeners.delete(setTemplates)
+    }
+  }, [])
+
+  return { templates, loading, reload: reloadTemplates, patchTemplate }
+}
@@ -1,17 +1,20 @@
 // import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from "axios";
 import { toast } from 'sonner';
+import {
+  OfflineQueue,
+  createLocalId,
+  isLocalId,
+  type QueueEntity,
+  type QueuedMutation,
+  type ReplayResult,
+} from './offlineQueue';
+import type { Permission, UserRole } from './permissions';
 
 // ============================================================================
 // Types & Interfaces (Based on Backend Documentation)
 // ============================================================================
 
-// Dynamically fetched using api endpoint /general/constants
-export let BHAGAT_NAMES: string[] = [];
-export let STATUS_OPTIONS: string[] = [];
-export let COORDINATOR_NAME = "";
-export let DRIVER_NAME = "";
-
 export const BOOK_NAMES = [
   'gyan ganga (hindi)',
   'gyan ganga (english)',
@@ -34,11 +37,15 @@ export const BOOK_NAMES = [
 ] as const;
 export type BookName = typeof BOOK_NAMES[number];
 
+// Served by /general/constants; read through useConstants() in components
 export interface ConstantsResponse {
   coordinator_name: string;
   driver_name: string;
   status: string[];
   assigned_bhagat: string[];
+  // Every category, retired ones included. Missing from servers that
+  // predate managed categories.
+  expense_categories?: ExpenseCategory[];
 }
 
 // Base interfaces
@@ -62,9 +69,15 @@ export interface LoginInitRequest {
   password: string;
 }
 
+// When the account has a second factor, login-init sends an OTP to the
+// account email and returns `otp_required` instead of a token.
 export interface LoginInitResponse {
-  access_token: string;
-  token_type: string;
+  access_token?: string;
+  token_type?: string;
+  otp_required?: boolean;
+  otp_length?: number;
+  otp_expires_in?: number; // seconds
+  resend_in?: number; // seconds before another code may be requested
 }
 
 export interface VerifyOtpRequest {
@@ -80,6 +93,9 @@ export interface VerifyOtpResponse {
 export interface User {
   email: string;
   name: string;
+  role?: UserRole;
+  // Explicit grants; when present these replace the role defaults
+  permissions?: Permission[];
 }
 
 // Book Seva interfaces
@@ -93,6 +109,8 @@ export interface BookSevaBase {
   quantity: number;
   coordinator_name: string;
   driver_name: string;
+  // Set on every line saved through an outing (see BookSevaOutingCreate)
+  outing_id?: string;
 }
 
 export interface BookSevaCreate extends BookSevaBase { }
@@ -104,16 +122,44 @@ export interface BookSevaRead extends BookSevaBase {
   date_to?: string;
 }
 
+// One outing (e.g. a railway station visit) distributing several titles.
+// The server stores each line as a book seva record sharing an outing_id.
+export interface BookSevaOutingLine {
+  book_name: BookName;
+  book_type: string;
+  quantity: number;
+}
+
+export interface BookSevaOutingCreate {
+  date: string;
+  seva_place: string;
+  sevadar_name: string;
+  coordinator_name: string;
+  driver_name: string;
+  lines: BookSevaOutingLine[];
+}
+
+export interface BookSevaOutingRead {
+  outing_id: string;
+  items: BookSevaRead[];
+}
+
 // Calling Seva interfaces
 export interface CallingSevaBase {
   id: string;
   date: string;
+  // Seeker's name, when known; used for the {name} message placeholder
+  name?: string;
   address: string;
   mobile_no: string;
   status: string;
   assigned_bhagat_name: string;
   remarks?: string;
   wa_message?: string;
+  // Preferred language, one of TEMPLATE_LANGUAGES; used to match a bhagat
+  language?: string;
+  // ISO date-time of the next planned call; null when nothing is scheduled
+  next_follow_up_at?: string | null;
 }
 
 export interface CallingSevaCreate extends CallingSevaBase { }
@@ -122,6 +168,82 @@ export interface CallingSevaUpdate extends Partial<CallingSevaBase> { }
 
 export interface CallingSevaRead extends CallingSevaBase { }
 
+// Contact history for a calling record. Calls, WhatsApp messages and notes
+// are logged by volunteers; the server adds `status_change` and `remark`
+// entries itself whenever the record's status or remarks are edited.
+export type InteractionType = 'call' | 'whatsapp' | 'note' | 'status_change' | 'remark';
+
+export type CallOutcome = 'answered' | 'no_answer' | 'busy' | 'switched_off' | 'wrong_number';
+
+export interface CallingSevaInteraction {
+  id: string;
+  calling_seva_id: string;
+  type: InteractionType;
+  occurred_at: string;
+  note?: string;
+  outcome?: CallOutcome;
+  from_status?: string;
+  to_status?: string;
+  created_by?: string;
+}
+
+export interface CallingSevaInteractionCreate {
+  type: Extract<InteractionType, 'call' | 'whatsapp' | 'note'>;
+  occurred_at: string;
+  note?: string;
+  outcome?: CallOutcome;
+}
+
+// Calls per bhagat as counted by the server. `open` records are not in a
+// final status, `due` are open with a follow-up at or before now, and
+// `completed` reached a final status. `languages` come from the bhagat's
+// profile.
+export interface BhagatWorkload {
+  bhagat_name: string;
+  languages: string[];
+  open: number;
+  due: number;
+  completed: number;
+}
+
+// Bulk import. The server creates what it can and reports the rest by
+// their position in `records`.
+export type CallingSevaImportRecord = Omit<CallingSevaCreate, 'id'>;
+
+export interface CallingSevaImportResult {
+  created: number;
+  errors: { index: number; message: string }[];
+}
+
+// Folds duplicate records into the primary one. The server moves their
+// interactions to the primary record and deletes them; `remarks` and `name`
+// replace the primary's values.
+export interface CallingSevaMerge {
+  primary_id: string;
+  duplicate_ids: string[];
+  remarks?: string;
+  name?: string;
+}
+
+// WhatsApp message templates. `body` may contain placeholders such as
+// {name} or {bhagat}; see src/lib/templates.ts.
+export interface WhatsAppTemplate {
+  id: string;
+  name: string;
+  language: string;
+  body: string;
+  usage_count: number;
+  updated_at?: string;
+}
+
+export interface WhatsAppTemplateCreate {
+  name: string;
+  language: string;
+  body: string;
+}
+
+export interface WhatsAppTemplateUpdate extends Partial<WhatsAppTemplateCreate> { }
+
 // Expense interfaces
 export interface ExpenseBase {
   id: string;
@@ -131,19 +253,222 @@ export interface ExpenseBase {
   quantity: number;
   total_amount: number;
   category: string;
+  sub_category?: string | null;
+  // New expenses are saved as a draft or submitted for approval; the
+  // server sets every later status through the status endpoint
+  status?: ExpenseStatus;
 }
 
+// Approval workflow. Expenses recorded before approvals were introduced have
+// no status and are treated as approved.
+export type ExpenseStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'reimbursed';
+
+// Categories are managed by admins. `value` is what expenses store and never
+// changes once created; categories are retired with `active: false` rather
+// than deleted, so older expenses keep their label and colour.
+export interface ExpenseSubCategory {
+  value: string;
+  label: string;
+  active: boolean;
+}
+
+export interface ExpenseCategory {
+  value: string;
+  label: string;
+  // A key of CATEGORY_COLOR_CLASSES in lib/expenses
+  color: string;
+  active: boolean;
+  sub_categories: ExpenseSubCategory[];
+}
+
+export interface ExpenseCategoryCreate extends ExpenseCategory { }
+
+export interface ExpenseCategoryUpdate extends Partial<Omit<ExpenseCategory, 'value'>> { }
+
 export interface ExpenseCreate extends ExpenseBase { }
 
 export interface ExpenseUpdate extends Partial<ExpenseBase> { }
 
-export interface ExpenseRead extends ExpenseBase { }
+// A receipt or invoice attached to an expense. `url` and `thumbnail_url`
+// are signed links the server issues with each read, so they work in <img>
+// tags without the auth header; `thumbnail_url` is only set for images.
+export interface ExpenseAttachment {
+  id: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  url: string;
+  thumbnail_url?: string;
+  uploaded_at: string;
+}
+
+export interface ExpenseRead extends ExpenseBase {
+  attachments?: ExpenseAttachment[];
+  created_by?: string;
+}
+
+// One step in an expense's approval history, recorded by the server with
+// the user who made it
+export interface ExpenseStatusChange {
+  id: string;
+  expense_id: string;
+  from_status: ExpenseStatus | null;
+  to_status: ExpenseStatus;
+  comment?: string;
+  changed_by: string;
+  changed_at: string;
+}
+
+export interface ExpenseStatusUpdate {
+  status: ExpenseStatus;
+  comment?: string;
+}
+
+// Category budgets. A category has at most one budget, set either per
+// calendar month or per financial year (April to March).
+export type BudgetPeriod = 'monthly' | 'annual';
+
+export interface ExpenseBudget {
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+  updated_at?: string;
+}
+
+export interface ExpenseBudgetUpdate {
+  period: BudgetPeriod;
+  amount: number;
+}
+
+// Spend per category over a date range, summed by the server
+export interface CategoryTotal {
+  category: string;
+  total_amount: number;
+  count: number;
+}
+
+// Income interfaces
+//
+// Money received: donations, and paid books from book seva. The server
+// records a `book_sale` entry for every paid book seva it saves (and keeps it
+// in step when the book seva is edited or deleted); those entries carry the
+// book seva id in `reference_id` and are changed through book seva only.
+export type PaymentMode = 'cash' | 'upi' | 'bank';
+
+export interface IncomeBase {
+  id: string;
+  date: string;
+  donor_name: string;
+  amount: number;
+  mode: PaymentMode;
+  receipt_no?: string;
+  purpose: string;
+  remarks?: string;
+}
+
+export interface IncomeCreate extends IncomeBase { }
+
+export interface IncomeUpdate extends Partial<IncomeBase> { }
+
+export interface IncomeRead extends IncomeBase {
+  reference_id?: string;
+  created_by?: string;
+}
+
+// Totals of every income and expense dated before `before`, for the cash
+// book's opening balance
+export interface CashBalance {
+  before: string;
+  income_total: number;
+  expense_total: number;
+  balance: number;
+}
+
+// Inventory interfaces
+//
+// The stock ledger is append-only. Receipts add stock; the server writes an
+// `out` movement for every book seva it saves (and reverses it when the
+// book seva is edited or deleted), so balances never drift from distribution.
+export type StockMovementType = 'in' | 'out' | 'adjustment';
+
+export interface StockBalance {
+  book_name: BookName;
+  balance: number;
+  low_stock_threshold: number;
+  last_movement_at?: string;
+}
+
+export interface StockMovement {
+  id: string;
+  date: string;
+  book_name: BookName;
+  type: StockMovementType;
+  // Signed: negative for stock leaving the store room
+  quantity: number;
+  balance_after: number;
+  // Book seva id for automatic stock-out entries
+  reference_id?: string;
+  received_from?: string;
+  remarks?: string;
+  created_by?: string;
+  created_at?: string;
+}
+
+export interface StockReceiptCreate {
+  date: string;
+  book_name: BookName;
+  quantity: number;
+  received_from: string;
+  remarks?: string;
+}
+
+export interface StockThresholdUpdate {
+  low_stock_threshold: number;
+}
 
 // Query parameters
 export interface QueryParams {
   [key: string]: any;
 }
 
+// Paginated list responses. The API returns `{ items, total, skip, limit }`
+// for list endpoints.
+export interface Paginated<T> {
+  items: T[];
+  // null when the server doesn't report a count (older API builds)
+  total: number | null;
+  skip: number;
+  limit: number;
+  // Whether there are items after this page
+  hasMore: boolean;
+}
+
+export interface PaginationParams {
+  skip?: number;
+  limit?: number;
+}
+
+// Offline-capable mutations
+export interface MutationResult<T> {
+  data: T;
+  // True when the change was stored in the offline queue instead of sent
+  queued: boolean;
+}
+
+interface OfflineMutationOptions<T> {
+  entity: QueueEntity;
+  recordId: string;
+  // Returned to the caller when the mutation is queued
+  optimistic: T;
+}
+
+interface QueueableRequestConfig extends AxiosRequestConfig {
+  // Network errors are reported by the offline queue, not as an error toast
+  queueable?: boolean;
+  // The caller shows its own error message, so no error toast
+  silent?: boolean;
+}
+
 // ============================================================================
 // Custom Error Classes
 // ============================================================================
@@ -197,6 +522,16 @@ export class NotFoundError extends ApiServiceError {
   }
 }
 
+export class AccountLockedError extends ApiServiceError {
+  public retryAfter?: number; // seconds
+
+  constructor(message: string = 'Too many failed attempts. Account temporarily locked.', retryAfter?: number) {
+    super(message, 423, 'ACCOUNT_LOCKED', { retryAfter });
+    this.name = 'AccountLockedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
 export class ServerError extends ApiServiceError {
   constructor(message: string = 'Internal server error') {
     super(message, 500, 'SERVER_ERROR');
@@ -219,6 +554,8 @@ const DEFAULT_HEADERS = {
   'Accept': 'application/json',
 };
 
+const AUTH_ENDPOINTS = ['/auth/login-init', '/auth/verify-otp'];
+
 // ============================================================================
 // Token Management
 // ============================================================================
@@ -331,7 +668,7 @@ class ApiClient {
       async (config) => {
         // Add authorization header for protected endpoints
         const token = TokenManager.getToken();
-        const isAuthEndpoint = config.url === '/auth/login-init' || config.url === '/auth/verify-otp';
+        const isAuthEndpoint = AUTH_ENDPOINTS.includes(config.url || '');
 
         if (token && !TokenManager.isTokenExpired(token) && !isAuthEndpoint) {
           config.headers.Authorization = `Bearer ${token}`;
@@ -340,6 +677,9 @@ class ApiClient {
         // Set content type based on endpoint
         if (config.url === '/auth/login-init') {
           config.headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        } else if (config.data instanceof FormData) {
+          // Let the browser set multipart/form-data with its boundary
+          config.headers.setContentType(null);
         } else {
           config.headers['Content-Type'] = 'application/json';
         }
@@ -370,8 +710,10 @@ class ApiClient {
       async (error) => {
         const originalRequest = error.config;
 
-        // Handle 401 errors (redirect to login)
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle 401 errors (redirect to login). A 401 from the login
+        // endpoints is just a wrong password or code, not an expired session.
+        const isAuthEndpoint = AUTH_ENDPOINTS.includes(originalRequest?.url || '');
+        if (error.response?.status === 401 && !originalRequest._retry && !isAuthEndpoint) {
           TokenManager.removeToken();
           if (typeof window !== 'undefined' && !window.location.pathname.includes('/login')) {
             window.location.href = '/';
@@ -389,8 +731,9 @@ class ApiClient {
       return new NetworkError('Network connection failed. Please check your internet connection.');
     }
 
-    const { status, data } = error.response;
+    const { status, data, headers } = error.response;
     const message = data?.message || data?.msg || data?.error || 'An unexpected error occurred';
+    const retryAfter = Number(data?.retry_after ?? headers?.['retry-after']) || undefined;
 
     switch (status) {
       case 400:
@@ -401,8 +744,10 @@ class ApiClient {
         return new AuthorizationError(message);
       case 404:
         return new NotFoundError(message);
+      case 423:
+        return new AccountLockedError(message, retryAfter);
       case 429:
-        return new ApiServiceError('Too many requests. Please try again later.', 429, 'RATE_LIMIT_EXCEEDED');
+        return new ApiServiceError('Too many requests. Please try again later.', 429, 'RATE_LIMIT_EXCEEDED', { retryAfter });
       case 500:
       case 502:
       case 503:
@@ -413,8 +758,22 @@ class ApiClient {
     }
   }
 
+  private unwrapResponse<T>(response: AxiosResponse): T {
+    // Handle different response structures
+    if (response.data && typeof response.data === 'object') {
+      // If response has data property, return it
+      if ('data' in response.data && response.data.data !== undefined) {
+        return response.data.data;
+      }
+      // Otherwise return the whole response data
+      return response.data;
+    }
+
+    return response.data;
+  }
+
   private async makeRequest<T>(
-    config: AxiosRequestConfig,
+    config: QueueableRequestConfig,
     retryCount: number = 0
   ): Promise<T> {
     const loadingKey = `${config.method}-${config.url}`;
@@ -425,24 +784,13 @@ class ApiClient {
       return await this.requestQueue.deduplicate(config, async () => {
         try {
           const response: AxiosResponse = await this.axiosInstance(config);
-
-          // Handle different response structures
-          if (response.data && typeof response.data === 'object') {
-            // If response has data property, return it
-            if ('data' in response.data && response.data.data !== undefined) {
-              return response.data.data;
-            }
-            // Otherwise return the whole response data
-            return response.data;
-          }
-
-          return response.data;
+          return this.unwrapResponse<T>(response);
         } catch (error: any) {
           // Retry logic for network errors or 5xx errors
           if (retryCount < API_CONFIG.retryAttempts) {
-            const shouldRetry =
-              !error.response ||
-              error.response.status >= 500;
+            // Errors arrive here already mapped by the response interceptor
+            const status = error instanceof ApiServiceError ? error.status : error.response?.status;
+            const shouldRetry = !status || status >= 500;
 
             if (shouldRetry) {
               const delay = API_CONFIG.retryDelay * Math.pow(2, retryCount);
@@ -456,8 +804,10 @@ class ApiClient {
     } catch (error: any) {
       const apiError = error instanceof ApiServiceError ? error : this.handleError(error);
 
-      // Show toast notification for errors (except 401 which redirects)
-      if (apiError.status !== 401) {
+      // Show toast notification for errors (except 401 which redirects, and
+      // network errors on mutations that fall back to the offline queue)
+      const queuedInstead = config.queueable && apiError instanceof NetworkError;
+      if (apiError.status !== 401 && !queuedInstead && !config.silent) {
         toast.error(apiError.message);
       }
 
@@ -472,8 +822,31 @@ class ApiClient {
     return this.makeRequest<T>({ method: 'GET', url, params });
   }
 
-  public async post<T>(url: string, data?: any, isFormData = false): Promise<T> {
-    const config: AxiosRequestConfig = { method: 'POST', url };
+  public async getPaginated<T>(url: string, params: PaginationParams & QueryParams = {}): Promise<Paginated<T>> {
+    const response = await this.get<Paginated<T> | T[]>(url, params);
+    const skip = params.skip ?? 0;
+    const limit = params.limit ?? 0;
+
+    // Older API builds return a bare array with no total count. A full page
+    // may have more after it; the total stays unknown.
+    if (Array.isArray(response)) {
+      return { items: response, total: null, skip, limit, hasMore: limit > 0 && response.length === limit };
+    }
+
+    const items = Array.isArray(response?.items) ? response.items : [];
+    const total = Number(response?.total) || 0;
+    const pageSkip = response?.skip ?? skip;
+    return {
+      items,
+      total,
+      skip: pageSkip,
+      limit: response?.limit ?? limit,
+      hasMore: pageSkip + items.length < total,
+    };
+  }
+
+  public async post<T>(url: string, data?: any, isFormData = false, options: { silent?: boolean } = {}): Promise<T> {
+    const config: QueueableRequestConfig = { method: 'POST', url, silent: options.silent };
 
     if (isFormData) {
       // Convert data to URLSearchParams for form-urlencoded
@@ -493,6 +866,11 @@ class ApiClient {
     return this.makeRequest<T>({ method: 'PUT', url, data });
   }
 
+  // Multipart upload; never queued offline since files can't be persisted
+  public async upload<T>(url: string, formData: FormData): Promise<T> {
+    return this.makeRequest<T>({ method: 'POST', url, data: formData });
+  }
+
   public async patch<T>(url: string, data?: any): Promise<T> {
     return this.makeRequest<T>({ method: 'PATCH', url, data });
   }
@@ -500,6 +878,61 @@ class ApiClient {
   public async delete<T>(url: string): Promise<T> {
     return this.makeRequest<T>({ method: 'DELETE', url });
   }
+
+  // Send a create/update/delete, falling back to the offline queue when the
+  // device is offline or the request never reaches the server.
+  public async mutate<T>(
+    method: QueuedMutation['method'],
+    url: string,
+    data: any,
+    options: OfflineMutationOptions<T>
+  ): Promise<MutationResult<T>> {
+    const canQueue = OfflineQueue.isSupported();
+
+    // Records created offline only exist locally until the queue syncs them,
+    // so their edits and deletes follow the queued create. Creates always
+    // carry a new local id and are only queued when they can't be sent.
+    const followsQueuedCreate = method !== 'POST' && isLocalId(options.recordId);
+    if (canQueue && (OfflineQueue.isOffline() || followsQueuedCreate)) {
+      return this.enqueueMutation(method, url, data, options);
+    }
+
+    try {
+      const response = await this.makeRequest<T>({ method, url, data, queueable: canQueue });
+      return { data: response, queued: false };
+    } catch (error) {
+      if (canQueue && error instanceof NetworkError) {
+        return this.enqueueMutation(method, url, data, options);
+      }
+      throw error;
+    }
+  }
+
+  private async enqueueMutation<T>(
+    method: QueuedMutation['method'],
+    url: string,
+    data: any,
+    options: OfflineMutationOptions<T>
+  ): Promise<MutationResult<T>> {
+    await OfflineQueue.enqueue({ entity: options.entity, method, url, data, recordId: options.recordId });
+    toast.info('You are offline. The change is saved on this device and will sync automatically.');
+    return { data: options.optimistic, queued: true };
+  }
+
+  // Executor used by the offline queue. No retries or toasts: the queue
+  // decides what to do with failures.
+  public async replay<T>(mutation: QueuedMutation): Promise<T> {
+    try {
+      const response = await this.axiosInstance({
+        method: mutation.method,
+        url: mutation.url,
+        data: mutation.data,
+      });
+      return this.unwrapResponse<T>(response);
+    } catch (error: any) {
+      throw error instanceof ApiServiceError ? error : this.handleError(error);
+    }
+  }
 }
 
 // ============================================================================
@@ -513,9 +946,17 @@ const apiClient = new ApiClient();
 // ============================================================================
 
 export const authApi = {
-  // Login function that returns the access token directly
+  // First step of login. Returns the access token directly, or
+  // `otp_required` when a code has been emailed (see `verifyOtp`).
+  // Calling it again with the same credentials resends the code.
+  // Both login steps leave error messages to the login form.
   async loginInit(data: LoginInitRequest): Promise<LoginInitResponse> {
-    return apiClient.post<LoginInitResponse>('/auth/login-init', data, true); // form-urlencoded
+    return apiClient.post<LoginInitResponse>('/auth/login-init', data, true, { silent: true }); // form-urlencoded
+  },
+
+  // Second step of login: exchange the emailed code for an access token
+  async verifyOtp(data: VerifyOtpRequest): Promise<VerifyOtpResponse> {
+    return apiClient.post<VerifyOtpResponse>('/auth/verify-otp', data, false, { silent: true });
   },
 
   async getCurrentUser(): Promise<User> {
@@ -537,45 +978,73 @@ export const authApi = {
 // ============================================================================
 
 export const bookSevaApi = {
-  async create(data: BookSevaCreate): Promise<BookSevaRead> {
+  async create(data: BookSevaCreate): Promise<MutationResult<BookSevaRead>> {
     try {
-      const response = await apiClient.post<BookSevaRead>('/book-seva', data);
-      toast.success('Book seva created successfully');
-      return response;
+      const localId = createLocalId();
+      const { data: response, queued } = await apiClient.mutate<BookSevaRead>('POST', '/book-seva', data, {
+        entity: 'book-seva',
+        recordId: localId,
+        optimistic: { ...data, id: localId },
+      });
+      if (!queued) toast.success('Book seva created successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async getAll(params?: {
-    skip?: number;
-    limit?: number;
+  // Saves all lines of an outing in one request, so it is stored (or
+  // queued offline) as a whole
+  async createOuting(data: BookSevaOutingCreate): Promise<MutationResult<BookSevaOutingRead>> {
+    const localId = createLocalId();
+    const { lines, ...header } = data;
+    const { data: response, queued } = await apiClient.mutate<BookSevaOutingRead>('POST', '/book-seva/outings', data, {
+      entity: 'book-seva',
+      recordId: localId,
+      optimistic: {
+        outing_id: localId,
+        items: lines.map((line, index) => ({ ...header, ...line, id: `${localId}:${index}`, outing_id: localId })),
+      },
+    });
+    if (!queued) toast.success(`Outing saved with ${data.lines.length} book${data.lines.length === 1 ? '' : 's'}`);
+    return { data: response, queued };
+  },
+
+  async getAll(params?: PaginationParams & {
     from_date?: string;
     to_date?: string;
-  }): Promise<BookSevaRead[]> {
-    return apiClient.get<BookSevaRead[]>('/book-seva', params);
+  }): Promise<Paginated<BookSevaRead>> {
+    return apiClient.getPaginated<BookSevaRead>('/book-seva', params);
   },
 
   async getById(id: string): Promise<BookSevaRead> {
     return apiClient.get<BookSevaRead>(`/book-seva/${id}`);
   },
 
-  async update(id: string, data: BookSevaUpdate): Promise<BookSevaRead> {
+  async update(id: string, data: BookSevaUpdate): Promise<MutationResult<BookSevaRead>> {
     try {
-      const response = await apiClient.put<BookSevaRead>(`/book-seva/${id}`, data);
-      toast.success('Book seva updated successfully');
-      return response;
+      const { data: response, queued } = await apiClient.mutate<BookSevaRead>('PUT', `/book-seva/${id}`, data, {
+        entity: 'book-seva',
+        recordId: id,
+        optimistic: { ...data, id } as BookSevaRead,
+      });
+      if (!queued) toast.success('Book seva updated successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async delete(id: string): Promise<{ msg: string }> {
-    const response = await apiClient.delete<{ msg: string }>(`/book-seva/${id}`);
-    toast.success('Book seva deleted successfully');
-    return response;
+  async delete(id: string): Promise<MutationResult<{ msg: string }>> {
+    const { data: response, queued } = await apiClient.mutate<{ msg: string }>('DELETE', `/book-seva/${id}`, undefined, {
+      entity: 'book-seva',
+      recordId: id,
+      optimistic: { msg: 'Queued for deletion' },
+    });
+    if (!queued) toast.success('Book seva deleted successfully');
+    return { data: response, queued };
   }
 };
 
@@ -584,94 +1053,443 @@ export const bookSevaApi = {
 // ============================================================================
 
 export const callingSevaApi = {
-  async create(data: CallingSevaCreate): Promise<CallingSevaRead> {
+  async create(data: CallingSevaCreate): Promise<MutationResult<CallingSevaRead>> {
     try {
-      const response = await apiClient.post<CallingSevaRead>('/calling-seva', data);
-      toast.success('Calling seva created successfully');
-      return response;
+      const localId = createLocalId();
+      const { data: response, queued } = await apiClient.mutate<CallingSevaRead>('POST', '/calling-seva', data, {
+        entity: 'calling-seva',
+        recordId: localId,
+        optimistic: { ...data, id: localId },
+      });
+      if (!queued) toast.success('Calling seva created successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async getAll(params?: {
-    skip?: number;
-    limit?: number;
+  async getAll(params?: PaginationParams & {
     status?: string;
-  }): Promise<CallingSevaRead[]> {
-    return apiClient.get<CallingSevaRead[]>('/calling-seva', params);
+    assigned_bhagat_name?: string;
+    from_date?: string;
+    to_date?: string;
+    // Matched against the normalized number, so any format finds the record
+    mobile_no?: string;
+  }): Promise<Paginated<CallingSevaRead>> {
+    return apiClient.getPaginated<CallingSevaRead>('/calling-seva', params);
+  },
+
+  // Records with a follow-up scheduled in [due_after, due_before), soonest
+  // first. Both bounds are ISO date-times and optional.
+  async getFollowUps(params?: PaginationParams & {
+    assigned_bhagat_name?: string;
+    due_after?: string;
+    due_before?: string;
+  }): Promise<Paginated<CallingSevaRead>> {
+    return apiClient.getPaginated<CallingSevaRead>('/calling-seva/follow-ups', params);
   },
 
   async getById(id: string): Promise<CallingSevaRead> {
     return apiClient.get<CallingSevaRead>(`/calling-seva/${id}`);
   },
 
-  async update(id: string, data: CallingSevaUpdate): Promise<CallingSevaRead> {
+  async update(id: string, data: CallingSevaUpdate): Promise<MutationResult<CallingSevaRead>> {
     try {
-      const response = await apiClient.put<CallingSevaRead>(`/calling-seva/${id}`, data);
-      toast.success('Calling seva updated successfully');
-      return response;
+      const { data: response, queued } = await apiClient.mutate<CallingSevaRead>('PUT', `/calling-seva/${id}`, data, {
+        entity: 'calling-seva',
+        recordId: id,
+        optimistic: { ...data, id } as CallingSevaRead,
+      });
+      if (!queued) toast.success('Calling seva updated successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async delete(id: string): Promise<{ msg: string }> {
-    const response = await apiClient.delete<{ msg: string }>(`/calling-seva/${id}`);
-    toast.success('Calling seva deleted successfully');
+  // Newest first
+  async getInteractions(id: string, params?: PaginationParams): Promise<Paginated<CallingSevaInteraction>> {
+    return apiClient.getPaginated<CallingSevaInteraction>(`/calling-seva/${id}/interactions`, params);
+  },
+
+  // `status_change` entries for records dated within the range, oldest first;
+  // used by the funnel analytics
+  async getStatusChanges(params?: PaginationParams & {
+    assigned_bhagat_name?: string;
+    from_date?: string;
+    to_date?: string;
+  }): Promise<Paginated<CallingSevaInteraction>> {
+    return apiClient.getPaginated<CallingSevaInteraction>('/calling-seva/status-changes', params);
+  },
+
+  // Adds to the contact's timeline without touching the record itself
+  async logInteraction(id: string, data: CallingSevaInteractionCreate): Promise<CallingSevaInteraction> {
+    return apiClient.post<CallingSevaInteraction>(`/calling-seva/${id}/interactions`, data);
+  },
+
+  async delete(id: string): Promise<MutationResult<{ msg: string }>> {
+    const { data: response, queued } = await apiClient.mutate<{ msg: string }>('DELETE', `/calling-seva/${id}`, undefined, {
+      entity: 'calling-seva',
+      recordId: id,
+      optimistic: { msg: 'Queued for deletion' },
+    });
+    if (!queued) toast.success('Calling seva deleted successfully');
+    return { data: response, queued };
+  },
+
+  async getWorkload(): Promise<BhagatWorkload[]> {
+    return apiClient.get<BhagatWorkload[]>('/calling-seva/workload');
+  },
+
+  // Moves many records to new bhagats in one request
+  async reassign(assignments: { id: string; assigned_bhagat_name: string }[]): Promise<{ updated: number }> {
+    const response = await apiClient.post<{ updated: number }>('/calling-seva/reassign', { assignments });
+    toast.success(`Reassigned ${response.updated} record${response.updated === 1 ? '' : 's'}`);
+    return response;
+  },
+
+  // No toast: the import wizard reports totals once every batch is done
+  async importBatch(records: CallingSevaImportRecord[]): Promise<CallingSevaImportResult> {
+    return apiClient.post<CallingSevaImportResult>('/calling-seva/bulk', { records });
+  },
+
+  async merge(data: CallingSevaMerge): Promise<CallingSevaRead> {
+    const response = await apiClient.post<CallingSevaRead>('/calling-seva/merge', data);
+    toast.success(`Merged ${data.duplicate_ids.length + 1} records`);
     return response;
   }
 };
 
+// ============================================================================
+// Inventory API Functions
+// ============================================================================
+
+export const inventoryApi = {
+  // Current balance and low-stock threshold per title
+  async getStock(): Promise<StockBalance[]> {
+    return apiClient.get<StockBalance[]>('/inventory/stock');
+  },
+
+  async getMovements(params?: PaginationParams & {
+    book_name?: BookName;
+    type?: StockMovementType;
+    from_date?: string;
+    to_date?: string;
+  }): Promise<Paginated<StockMovement>> {
+    return apiClient.getPaginated<StockMovement>('/inventory/movements', params);
+  },
+
+  async createReceipt(data: StockReceiptCreate): Promise<StockMovement> {
+    const response = await apiClient.post<StockMovement>('/inventory/receipts', data);
+    toast.success('Stock receipt recorded successfully');
+    return response;
+  },
+
+  async updateThreshold(bookName: BookName, data: StockThresholdUpdate): Promise<StockBalance> {
+    const response = await apiClient.put<StockBalance>(
+      `/inventory/stock/${encodeURIComponent(bookName)}/threshold`,
+      data
+    );
+    toast.success('Low-stock threshold updated');
+    return response;
+  },
+};
+
+// ============================================================================
+// WhatsApp Template API Functions
+// ============================================================================
+
+export const templatesApi = {
+  async getAll(): Promise<WhatsAppTemplate[]> {
+    return apiClient.get<WhatsAppTemplate[]>('/whatsapp/templates');
+  },
+
+  async create(data: WhatsAppTemplateCreate): Promise<WhatsAppTemplate> {
+    const response = await apiClient.post<WhatsAppTemplate>('/whatsapp/templates', data);
+    toast.success('Template created successfully');
+    return response;
+  },
+
+  async update(id: string, data: WhatsAppTemplateUpdate): Promise<WhatsAppTemplate> {
+    const response = await apiClient.put<WhatsAppTemplate>(`/whatsapp/templates/${id}`, data);
+    toast.success('Template updated successfully');
+    return response;
+  },
+
+  async delete(id: string): Promise<{ msg: string }> {
+    const response = await apiClient.delete<{ msg: string }>(`/whatsapp/templates/${id}`);
+    toast.success('Template deleted successfully');
+    return response;
+  },
+
+  // Counts a message sent with this template
+  async recordUse(id: string): Promise<WhatsAppTemplate> {
+    return apiClient.post<WhatsAppTemplate>(`/whatsapp/templates/${id}/use`);
+  },
+};
+
+// ============================================================================
+// General API Functions
+// ============================================================================
+
+export const generalApi = {
+  async getConstants(): Promise<ConstantsResponse> {
+    return apiClient.get<ConstantsResponse>('/general/constants');
+  },
+};
+
 // ============================================================================
 // Expenses API Functions
 // ============================================================================
 
+// Receipts picked for an expense created offline, keyed by its local id. They
+// are uploaded once the queue syncs the expense and its server id is known.
+// Held in memory only, so they are lost if the page is reloaded first.
+const deferredReceipts = new Map<string, { file: Blob; fileName: string }[]>();
+
+const uploadDeferredReceipts = async (localId: string, serverId: string) => {
+  const receipts = deferredReceipts.get(localId);
+  if (!receipts) return;
+  deferredReceipts.delete(localId);
+
+  // One at a time: the client merges identical in-flight requests
+  let failed = 0;
+  for (const receipt of receipts) {
+    try {
+      await expensesApi.uploadAttachment(serverId, receipt.file, receipt.fileName);
+    } catch (error) {
+      console.error('Failed to upload receipt:', error);
+      failed++;
+    }
+  }
+  if (failed > 0) {
+    toast.error(`${failed} receipt${failed === 1 ? '' : 's'} could not be uploaded. Edit the expense to try again.`);
+  } else {
+    toast.success(`${receipts.length} receipt${receipts.length === 1 ? '' : 's'} attached to a synced expense`);
+  }
+};
+
 export const expensesApi = {
-  async create(data: ExpenseCreate): Promise<ExpenseRead> {
+  async create(data: ExpenseCreate): Promise<MutationResult<ExpenseRead>> {
     try {
-      const response = await apiClient.post<ExpenseRead>('/expenses', data);
-      toast.success('Expense created successfully');
-      return response;
+      const localId = createLocalId();
+      const { data: response, queued } = await apiClient.mutate<ExpenseRead>('POST', '/expenses', data, {
+        entity: 'expenses',
+        recordId: localId,
+        optimistic: { ...data, id: localId },
+      });
+      if (!queued) toast.success('Expense created successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async getAll(params?: {
-    skip?: number;
-    limit?: number;
+  async getAll(params?: PaginationParams & {
     from_date?: string;
     to_date?: string;
-  }): Promise<ExpenseRead[]> {
-    return apiClient.get<ExpenseRead[]>('/expenses', params);
+    status?: ExpenseStatus;
+  }): Promise<Paginated<ExpenseRead>> {
+    return apiClient.getPaginated<ExpenseRead>('/expenses', params);
   },
 
   async getById(id: string): Promise<ExpenseRead> {
     return apiClient.get<ExpenseRead>(`/expenses/${id}`);
   },
 
-  async update(id: string, data: ExpenseUpdate): Promise<ExpenseRead> {
+  async update(id: string, data: ExpenseUpdate): Promise<MutationResult<ExpenseRead>> {
     try {
-      const response = await apiClient.put<ExpenseRead>(`/expenses/${id}`, data);
-      toast.success('Expenses updated successfully');
-      return response;
+      const { data: response, queued } = await apiClient.mutate<ExpenseRead>('PUT', `/expenses/${id}`, data, {
+        entity: 'expenses',
+        recordId: id,
+        optimistic: { ...data, id } as ExpenseRead,
+      });
+      if (!queued) toast.success('Expenses updated successfully');
+      return { data: response, queued };
     } catch (error) {
       // Reset loading states or buttons here if needed
       throw error;
     }
   },
 
-  async delete(id: string): Promise<{ msg: string }> {
-    const response = await apiClient.delete<{ msg: string }>(`/expenses/${id}`);
-    toast.success('Expense deleted successfully');
+  async delete(id: string): Promise<MutationResult<{ msg: string }>> {
+    deferredReceipts.delete(id);
+    const { data: response, queued } = await apiClient.mutate<{ msg: string }>('DELETE', `/expenses/${id}`, undefined, {
+      entity: 'expenses',
+      recordId: id,
+      optimistic: { msg: 'Queued for deletion' },
+    });
+    if (!queued) toast.success('Expense deleted successfully');
+    return { data: response, queued };
+  },
+
+  // Moves an expense through the approval workflow. Online only: approvals
+  // are checked against the current status on the server.
+  async updateStatus(id: string, data: ExpenseStatusUpdate): Promise<ExpenseRead> {
+    return apiClient.post<ExpenseRead>(`/expenses/${id}/status`, data);
+  },
+
+  // Latest first
+  async getStatusHistory(id: string): Promise<ExpenseStatusChange[]> {
+    return apiClient.get<ExpenseStatusChange[]>(`/expenses/${id}/status-history`);
+  },
+
+  // Uploads receipts for an expense still waiting in the offline queue once
+  // it has synced
+  deferAttachments(localId: string, receipts: { file: Blob; fileName: string }[]): void {
+    deferredReceipts.set(localId, [...(deferredReceipts.get(localId) ?? []), ...receipts]);
+  },
+
+  // No toast: the expense form reports once all receipts are saved
+  async uploadAttachment(expenseId: string, file: Blob, fileName: string): Promise<ExpenseAttachment> {
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+    return apiClient.upload<ExpenseAttachment>(`/expenses/${expenseId}/attachments`, formData);
+  },
+
+  async deleteAttachment(expenseId: string, attachmentId: string): Promise<{ msg: string }> {
+    return apiClient.delete<{ msg: string }>(`/expenses/${expenseId}/attachments/${attachmentId}`);
+  },
+
+  async getBudgets(): Promise<ExpenseBudget[]> {
+    return apiClient.get<ExpenseBudget[]>('/expenses/budgets');
+  },
+
+  async updateBudget(category: string, data: ExpenseBudgetUpdate): Promise<ExpenseBudget> {
+    const response = await apiClient.put<ExpenseBudget>(`/expenses/budgets/${encodeURIComponent(category)}`, data);
+    toast.success('Budget updated');
+    return response;
+  },
+
+  async deleteBudget(category: string): Promise<{ msg: string }> {
+    const response = await apiClient.delete<{ msg: string }>(`/expenses/budgets/${encodeURIComponent(category)}`);
+    toast.success('Budget removed');
+    return response;
+  },
+
+  // Categories are read from /general/constants; these manage them
+  async createCategory(data: ExpenseCategoryCreate): Promise<ExpenseCategory> {
+    const response = await apiClient.post<ExpenseCategory>('/expenses/categories', data);
+    toast.success('Category created successfully');
+    return response;
+  },
+
+  async updateCategory(value: string, data: ExpenseCategoryUpdate): Promise<ExpenseCategory> {
+    const response = await apiClient.put<ExpenseCategory>(`/expenses/categories/${encodeURIComponent(value)}`, data);
+    toast.success('Category updated successfully');
     return response;
   }
 };
 
+// ============================================================================
+// Income API Functions
+// ============================================================================
+
+export const incomeApi = {
+  async create(data: IncomeCreate): Promise<MutationResult<IncomeRead>> {
+    const localId = createLocalId();
+    const { data: response, queued } = await apiClient.mutate<IncomeRead>('POST', '/income', data, {
+      entity: 'income',
+      recordId: localId,
+      optimistic: { ...data, id: localId },
+    });
+    if (!queued) toast.success('Income recorded successfully');
+    return { data: response, queued };
+  },
+
+  async getAll(params?: PaginationParams & {
+    from_date?: string;
+    to_date?: string;
+    mode?: PaymentMode;
+  }): Promise<Paginated<IncomeRead>> {
+    return apiClient.getPaginated<IncomeRead>('/income', params);
+  },
+
+  async update(id: string, data: IncomeUpdate): Promise<MutationResult<IncomeRead>> {
+    const { data: response, queued } = await apiClient.mutate<IncomeRead>('PUT', `/income/${id}`, data, {
+      entity: 'income',
+      recordId: id,
+      optimistic: { ...data, id } as IncomeRead,
+    });
+    if (!queued) toast.success('Income updated successfully');
+    return { data: response, queued };
+  },
+
+  async delete(id: string): Promise<MutationResult<{ msg: string }>> {
+    const { data: response, queued } = await apiClient.mutate<{ msg: string }>('DELETE', `/income/${id}`, undefined, {
+      entity: 'income',
+      recordId: id,
+      optimistic: { msg: 'Queued for deletion' },
+    });
+    if (!queued) toast.success('Income deleted successfully');
+    return { data: response, queued };
+  },
+
+  async getCashBalance(before: string): Promise<CashBalance> {
+    return apiClient.get<CashBalance>('/cash-book/balance', { before });
+  },
+};
+
+// ============================================================================
+// Offline Sync API Functions
+// ============================================================================
+
+export const syncApi = {
+  // Load the persisted queue (call once on startup)
+  load(): Promise<QueuedMutation[]> {
+    return OfflineQueue.load();
+  },
+
+  getQueued(): QueuedMutation[] {
+    return OfflineQueue.getAll();
+  },
+
+  subscribe: (listener: (mutations: QueuedMutation[]) => void) => OfflineQueue.subscribe(listener),
+
+  // Notified after every replay run, e.g. to reload a table
+  subscribeToSync: (listener: (result: ReplayResult) => void) => OfflineQueue.subscribeReplay(listener),
+
+  isSyncing: () => OfflineQueue.isReplaying(),
+
+  // Replay queued mutations in order. Skipped while offline or logged out.
+  async syncNow(): Promise<ReplayResult | null> {
+    if (OfflineQueue.isOffline() || !apiUtils.isAuthenticated()) return null;
+
+    const queued = await OfflineQueue.load();
+    if (!queued.some(m => m.state === 'pending')) return null;
+
+    const result = await OfflineQueue.replay(mutation => apiClient.replay(mutation));
+    if (result.synced > 0) {
+      toast.success(`Synced ${result.synced} offline change${result.synced === 1 ? '' : 's'}`);
+    }
+    if (result.failed > 0) {
+      toast.error(`${result.failed} offline change${result.failed === 1 ? '' : 's'} could not be synced`);
+    }
+    return result;
+  },
+
+  async retryFailed(): Promise<ReplayResult | null> {
+    await OfflineQueue.retryFailed();
+    return syncApi.syncNow();
+  },
+
+  discardFailed(): Promise<void> {
+    return OfflineQueue.discardFailed();
+  },
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    syncApi.syncNow().catch(error => console.error('Failed to sync offline queue:', error));
+  });
+  OfflineQueue.subscribeRecordIds((localId, serverId) => {
+    uploadDeferredReceipts(localId, serverId);
+  });
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -704,6 +1522,29 @@ export const apiUtils = {
     return error.message;
   },
 
+  // Collects every item by requesting pages until there are no more
+  async fetchAllPages<T>(
+    fetchPage: (params: PaginationParams) => Promise<Paginated<T>>,
+    pageSize = 200
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let hasMore = true;
+    while (hasMore) {
+      const page = await fetchPage({ skip: items.length, limit: pageSize });
+      items.push(...page.items);
+      hasMore = page.hasMore && page.items.length > 0;
+    }
+    return items;
+  },
+
+  // Number of matching items. Uses the reported total, and falls back to
+  // fetching every page when the server doesn't report one.
+  async countAll<T>(fetchPage: (params: PaginationParams) => Promise<Paginated<T>>): Promise<number> {
+    const { total } = await fetchPage({ limit: 1 });
+    if (total !== null) return total;
+    return (await apiUtils.fetchAllPages(fetchPage)).length;
+  },
+
   // Build query string from params
   buildQueryString(params: QueryParams): string {
     const searchParams = new URLSearchParams();
@@ -720,21 +1561,16 @@ export const apiUtils = {
 // Export Default API Service
 // ============================================================================
 
-
-export async function fetchConstants(): Promise<ConstantsResponse> {
-  const constants = await apiClient.get<ConstantsResponse>('/general/constants');
-  BHAGAT_NAMES = constants.assigned_bhagat;
-  STATUS_OPTIONS = constants.status;
-  COORDINATOR_NAME = constants.coordinator_name;
-  DRIVER_NAME = constants.driver_name;
-  return constants;
-}
-
 const api = {
   auth: authApi,
+  general: generalApi,
+  templates: templatesApi,
   bookSeva: bookSevaApi,
   callingSeva: callingSevaApi,
   expenses: expensesApi,
+  income: incomeApi,
+  inventory: inventoryApi,
+  sync: syncApi,
   utils: apiUtils,
 };
 
@@ -0,0 +1,96 @@
+import type { BhagatWorkload, CallingSevaRead } from './api';
+
+// ============================================================================
+// Calling Seva auto-assignment
+// ============================================================================
+//
+// Picks a bhagat for new or reassigned calls. Round-robin walks the bhagat
+// list from the last one assigned on this device; least-open picks whoever
+// has the fewest open calls; language-match does the same among bhagats who
+// speak the contact's language, falling back to everyone. Picks for a batch
+// update the counts as they go so one bhagat doesn't receive the whole batch.
+
+export const ASSIGNMENT_STRATEGIES = ['round-robin', 'least-open', 'language'] as const;
+export type AssignmentStrategy = typeof ASSIGNMENT_STRATEGIES[number];
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  'round-robin': 'Round robin',
+  'least-open': 'Fewest open calls',
+  language: 'Language match',
+};
+
+const STRATEGY_KEY = 'assignment_strategy';
+const LAST_ASSIGNED_KEY = 'assignment_last_bhagat';
+
+export const isAssignmentStrategy = (value: string | null): value is AssignmentStrategy =>
+  ASSIGNMENT_STRATEGIES.includes(value as AssignmentStrategy);
+
+export const loadAssignmentStrategy = (): AssignmentStrategy => {
+  if (typeof window === 'undefined') return 'round-robin';
+  const stored = localStorage.getItem(STRATEGY_KEY);
+  return isAssignmentStrategy(stored) ? stored : 'round-robin';
+};
+
+export const saveAssignmentStrategy = (strategy: AssignmentStrategy) => {
+  localStorage.setItem(STRATEGY_KEY, strategy);
+};
+
+export interface AssignmentContext {
+  bhagatNames: string[];
+  // Empty when offline; strategies that need counts then treat everyone as equal
+  workload: BhagatWorkload[];
+}
+
+type Contact = Pick<CallingSevaRead, 'language'>;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const nextInRotation = (bhagatNames: string[], last: string | null) => {
+  const index = last ? bhagatNames.findIndex(name => sameName(name, last)) : -1;
+  return bhagatNames[(index + 1) % bhagatNames.length];
+};
+
+// Ties go to the bhagat listed first
+const leastOpen = (candidates: string[], openCounts: Map<string, number>) =>
+  candidates.reduce((best, name) =>
+    (openCounts.get(name) ?? 0) < (openCounts.get(best) ?? 0) ? name : best);
+
+const speaks = (workload: BhagatWorkload[], bhagat: string, language?: string) =>
+  !!language && !!workload.find(w => sameName(w.bhagat_name, bhagat))?.languages
+    ?.some(l => sameName(l, language));
+
+// One bhagat per contact, in order
+export const assignBhagats = (
+  strategy: AssignmentStrategy,
+  context: AssignmentContext,
+  contacts: Contact[]
+): string[] => {
+  const { bhagatNames, workload } = context;
+  if (bhagatNames.length === 0) return contacts.map(() => '');
+
+  const openCounts = new Map(bhagatNames.map(name => [
+    name,
+    workload.find(w => sameName(w.bhagat_name, name))?.open ?? 0,
+  ]));
+  let last = typeof window === 'undefined' ? null : localStorage.getItem(LAST_ASSIGNED_KEY);
+
+  return contacts.map(contact => {
+    let pick: string;
+    if (strategy === 'round-robin') {
+      pick = nextInRotation(bhagatNames, last);
+    } else {
+      const speakers = strategy === 'language'
+        ? bhagatNames.filter(name => speaks(workload, name, contact.language))
+        : [];
+      pick = leastOpen(speakers.length > 0 ? speakers : bhagatNames, openCounts);
+    }
+    openCounts.set(pick, (openCounts.get(pick) ?? 0) + 1);
+    last = pick;
+    return pick;
+  });
+};
+
+// Call with the last bhagat saved, so round-robin continues from there
+export const rememberAssignment = (bhagat: string) => {
+  if (bhagat) localStorage.setItem(LAST_ASSIGNED_KEY, bhagat);
+};
@@ -0,0 +1,125 @@
+import type { CallingSevaRead } from './api';
+import { getDuplicateKey } from './duplicates';
+
+// ============================================================================
+// WhatsApp outreach campaigns
+// ============================================================================
+//
+// A campaign is a fixed list of recipients stepped through one at a time on
+// this device. wa.me links can't report delivery, so the caller marks each
+// recipient sent or skipped. State is kept in localStorage so an unfinished
+// campaign can be resumed after a refresh.
+
+const STORAGE_KEY = 'whatsapp_campaigns';
+// Older finished campaigns are dropped beyond this
+const MAX_STORED = 20;
+
+export type RecipientState = 'pending' | 'sent' | 'skipped';
+
+export interface CampaignRecipient {
+  id: string;
+  name?: string;
+  mobile_no: string;
+  assigned_bhagat_name: string;
+  state: RecipientState;
+  // When the recipient was marked sent or skipped
+  updatedAt?: number;
+}
+
+export interface CampaignSegment {
+  status: string;
+  assigned_bhagat_name?: string;
+  from_date?: string;
+  to_date?: string;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  segment: CampaignSegment;
+  // Snapshot of the template, so later edits don't change a running campaign
+  templateId: string;
+  templateBody: string;
+  book?: string;
+  recipients: CampaignRecipient[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const toRecipient = (record: CallingSevaRead): CampaignRecipient => ({
+  id: record.id,
+  name: record.name,
+  mobile_no: record.mobile_no,
+  assigned_bhagat_name: record.assigned_bhagat_name,
+  state: 'pending',
+});
+
+// One message per number, skipping records without one
+export const uniqueRecipients = (records: CallingSevaRead[]): CampaignRecipient[] => {
+  const seen = new Set<string>();
+  return records.filter(record => {
+    const key = getDuplicateKey(record.mobile_no);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(toRecipient);
+};
+
+export const getCampaignProgress = (campaign: Campaign) => {
+  const count = (state: RecipientState) => campaign.recipients.filter(r => r.state === state).length;
+  const sent = count('sent');
+  const skipped = count('skipped');
+  const total = campaign.recipients.length;
+  return { sent, skipped, pending: total - sent - skipped, total };
+};
+
+export const getNextRecipientIndex = (campaign: Campaign): number =>
+  campaign.recipients.findIndex(r => r.state === 'pending');
+
+export const isCampaignComplete = (campaign: Campaign): boolean =>
+  getNextRecipientIndex(campaign) === -1;
+
+export const setRecipientState = (campaign: Campaign, index: number, state: RecipientState): Campaign => {
+  const now = Date.now();
+  return {
+    ...campaign,
+    recipients: campaign.recipients.map((r, i) =>
+      i === index ? { ...r, state, updatedAt: state === 'pending' ? undefined : now } : r
+    ),
+    updatedAt: now,
+  };
+};
+
+export const loadCampaigns = (): Campaign[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const campaigns = raw ? (JSON.parse(raw) as Campaign[]) : [];
+    return Array.isArray(campaigns) ? campaigns : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCampaigns = (campaigns: Campaign[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(campaigns));
+  } catch (error) {
+    console.error('Failed to save campaigns:', error);
+  }
+};
+
+// Inserts or replaces a campaign; the list is kept newest first
+export const saveCampaign = (campaign: Campaign): Campaign[] => {
+  const campaigns = [campaign, ...loadCampaigns().filter(c => c.id !== campaign.id)]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_STORED);
+  writeCampaigns(campaigns);
+  return campaigns;
+};
+
+export const deleteCampaign = (id: string): Campaign[] => {
+  const campaigns = loadCampaigns().filter(c => c.id !== id);
+  writeCampaigns(campaigns);
+  return campaigns;
+};
@@ -0,0 +1,154 @@
+import type { CallingSevaCreate, CallingSevaImportRecord } from './api';
+import { parsePhoneNumber } from './phone';
+import { fromExcelSerial, type SheetRows } from './spreadsheet';
+
+// ============================================================================
+// Calling Seva contact import
+// ============================================================================
+//
+// Spreadsheet rows are mapped to CallingSevaCreate fields, validated and
+// checked for duplicates before anything is sent to the server. Blank status,
+// bhagat and date cells fall back to the defaults chosen in the wizard.
+
+export type ImportField = keyof Pick<
+  CallingSevaCreate,
+  'date' | 'name' | 'mobile_no' | 'address' | 'language' | 'status' | 'assigned_bhagat_name' | 'remarks' | 'wa_message'
+>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'mobile_no', label: 'Mobile Number', required: true, aliases: ['mobile', 'mobile no', 'phone', 'phone number', 'contact', 'whatsapp'] },
+  { field: 'name', label: 'Name', required: false, aliases: ['name', 'full name', 'seeker', 'contact name'] },
+  { field: 'address', label: 'Address', required: true, aliases: ['address', 'place', 'location', 'city'] },
+  { field: 'language', label: 'Language', required: false, aliases: ['language', 'lang', 'preferred language'] },
+  { field: 'date', label: 'Date', required: false, aliases: ['date', 'registered on', 'signup date'] },
+  { field: 'status', label: 'Status', required: false, aliases: ['status'] },
+  { field: 'assigned_bhagat_name', label: 'Assigned Bhagat', required: false, aliases: ['bhagat', 'assigned bhagat', 'assigned to', 'caller'] },
+  { field: 'remarks', label: 'Remarks', required: false, aliases: ['remarks', 'notes', 'comment', 'comments'] },
+  { field: 'wa_message', label: 'WhatsApp Message', required: false, aliases: ['message', 'whatsapp message'] },
+];
+
+// Column index per field; null when the field isn't in the file
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportDefaults {
+  status: string;
+  assigned_bhagat_name: string;
+  date: string;
+}
+
+export interface ImportRow {
+  // Line number in the file, counting the header as line 1
+  line: number;
+  data: CallingSevaImportRecord;
+  errors: string[];
+  // Set when the number is already in Calling Seva or earlier in the file
+  duplicate?: 'existing' | 'file';
+}
+
+const simplify = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const simplified = headers.map(simplify);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = simplified.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+// YYYY-MM-DD for a real calendar day, or null when the parts roll over
+// (e.g. 31/02 would otherwise become 3 March)
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() + 1 !== month || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Accepts ISO dates, dd/mm/yyyy (Indian order) and Excel date serials
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (dmy) {
+    const [, day, month, year] = dmy;
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    return toIsoDate(Number(fullYear), Number(month), Number(day));
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const date = fromExcelSerial(Number(text));
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+  }
+  return null;
+};
+
+// Case-insensitive match against an allowed list, returning its spelling
+const matchOption = (value: string, options: string[]) =>
+  options.find(option => option.trim().toLowerCase() === value.trim().toLowerCase());
+
+export const validateImportRows = (
+  rows: SheetRows,
+  mapping: ColumnMapping,
+  defaults: ImportDefaults,
+  options: { statusOptions: string[]; bhagatNames: string[]; existingNumbers: Set<string> }
+): ImportRow[] => {
+  const seenNumbers = new Set<string>();
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows
+    .map((row, i) => ({ row, line: i + 2 }))
+    .filter(({ row }) => row.some(value => value?.trim()))
+    .map(({ row, line }) => {
+      const errors: string[] = [];
+
+      const phone = parsePhoneNumber(cell(row, 'mobile_no'));
+      if (!phone.valid) errors.push(phone.error);
+
+      const address = cell(row, 'address');
+      if (!address) errors.push('Address is required');
+
+      const rawStatus = cell(row, 'status');
+      const status = rawStatus ? matchOption(rawStatus, options.statusOptions) : defaults.status;
+      if (!status) errors.push(`Unknown status "${rawStatus}"`);
+
+      const rawBhagat = cell(row, 'assigned_bhagat_name');
+      const bhagat = rawBhagat ? matchOption(rawBhagat, options.bhagatNames) : defaults.assigned_bhagat_name;
+      if (!bhagat) errors.push(`Unknown bhagat "${rawBhagat}"`);
+
+      const rawDate = cell(row, 'date');
+      const date = rawDate ? parseImportDate(rawDate) : defaults.date;
+      if (!date) errors.push(`Invalid date "${rawDate}"`);
+
+      let duplicate: ImportRow['duplicate'];
+      if (phone.valid) {
+        if (options.existingNumbers.has(phone.e164)) duplicate = 'existing';
+        else if (seenNumbers.has(phone.e164)) duplicate = 'file';
+        seenNumbers.add(phone.e164);
+      }
+
+      return {
+        line,
+        errors,
+        duplicate,
+        data: {
+          date: date || '',
+          name: cell(row, 'name') || undefined,
+          mobile_no: phone.valid ? phone.e164 : cell(row, 'mobile_no'),
+          address,
+          language: cell(row, 'language').toLowerCase() || undefined,
+          status: status || rawStatus,
+          assigned_bhagat_name: bhagat || rawBhagat,
+          remarks: cell(row, 'remarks') || undefined,
+          wa_message: cell(row, 'wa_message') || undefined,
+        },
+      };
+    });
+};
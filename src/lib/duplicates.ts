@@ -0,0 +1,60 @@
+import type { CallingSevaRead } from './api';
+import { normalizePhoneNumber } from './phone';
+
+// ============================================================================
+// Duplicate Calling Seva contacts
+// ============================================================================
+//
+// Records are duplicates when their mobile numbers normalize to the same
+// E.164 value. Numbers that can't be parsed fall back to their bare digits.
+
+export interface DuplicateGroup {
+  key: string;
+  // Oldest first; the oldest record is the default merge target
+  records: CallingSevaRead[];
+}
+
+export const getDuplicateKey = (mobileNo?: string | null): string =>
+  normalizePhoneNumber(mobileNo) ?? (mobileNo || '').replace(/\D/g, '');
+
+const byDate = (a: CallingSevaRead, b: CallingSevaRead) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Largest groups first
+export const findDuplicateGroups = (records: CallingSevaRead[]): DuplicateGroup[] => {
+  const groups = new Map<string, CallingSevaRead[]>();
+  records.forEach(record => {
+    const key = getDuplicateKey(record.mobile_no);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, items]) => items.length > 1)
+    .map(([key, items]) => ({ key, records: [...items].sort(byDate) }))
+    .sort((a, b) => b.records.length - a.records.length || a.key.localeCompare(b.key));
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Keeps every distinct remark, labelling the ones carried over from the
+// duplicates with their date and bhagat
+export const mergeRemarks = (primary: CallingSevaRead, duplicates: CallingSevaRead[]): string => {
+  const seen = new Set<string>();
+  const parts: string[] = [];
+  const add = (remarks: string | undefined, label?: string) => {
+    const text = remarks?.trim();
+    if (!text || seen.has(text)) return;
+    seen.add(text);
+    parts.push(label ? `[${label}] ${text}` : text);
+  };
+
+  add(primary.remarks);
+  duplicates.forEach(record => add(record.remarks, `${formatDate(record.date)}, ${record.assigned_bhagat_name}`));
+  return parts.join('\n');
+};
+
+// First name found, preferring the primary record
+export const mergeName = (primary: CallingSevaRead, duplicates: CallingSevaRead[]): string | undefined =>
+  [primary, ...duplicates].map(record => record.name?.trim()).find(Boolean);
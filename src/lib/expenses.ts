@@ -0,0 +1,251 @@
+import type { BudgetPeriod, CategoryTotal, ExpenseBudget, ExpenseCategory, ExpenseRead, ExpenseStatus } from './api';
+
+// ============================================================================
+// Expense categories & budgets
+// ============================================================================
+//
+// Categories come from the server with the other constants. Pickers offer
+// active categories only, but lookups cover retired ones too, and values the
+// list has never had fall back to the stored text, so every expense still
+// displays.
+//
+// A budget caps a category's spend per calendar month or per financial year
+// (April to March, as the accounts are kept). Spend is always compared for
+// the period containing a given day: today for the overview, or the
+// expense's own date in the expense form.
+//
+// Expenses are drafted, submitted, then approved or rejected by a
+// coordinator, and finally marked reimbursed once the money is paid back.
+// Only approved and reimbursed expenses are committed spend.
+
+export const CATEGORY_COLOR_CLASSES: Record<string, string> = {
+  blue: 'bg-blue-50 text-blue-700 border border-blue-200',
+  purple: 'bg-purple-50 text-purple-700 border border-purple-200',
+  green: 'bg-green-50 text-green-700 border border-green-200',
+  amber: 'bg-amber-50 text-amber-700 border border-amber-200',
+  red: 'bg-red-50 text-red-700 border border-red-200',
+  pink: 'bg-pink-50 text-pink-700 border border-pink-200',
+  teal: 'bg-teal-50 text-teal-700 border border-teal-200',
+  gray: 'bg-muted text-muted-foreground border border-border',
+};
+
+export const CATEGORY_COLORS = Object.keys(CATEGORY_COLOR_CLASSES);
+
+// Used until the server provides categories
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  { value: 'seva', label: 'Seva', color: 'blue', active: true, sub_categories: [] },
+  { value: 'naamdaan', label: 'Naamdaan', color: 'purple', active: true, sub_categories: [] },
+];
+
+export const findCategory = (categories: ExpenseCategory[], value?: string | null) =>
+  categories.find(category => category.value === value);
+
+export const categoryLabel = (categories: ExpenseCategory[], value: string) =>
+  findCategory(categories, value)?.label ?? value;
+
+export const categoryBadgeClass = (categories: ExpenseCategory[], value: string) =>
+  CATEGORY_COLOR_CLASSES[findCategory(categories, value)?.color ?? ''] ?? CATEGORY_COLOR_CLASSES.gray;
+
+export const subCategoryLabel = (categories: ExpenseCategory[], category: string, value: string) =>
+  findCategory(categories, category)?.sub_categories.find(sub => sub.value === value)?.label ?? value;
+
+// Active entries, plus the current value if it has since been retired, so
+// editing an older expense doesn't silently change it
+const withCurrent = <T extends { value: string; active: boolean }>(items: T[], current?: string | null) =>
+  items.filter(item => item.active || item.value === current);
+
+export const categoryOptions = (categories: ExpenseCategory[], current?: string | null) =>
+  withCurrent(categories, current);
+
+export const subCategoryOptions = (categories: ExpenseCategory[], category?: string, current?: string | null) =>
+  withCurrent(findCategory(categories, category)?.sub_categories ?? [], current);
+
+// Value for a new category or sub-category, from its label
+export const toCategoryValue = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['monthly', 'annual'];
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: 'Monthly',
+  annual: 'Annual',
+};
+
+// Share of a budget at which the category is flagged as nearly spent
+export const NEAR_BUDGET_RATIO = 0.8;
+
+export type BudgetStatus = 'ok' | 'near' | 'over';
+
+// April, zero-based
+const FINANCIAL_YEAR_START_MONTH = 3;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Form and record dates are calendar days; read them as local midnight
+export const parseDay = (value: string) => {
+  const date = new Date(`${value.slice(0, 10)}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export interface BudgetRange {
+  from_date: string;
+  to_date: string;
+  label: string;
+}
+
+export const getBudgetRange = (period: BudgetPeriod, day = new Date()): BudgetRange => {
+  if (period === 'monthly') {
+    const from = new Date(day.getFullYear(), day.getMonth(), 1);
+    const to = new Date(day.getFullYear(), day.getMonth() + 1, 0);
+    return {
+      from_date: toDateString(from),
+      to_date: toDateString(to),
+      label: from.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' }),
+    };
+  }
+  const startYear = day.getMonth() >= FINANCIAL_YEAR_START_MONTH ? day.getFullYear() : day.getFullYear() - 1;
+  return {
+    from_date: toDateString(new Date(startYear, FINANCIAL_YEAR_START_MONTH, 1)),
+    to_date: toDateString(new Date(startYear + 1, FINANCIAL_YEAR_START_MONTH, 0)),
+    label: `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`,
+  };
+};
+
+export const isInRange = (date: string, range: BudgetRange) => {
+  const day = date.slice(0, 10);
+  return day >= range.from_date && day <= range.to_date;
+};
+
+export const getBudgetStatus = (spent: number, amount: number): BudgetStatus => {
+  if (spent > amount) return 'over';
+  if (spent >= amount * NEAR_BUDGET_RATIO) return 'near';
+  return 'ok';
+};
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  ok: 'Within budget',
+  near: 'Near budget',
+  over: 'Over budget',
+};
+
+export interface BudgetRow {
+  category: string;
+  label: string;
+  budget: ExpenseBudget | null;
+  // The budget's current period; the current month for unbudgeted categories
+  range: BudgetRange;
+  spent: number;
+  // Spend as a percentage of the budget, not capped at 100
+  percent: number;
+  status: BudgetStatus;
+}
+
+// One row per active category, plus any other category that still has a
+// budget, with spend for the period containing `day`
+export const toBudgetRows = (
+  categories: ExpenseCategory[],
+  budgets: ExpenseBudget[],
+  totals: Record<BudgetPeriod, CategoryTotal[]>,
+  day = new Date()
+): BudgetRow[] => {
+  const byCategory = new Map(budgets.map(budget => [budget.category, budget]));
+  const active = categories.filter(category => category.active).map(category => category.value);
+  const values = [
+    ...active,
+    ...budgets.map(budget => budget.category).filter(category => !active.includes(category)),
+  ];
+
+  return values.map(category => {
+    const budget = byCategory.get(category) ?? null;
+    const period = budget?.period ?? 'monthly';
+    const spent = totals[period].find(total => total.category === category)?.total_amount ?? 0;
+    const percent = budget && budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
+    return {
+      category,
+      label: categoryLabel(categories, category),
+      budget,
+      range: getBudgetRange(period, day),
+      spent,
+      percent,
+      status: budget ? getBudgetStatus(spent, budget.amount) : 'ok',
+    };
+  });
+};
+
+// Budgeted categories at or past NEAR_BUDGET_RATIO, most spent first
+export const getBudgetAlerts = (rows: BudgetRow[]) =>
+  rows
+    .filter(row => row.budget && row.status !== 'ok')
+    .sort((a, b) => b.percent - a.percent);
+
+export const EXPENSE_STATUSES: ExpenseStatus[] = ['draft', 'submitted', 'approved', 'rejected', 'reimbursed'];
+
+export const EXPENSE_STATUS_LABELS: Record<ExpenseStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  reimbursed: 'Reimbursed',
+};
+
+export const EXPENSE_STATUS_BADGE_CLASSES: Record<ExpenseStatus, string> = {
+  draft: CATEGORY_COLOR_CLASSES.gray,
+  submitted: CATEGORY_COLOR_CLASSES.amber,
+  approved: CATEGORY_COLOR_CLASSES.green,
+  rejected: CATEGORY_COLOR_CLASSES.red,
+  reimbursed: CATEGORY_COLOR_CLASSES.teal,
+};
+
+// Expenses from before approvals have no status
+export const expenseStatus = (expense: { status?: ExpenseStatus }): ExpenseStatus => expense.status ?? 'approved';
+
+export const isApprovedExpense = (expense: { status?: ExpenseStatus }) =>
+  ['approved', 'reimbursed'].includes(expenseStatus(expense));
+
+// Spend per category over approved expenses only, matching the cash book.
+// Categories without any approved expenses are left out.
+export const approvedCategoryTotals = (expenses: ExpenseRead[]): CategoryTotal[] => {
+  const totals = new Map<string, CategoryTotal>();
+  expenses.filter(isApprovedExpense).forEach(expense => {
+    const total = totals.get(expense.category) ?? { category: expense.category, total_amount: 0, count: 0 };
+    total.total_amount += expense.total_amount;
+    total.count += 1;
+    totals.set(expense.category, total);
+  });
+  return [...totals.values()];
+};
+
+// Approved expenses are only changed by approvers, so what was signed off
+// stays as it was
+export const isExpenseLocked = (expense: { status?: ExpenseStatus }) => isApprovedExpense(expense);
+
+export interface ExpenseStatusAction {
+  to: ExpenseStatus;
+  label: string;
+  // Needs `expenses:approve` rather than `expenses:edit`
+  approver: boolean;
+  // Rejections must say why, so the expense can be fixed and resubmitted
+  requiresComment: boolean;
+}
+
+const STATUS_ACTIONS: Record<ExpenseStatus, ExpenseStatusAction[]> = {
+  draft: [
+    { to: 'submitted', label: 'Submit for approval', approver: false, requiresComment: false },
+  ],
+  submitted: [
+    { to: 'approved', label: 'Approve', approver: true, requiresComment: false },
+    { to: 'rejected', label: 'Reject', approver: true, requiresComment: true },
+    { to: 'draft', label: 'Withdraw', approver: false, requiresComment: false },
+  ],
+  rejected: [
+    { to: 'submitted', label: 'Resubmit', approver: false, requiresComment: false },
+  ],
+  approved: [
+    { to: 'reimbursed', label: 'Mark reimbursed', approver: true, requiresComment: false },
+  ],
+  reimbursed: [],
+};
+
+export const getStatusActions = (status: ExpenseStatus, permissions: { canEdit: boolean; canApprove: boolean }) =>
+  STATUS_ACTIONS[status].filter(action => (action.approver ? permissions.canApprove : permissions.canEdit));
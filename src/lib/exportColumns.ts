@@ -0,0 +1,158 @@
+import type { BookSevaRead, CallingSevaRead, ExpenseCategory, ExpenseRead, IncomeRead, StockMovement } from './api';
+import { EXPENSE_STATUS_LABELS, categoryLabel, expenseStatus, subCategoryLabel } from './expenses';
+import { PAYMENT_MODE_LABELS, isBookSevaIncome, purposeLabel, type CashBookEntry } from './income';
+import { describeMovement } from './inventory';
+import { formatPhoneNumber } from './phone';
+
+// ============================================================================
+// Export columns
+// ============================================================================
+//
+// One column list per exportable entity. Values keep their type (numbers,
+// dates) so XLSX cells stay numeric and PDF totals add up; CSV formats them
+// as text. The export dialog lets the user pick which columns to include;
+// the choice is remembered per entity.
+
+export type ExportColumnType = 'text' | 'number' | 'currency' | 'date';
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  type?: ExportColumnType;
+  value: (record: T) => ExportValue;
+  // Summed in the totals row of XLSX and PDF reports
+  total?: boolean;
+  // Ticked the first time the entity is exported
+  default?: boolean;
+}
+
+export type ExportEntity = 'calling-seva' | 'book-seva' | 'expenses' | 'income' | 'cash-book' | 'inventory';
+
+// Record dates are calendar days; read them as local midnight
+const parseDate = (value?: string) => {
+  if (!value) return null;
+  const date = new Date(`${value.slice(0, 10)}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const formatExportDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export const formatExportCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(amount);
+
+// Display text for a value, as written to CSV and PDF
+export const formatExportValue = (value: ExportValue, type: ExportColumnType = 'text') => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatExportDate(value);
+  if (typeof value === 'number' && type === 'currency') return formatExportCurrency(value);
+  return String(value);
+};
+
+export const CALLING_SEVA_COLUMNS: ExportColumn<CallingSevaRead>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'name', header: 'Name', value: r => r.name, default: true },
+  { key: 'address', header: 'Address', value: r => r.address, default: true },
+  { key: 'mobile_no', header: 'Mobile', value: r => formatPhoneNumber(r.mobile_no), default: true },
+  { key: 'status', header: 'Status', value: r => r.status, default: true },
+  { key: 'assigned_bhagat_name', header: 'Assigned Bhagat', value: r => r.assigned_bhagat_name, default: true },
+  { key: 'language', header: 'Language', value: r => r.language },
+  { key: 'next_follow_up_at', header: 'Next Follow-up', value: r => (r.next_follow_up_at ? new Date(r.next_follow_up_at).toLocaleString('en-IN') : '') },
+  { key: 'remarks', header: 'Remarks', value: r => r.remarks, default: true },
+  { key: 'wa_message', header: 'WhatsApp Message', value: r => r.wa_message },
+];
+
+export const BOOK_SEVA_COLUMNS: ExportColumn<BookSevaRead>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'seva_place', header: 'Seva Place', value: r => r.seva_place, default: true },
+  { key: 'sevadar_name', header: 'Sevadar', value: r => r.sevadar_name, default: true },
+  { key: 'book_name', header: 'Book', value: r => r.book_name, default: true },
+  { key: 'book_type', header: 'Book Type', value: r => r.book_type, default: true },
+  { key: 'quantity', header: 'Quantity', type: 'number', value: r => r.quantity, total: true, default: true },
+  { key: 'coordinator_name', header: 'Coordinator', value: r => r.coordinator_name, default: true },
+  { key: 'driver_name', header: 'Driver', value: r => r.driver_name, default: true },
+  { key: 'outing_id', header: 'Outing', value: r => r.outing_id },
+];
+
+// Categories are managed on the server, so labels are looked up per export
+export const getExpenseColumns = (categories: ExpenseCategory[]): ExportColumn<ExpenseRead>[] => [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'item_name', header: 'Item', value: r => r.item_name, default: true },
+  { key: 'category', header: 'Category', value: r => categoryLabel(categories, r.category), default: true },
+  { key: 'sub_category', header: 'Sub-category', value: r => (r.sub_category ? subCategoryLabel(categories, r.category, r.sub_category) : '') },
+  { key: 'item_price', header: 'Price', type: 'currency', value: r => r.item_price, default: true },
+  { key: 'quantity', header: 'Quantity', type: 'number', value: r => r.quantity, total: true, default: true },
+  { key: 'total_amount', header: 'Total', type: 'currency', value: r => r.total_amount, total: true, default: true },
+  { key: 'receipts', header: 'Receipts', type: 'number', value: r => r.attachments?.length ?? 0 },
+  { key: 'status', header: 'Status', value: r => EXPENSE_STATUS_LABELS[expenseStatus(r)], default: true },
+  { key: 'created_by', header: 'Submitted By', value: r => r.created_by },
+];
+
+export const INCOME_COLUMNS: ExportColumn<IncomeRead>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'donor_name', header: 'Received From', value: r => r.donor_name, default: true },
+  { key: 'purpose', header: 'Purpose', value: r => purposeLabel(r.purpose), default: true },
+  { key: 'mode', header: 'Mode', value: r => PAYMENT_MODE_LABELS[r.mode] ?? r.mode, default: true },
+  { key: 'receipt_no', header: 'Receipt No', value: r => r.receipt_no, default: true },
+  { key: 'amount', header: 'Amount', type: 'currency', value: r => r.amount, total: true, default: true },
+  { key: 'remarks', header: 'Remarks', value: r => r.remarks },
+  { key: 'source', header: 'Source', value: r => (isBookSevaIncome(r) ? 'Book seva' : 'Manual') },
+  { key: 'created_by', header: 'Recorded By', value: r => r.created_by },
+];
+
+export const CASH_BOOK_COLUMNS: ExportColumn<CashBookEntry>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'particulars', header: 'Particulars', value: r => r.particulars, default: true },
+  { key: 'head', header: 'Head', value: r => r.head, default: true },
+  { key: 'mode', header: 'Mode', value: r => (r.mode ? PAYMENT_MODE_LABELS[r.mode] : ''), default: true },
+  { key: 'receipt_no', header: 'Receipt No', value: r => r.receipt_no },
+  { key: 'receipt', header: 'Receipts', type: 'currency', value: r => r.receipt || null, total: true, default: true },
+  { key: 'payment', header: 'Payments', type: 'currency', value: r => r.payment || null, total: true, default: true },
+  { key: 'balance', header: 'Balance', type: 'currency', value: r => r.balance, default: true },
+];
+
+export const STOCK_MOVEMENT_COLUMNS: ExportColumn<StockMovement>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: r => parseDate(r.date), default: true },
+  { key: 'book_name', header: 'Book', value: r => r.book_name, default: true },
+  { key: 'type', header: 'Type', value: r => r.type, default: true },
+  { key: 'quantity', header: 'Quantity', type: 'number', value: r => r.quantity, total: true, default: true },
+  { key: 'balance_after', header: 'Balance After', type: 'number', value: r => r.balance_after, default: true },
+  { key: 'details', header: 'Details', value: describeMovement, default: true },
+  { key: 'created_by', header: 'Recorded By', value: r => r.created_by || 'N/A', default: true },
+];
+
+const columnsKey = (entity: ExportEntity) => `export_columns_${entity}`;
+
+export const defaultColumnKeys = <T>(columns: ExportColumn<T>[]) =>
+  columns.filter(column => column.default).map(column => column.key);
+
+// Saved keys that still exist, falling back to the defaults
+export const loadColumnKeys = <T>(entity: ExportEntity, columns: ExportColumn<T>[]): string[] => {
+  if (typeof window === 'undefined') return defaultColumnKeys(columns);
+  try {
+    const saved = JSON.parse(localStorage.getItem(columnsKey(entity)) || 'null') as string[] | null;
+    const keys = saved ? columns.filter(column => saved.includes(column.key)).map(column => column.key) : [];
+    return keys.length > 0 ? keys : defaultColumnKeys(columns);
+  } catch {
+    return defaultColumnKeys(columns);
+  }
+};
+
+export const saveColumnKeys = (entity: ExportEntity, keys: string[]) => {
+  localStorage.setItem(columnsKey(entity), JSON.stringify(keys));
+};
+
+// Headers and text rows for the chosen columns, in column-list order
+export const buildExport = <T>(columns: ExportColumn<T>[], keys: string[], records: T[]) => {
+  const chosen = columns.filter(column => keys.includes(column.key));
+  return {
+    headers: chosen.map(column => column.header),
+    rows: records.map(record => chosen.map(column => {
+      const value = column.value(record);
+      // Plain numbers keep spreadsheet apps able to sum the CSV
+      return typeof value === 'number' ? value : formatExportValue(value, column.type);
+    })),
+  };
+};
@@ -0,0 +1,99 @@
+// ============================================================================
+// Calling Seva follow-ups
+// ============================================================================
+//
+// Follow-ups are bucketed by the device's local day: anything scheduled
+// before now is overdue, the rest of today is due today, and everything from
+// tomorrow on is upcoming.
+
+export const FOLLOW_UP_BUCKETS = ['overdue', 'today', 'upcoming'] as const;
+export type FollowUpBucket = typeof FOLLOW_UP_BUCKETS[number];
+
+export const FOLLOW_UP_LABELS: Record<FollowUpBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  upcoming: 'Upcoming',
+};
+
+// Default time of day for day-based snoozes
+const MORNING_HOUR = 10;
+
+const startOfTomorrow = (now: Date) => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + 1);
+  return date;
+};
+
+const daysFromNowAt = (now: Date, days: number, hour = MORNING_HOUR) => {
+  const date = new Date(now);
+  date.setDate(date.getDate() + days);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+export const isFollowUpBucket = (value: string | null): value is FollowUpBucket =>
+  FOLLOW_UP_BUCKETS.includes(value as FollowUpBucket);
+
+// Query bounds for a bucket, as accepted by callingSevaApi.getFollowUps
+export const getBucketRange = (bucket: FollowUpBucket, now = new Date()) => {
+  const tomorrow = startOfTomorrow(now).toISOString();
+  switch (bucket) {
+    case 'overdue':
+      return { due_before: now.toISOString() };
+    case 'today':
+      return { due_after: now.toISOString(), due_before: tomorrow };
+    case 'upcoming':
+      return { due_after: tomorrow };
+  }
+};
+
+export const getFollowUpBucket = (followUpAt: string, now = new Date()): FollowUpBucket => {
+  const due = new Date(followUpAt);
+  if (due < now) return 'overdue';
+  if (due < startOfTomorrow(now)) return 'today';
+  return 'upcoming';
+};
+
+export const SNOOZE_OPTIONS: { key: string; label: string; getDate: (now: Date) => Date }[] = [
+  { key: '1h', label: 'In 1 hour', getDate: now => new Date(now.getTime() + 60 * 60 * 1000) },
+  { key: 'tomorrow', label: 'Tomorrow morning', getDate: now => daysFromNowAt(now, 1) },
+  { key: '3d', label: 'In 3 days', getDate: now => daysFromNowAt(now, 3) },
+  { key: '1w', label: 'Next week', getDate: now => daysFromNowAt(now, 7) },
+];
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeLocal = (iso?: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocal = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+export const formatFollowUp = (followUpAt: string, now = new Date()): string => {
+  const due = new Date(followUpAt);
+  const time = due.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+  const bucket = getFollowUpBucket(followUpAt, now);
+
+  if (bucket === 'today') return `Today, ${time}`;
+
+  const date = due.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+  if (bucket === 'overdue') {
+    const days = Math.floor((now.getTime() - due.getTime()) / (24 * 60 * 60 * 1000));
+    return days >= 1 ? `${date} (${days} day${days === 1 ? '' : 's'} overdue)` : `Today, ${time} (overdue)`;
+  }
+  return `${date}, ${time}`;
+};
+
+// The bhagat list holds display names; match the signed-in user by name
+export const findBhagatForUser = (userName: string | undefined, bhagatNames: string[]): string | null => {
+  const name = userName?.trim().toLowerCase();
+  if (!name) return null;
+  return bhagatNames.find(bhagat => bhagat.trim().toLowerCase() === name)
+    ?? bhagatNames.find(bhagat => bhagat.trim().toLowerCase() === name.split(/\s+/)[0])
+    ?? null;
+};
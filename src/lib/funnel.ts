@@ -0,0 +1,161 @@
+import type { CallingSevaInteraction, CallingSevaRead } from './api';
+
+// ============================================================================
+// Calling Seva conversion funnel
+// ============================================================================
+//
+// Every record starts at the "Contacted" stage on its date (the first call).
+// The remaining stages are statuses chosen by the user, in journey order. A
+// record has reached a stage when its current status, or any status it was
+// moved to, is that stage or a later one, so skipping a step still counts
+// for the steps in between. It entered a stage at the first status change
+// that took it that far, or on its date when it was created there.
+
+export const CONTACTED_STAGE = 'Contacted';
+
+const STAGES_KEY = 'funnel_stages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses from the first "Interested..." one onwards, falling back to all
+export const getDefaultStages = (statusOptions: string[]) => {
+  const start = statusOptions.findIndex(status => status.trim().toLowerCase().startsWith('interested'));
+  return start >= 0 ? statusOptions.slice(start) : statusOptions;
+};
+
+// Saved stages that are still valid statuses, kept in status order
+export const loadFunnelStages = (statusOptions: string[]): string[] => {
+  if (typeof window === 'undefined') return getDefaultStages(statusOptions);
+  try {
+    const saved = JSON.parse(localStorage.getItem(STAGES_KEY) || 'null') as string[] | null;
+    const stages = saved ? statusOptions.filter(status => saved.includes(status)) : [];
+    return stages.length > 0 ? stages : getDefaultStages(statusOptions);
+  } catch {
+    return getDefaultStages(statusOptions);
+  }
+};
+
+export const saveFunnelStages = (stages: string[]) => {
+  localStorage.setItem(STAGES_KEY, JSON.stringify(stages));
+};
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+  // Share of the previous stage that reached this one; null for the first
+  conversion: number | null;
+  // Share of all contacts that reached this one
+  overall: number;
+  // Median days from entering the previous stage to entering this one
+  medianDays: number | null;
+}
+
+// Furthest stage index reached and when each stage was entered
+interface Journey {
+  reached: number;
+  enteredAt: (number | null)[];
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const recordTime = (record: CallingSevaRead) => {
+  const time = new Date(`${record.date.slice(0, 10)}T00:00:00`).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+// Status changes per record, oldest first
+export const groupStatusChanges = (changes: CallingSevaInteraction[]) => {
+  const byRecord = new Map<string, CallingSevaInteraction[]>();
+  changes
+    .filter(change => change.type === 'status_change' && change.to_status)
+    .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+    .forEach(change => {
+      const list = byRecord.get(change.calling_seva_id) ?? [];
+      list.push(change);
+      byRecord.set(change.calling_seva_id, list);
+    });
+  return byRecord;
+};
+
+const getJourney = (
+  record: CallingSevaRead,
+  changes: CallingSevaInteraction[],
+  stages: string[]
+): Journey => {
+  // Index 0 is "Contacted"; chosen statuses follow
+  const stageIndex = (status?: string) => (status ? stages.indexOf(status) + 1 : 0);
+  const createdAt = recordTime(record);
+  const enteredAt: (number | null)[] = [createdAt, ...stages.map(() => null)];
+
+  let reached = 0;
+  changes.forEach(change => {
+    const index = stageIndex(change.to_status);
+    const time = new Date(change.occurred_at).getTime();
+    for (let i = reached + 1; i <= index; i++) enteredAt[i] = time;
+    reached = Math.max(reached, index);
+  });
+
+  // Created in (or edited into) a stage without a recorded change
+  const current = stageIndex(record.status);
+  for (let i = reached + 1; i <= current; i++) enteredAt[i] = createdAt;
+  reached = Math.max(reached, current);
+
+  return { reached, enteredAt };
+};
+
+export const computeFunnel = (
+  records: CallingSevaRead[],
+  changesByRecord: Map<string, CallingSevaInteraction[]>,
+  stages: string[]
+): FunnelStage[] => {
+  const journeys = records.map(record => getJourney(record, changesByRecord.get(record.id) ?? [], stages));
+  const total = records.length;
+
+  return [CONTACTED_STAGE, ...stages].map((stage, i) => {
+    const reachedStage = journeys.filter(journey => journey.reached >= i);
+    const previousCount = i === 0 ? total : journeys.filter(journey => journey.reached >= i - 1).length;
+
+    const durations = i === 0 ? [] : reachedStage
+      .map(journey => {
+        const from = journey.enteredAt[i - 1];
+        const to = journey.enteredAt[i];
+        return from === null || to === null ? null : Math.max(0, to - from) / DAY_MS;
+      })
+      .filter((days): days is number => days !== null);
+
+    return {
+      stage,
+      count: reachedStage.length,
+      conversion: i === 0 ? null : previousCount ? reachedStage.length / previousCount : 0,
+      overall: total ? reachedStage.length / total : 0,
+      medianDays: median(durations),
+    };
+  });
+};
+
+// Records grouped by a key, keeping first-seen order
+export const groupRecords = (records: CallingSevaRead[], keyOf: (record: CallingSevaRead) => string) => {
+  const groups = new Map<string, CallingSevaRead[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return groups;
+};
+
+export const monthOf = (record: CallingSevaRead) => record.date.slice(0, 7);
+
+export const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+export const formatDays = (days: number | null) => {
+  if (days === null) return '—';
+  if (days < 1) return '< 1 day';
+  const rounded = Math.round(days);
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,65 @@
+// ============================================================================
+// Receipt images
+// ============================================================================
+//
+// Phone photos of bills are several megabytes; they are scaled down and
+// re-encoded as JPEG in the browser before upload. PDFs are sent as they are.
+
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+
+// Largest upload the server accepts, after compression
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+export interface PreparedReceipt {
+  blob: Blob;
+  fileName: string;
+}
+
+const toJpegName = (name: string) => `${name.replace(/\.[^.]+$/, '') || 'receipt'}.jpg`;
+
+export const compressImage = async (file: File): Promise<PreparedReceipt> => {
+  // imageOrientation applies the EXIF rotation phones record
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process the image');
+  // JPEG has no transparency; keep transparent PNGs readable
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error('Could not process the image');
+
+  // Already-small images can grow when re-encoded
+  return blob.size < file.size
+    ? { blob, fileName: toJpegName(file.name) }
+    : { blob: file, fileName: file.name };
+};
+
+// Compresses images and checks the size limit
+export const prepareReceipt = async (file: File): Promise<PreparedReceipt> => {
+  const isImage = file.type.startsWith('image/');
+  if (!isImage && file.type !== 'application/pdf') {
+    throw new Error(`${file.name} is not an image or PDF`);
+  }
+  const prepared = isImage ? await compressImage(file) : { blob: file, fileName: file.name };
+  if (prepared.blob.size > MAX_RECEIPT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_RECEIPT_BYTES / 1024 / 1024} MB`);
+  }
+  return prepared;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
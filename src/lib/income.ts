@@ -0,0 +1,101 @@
+import type { ExpenseCategory, ExpenseRead, IncomeRead, PaymentMode } from './api';
+import { categoryLabel, isApprovedExpense } from './expenses';
+
+// ============================================================================
+// Income & cash book
+// ============================================================================
+//
+// The cash book lists a period's income and expenses in date order, starting
+// from the balance brought forward (everything dated before the period) and
+// ending at the closing balance. It spans every payment mode, so it tracks
+// the fund as a whole rather than cash in hand; expenses carry no mode.
+// Only approved (or reimbursed) expenses are paid out of the fund.
+
+export const PAYMENT_MODES: PaymentMode[] = ['cash', 'upi', 'bank'];
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  bank: 'Bank',
+};
+
+export const INCOME_PURPOSES: { value: string; label: string }[] = [
+  { value: 'donation', label: 'Donation' },
+  { value: 'book_sale', label: 'Book sale' },
+  { value: 'other', label: 'Other' },
+];
+
+export const purposeLabel = (value: string) =>
+  INCOME_PURPOSES.find(purpose => purpose.value === value)?.label ?? value;
+
+// Entries the server writes for paid book seva; edited through book seva
+export const isBookSevaIncome = (income: IncomeRead) => !!income.reference_id;
+
+export type CashBookEntryType = 'income' | 'expense';
+
+export interface CashBookEntry {
+  key: string;
+  date: string;
+  type: CashBookEntryType;
+  // Donor or item
+  particulars: string;
+  // Purpose or expense category
+  head: string;
+  mode?: PaymentMode;
+  receipt_no?: string;
+  receipt: number;
+  payment: number;
+  // Balance after this entry
+  balance: number;
+}
+
+export interface CashBook {
+  opening: number;
+  entries: CashBookEntry[];
+  totalReceipts: number;
+  totalPayments: number;
+  closing: number;
+}
+
+export const buildCashBook = (
+  opening: number,
+  income: IncomeRead[],
+  expenses: ExpenseRead[],
+  categories: ExpenseCategory[]
+): CashBook => {
+  const rows: Omit<CashBookEntry, 'balance'>[] = [
+    ...income.map(item => ({
+      key: `income-${item.id}`,
+      date: item.date.slice(0, 10),
+      type: 'income' as const,
+      particulars: item.donor_name,
+      head: purposeLabel(item.purpose),
+      mode: item.mode,
+      receipt_no: item.receipt_no,
+      receipt: item.amount,
+      payment: 0,
+    })),
+    ...expenses.filter(isApprovedExpense).map(item => ({
+      key: `expense-${item.id}`,
+      date: item.date.slice(0, 10),
+      type: 'expense' as const,
+      particulars: item.item_name,
+      head: categoryLabel(categories, item.category),
+      receipt: 0,
+      payment: item.total_amount,
+    })),
+  ];
+
+  // Within a day, receipts come before payments, as in a written cash book
+  rows.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'income' ? -1 : 1));
+
+  let balance = opening;
+  const entries = rows.map(row => {
+    balance += row.receipt - row.payment;
+    return { ...row, balance };
+  });
+
+  const totalReceipts = rows.reduce((sum, row) => sum + row.receipt, 0);
+  const totalPayments = rows.reduce((sum, row) => sum + row.payment, 0);
+  return { opening, entries, totalReceipts, totalPayments, closing: opening + totalReceipts - totalPayments };
+};
@@ -0,0 +1,48 @@
+import { BOOK_NAMES, type StockBalance, type StockMovement } from './api';
+
+// ============================================================================
+// Stock levels
+// ============================================================================
+//
+// Balances come from /inventory/stock, which only lists titles that have had
+// a movement. Titles never received are shown as untracked rather than as
+// out of stock, so the dashboard only alerts on books we actually carry.
+
+export type StockLevel = 'ok' | 'low' | 'out' | 'untracked';
+
+export interface StockRow extends StockBalance {
+  level: StockLevel;
+}
+
+export const STOCK_LEVEL_LABELS: Record<StockLevel, string> = {
+  ok: 'In stock',
+  low: 'Low stock',
+  out: 'Out of stock',
+  untracked: 'Not tracked',
+};
+
+export const getStockLevel = (stock: StockBalance): StockLevel => {
+  if (stock.balance <= 0) return 'out';
+  if (stock.balance <= stock.low_stock_threshold) return 'low';
+  return 'ok';
+};
+
+// One row per title in BOOK_NAMES order, including untracked titles
+export const toStockRows = (balances: StockBalance[]): StockRow[] => {
+  const byName = new Map(balances.map(stock => [stock.book_name, stock]));
+  return BOOK_NAMES.map(bookName => {
+    const stock = byName.get(bookName);
+    return stock
+      ? { ...stock, level: getStockLevel(stock) }
+      : { book_name: bookName, balance: 0, low_stock_threshold: 0, level: 'untracked' };
+  });
+};
+
+export const getLowStockRows = (balances: StockBalance[]): StockRow[] =>
+  toStockRows(balances).filter(row => row.level === 'low' || row.level === 'out');
+
+export const describeMovement = (movement: StockMovement) => {
+  if (movement.type === 'out' && movement.reference_id) return 'Book seva distribution';
+  if (movement.type === 'in') return movement.received_from ? `Received from ${movement.received_from}` : 'Stock receipt';
+  return movement.remarks || 'Stock adjustment';
+};
@@ -0,0 +1,313 @@
+// ============================================================================
+// Offline Mutation Queue (IndexedDB)
+// ============================================================================
+//
+// Creates, updates and deletes that cannot reach the server are persisted
+// here and replayed in the order they were recorded once connectivity
+// returns. The queue knows nothing about HTTP; `api.ts` supplies the
+// executor used during replay.
+
+export type QueueEntity = 'book-seva' | 'calling-seva' | 'expenses' | 'income';
+
+export type MutationMethod = 'POST' | 'PUT' | 'DELETE';
+
+export type SyncState = 'pending' | 'syncing' | 'failed';
+
+export interface QueuedMutation {
+  seq?: number;
+  entity: QueueEntity;
+  method: MutationMethod;
+  url: string;
+  data?: any;
+  // Id of the record the mutation applies to. For offline creates this is a
+  // local id (see `createLocalId`) until the server assigns a real one.
+  recordId: string;
+  createdAt: number;
+  attempts: number;
+  state: SyncState;
+  lastError?: string;
+}
+
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+// Executes a single queued mutation against the server. Must throw an error
+// with `status === 0` for network failures so replay can stop early.
+export type MutationExecutor = (mutation: QueuedMutation) => Promise<any>;
+
+const DB_NAME = 'nds-kochi-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+const LOCAL_ID_PREFIX = 'local-';
+
+export const createLocalId = (): string => {
+  const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${LOCAL_ID_PREFIX}${random}`;
+};
+
+export const isLocalId = (id?: string | null): boolean =>
+  !!id && id.startsWith(LOCAL_ID_PREFIX);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class OfflineQueue {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static mutations: QueuedMutation[] = [];
+  private static loaded = false;
+  private static replaying: Promise<ReplayResult> | null = null;
+  private static listeners = new Set<(mutations: QueuedMutation[]) => void>();
+  private static replayListeners = new Set<(result: ReplayResult) => void>();
+  private static recordIdListeners = new Set<(localId: string, serverId: string) => void>();
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  public static isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  private static openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  // Load persisted mutations into memory. Safe to call repeatedly.
+  public static async load(): Promise<QueuedMutation[]> {
+    if (!this.isSupported()) return [];
+    if (!this.loaded) {
+      const store = await this.store('readonly');
+      const stored = await requestToPromise(store.getAll() as IDBRequest<QueuedMutation[]>);
+      // A mutation left in 'syncing' means the tab closed mid-replay.
+      this.mutations = stored.map(m => m.state === 'syncing' ? { ...m, state: 'pending' } : m);
+      this.loaded = true;
+      this.notifyListeners();
+    }
+    return this.mutations;
+  }
+
+  public static getAll(): QueuedMutation[] {
+    return this.mutations;
+  }
+
+  public static async enqueue(
+    mutation: Omit<QueuedMutation, 'seq' | 'createdAt' | 'attempts' | 'state'>
+  ): Promise<void> {
+    await this.load();
+
+    // Fold edits to a record that was itself created offline into the pending
+    // create, and cancel the create outright if the record is deleted.
+    const pendingCreate = isLocalId(mutation.recordId)
+      ? this.mutations.find(m => m.method === 'POST' && m.recordId === mutation.recordId && m.state !== 'syncing')
+      : undefined;
+
+    if (pendingCreate) {
+      if (mutation.method === 'DELETE') {
+        const related = this.mutations.filter(m => m.recordId === mutation.recordId);
+        await Promise.all(related.map(m => this.remove(m)));
+        return;
+      }
+      if (mutation.method === 'PUT') {
+        await this.put({ ...pendingCreate, data: { ...pendingCreate.data, ...mutation.data } });
+        return;
+      }
+    }
+
+    await this.put({
+      ...mutation,
+      createdAt: Date.now(),
+      attempts: 0,
+      state: 'pending',
+    });
+  }
+
+  private static async put(mutation: QueuedMutation): Promise<void> {
+    // New entries must not carry a `seq` key at all or the key generator
+    // won't assign one.
+    const { seq: existingSeq, ...rest } = mutation;
+    const store = await this.store('readwrite');
+    const seq = await requestToPromise(store.put(existingSeq === undefined ? rest : mutation));
+    const saved = { ...mutation, seq: seq as number };
+
+    const index = this.mutations.findIndex(m => m.seq === saved.seq);
+    if (index >= 0) {
+      this.mutations = this.mutations.map((m, i) => (i === index ? saved : m));
+    } else {
+      this.mutations = [...this.mutations, saved];
+    }
+    this.notifyListeners();
+  }
+
+  public static async remove(mutation: QueuedMutation): Promise<void> {
+    if (mutation.seq === undefined) return;
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(mutation.seq));
+    this.mutations = this.mutations.filter(m => m.seq !== mutation.seq);
+    this.notifyListeners();
+  }
+
+  // Mark failed mutations as pending so the next replay picks them up again.
+  public static async retryFailed(): Promise<void> {
+    await this.load();
+    const failed = this.mutations.filter(m => m.state === 'failed');
+    for (const mutation of failed) {
+      await this.put({ ...mutation, state: 'pending', lastError: undefined });
+    }
+  }
+
+  public static async discardFailed(): Promise<void> {
+    await this.load();
+    const failed = this.mutations.filter(m => m.state === 'failed');
+    await Promise.all(failed.map(m => this.remove(m)));
+  }
+
+  // Replay pending mutations in order. Concurrent calls share one run.
+  public static replay(executor: MutationExecutor): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(executor)
+        .then(result => {
+          this.replayListeners.forEach(listener => listener(result));
+          return result;
+        })
+        .finally(() => {
+          this.replaying = null;
+        });
+    }
+    return this.replaying;
+  }
+
+  public static isReplaying(): boolean {
+    return this.replaying !== null;
+  }
+
+  private static async runReplay(executor: MutationExecutor): Promise<ReplayResult> {
+    await this.load();
+    const result: ReplayResult = { synced: 0, failed: 0, remaining: 0 };
+    const failedRecords = new Set<string>();
+
+    for (const queued of [...this.mutations]) {
+      const mutation = this.mutations.find(m => m.seq === queued.seq);
+      if (!mutation || mutation.state === 'failed') continue;
+
+      // Don't send updates for a record whose create was rejected.
+      if (failedRecords.has(mutation.recordId)) {
+        await this.put({ ...mutation, state: 'failed', lastError: 'Depends on a failed change' });
+        result.failed++;
+        continue;
+      }
+
+      await this.put({ ...mutation, state: 'syncing', attempts: mutation.attempts + 1 });
+
+      try {
+        const response = await executor(mutation);
+        await this.remove(mutation);
+        result.synced++;
+
+        if (mutation.method === 'POST' && isLocalId(mutation.recordId) && response?.id) {
+          await this.rewriteRecordId(mutation.recordId, String(response.id));
+        }
+      } catch (error: any) {
+        if (error?.status === 0) {
+          // Still offline: leave this and everything after it for next time.
+          await this.put({ ...mutation, state: 'pending', attempts: mutation.attempts + 1 });
+          break;
+        }
+        await this.put({
+          ...mutation,
+          state: 'failed',
+          attempts: mutation.attempts + 1,
+          lastError: error?.message || 'Sync failed',
+        });
+        failedRecords.add(mutation.recordId);
+        result.failed++;
+      }
+    }
+
+    result.remaining = this.mutations.filter(m => m.state !== 'failed').length;
+    return result;
+  }
+
+  // Point queued mutations for an offline-created record at its server id.
+  private static async rewriteRecordId(localId: string, serverId: string): Promise<void> {
+    const related = this.mutations.filter(m => m.recordId === localId);
+    for (const mutation of related) {
+      await this.put({
+        ...mutation,
+        recordId: serverId,
+        url: mutation.url.replace(localId, serverId),
+      });
+    }
+    this.recordIdListeners.forEach(listener => listener(localId, serverId));
+  }
+
+  public static subscribe(listener: (mutations: QueuedMutation[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public static subscribeReplay(listener: (result: ReplayResult) => void): () => void {
+    this.replayListeners.add(listener);
+    return () => this.replayListeners.delete(listener);
+  }
+
+  // Notified when an offline-created record gets its server id
+  public static subscribeRecordIds(listener: (localId: string, serverId: string) => void): () => void {
+    this.recordIdListeners.add(listener);
+    return () => this.recordIdListeners.delete(listener);
+  }
+
+  private static notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.mutations));
+  }
+}
+
+// ============================================================================
+// Helpers for rendering sync state in tables
+// ============================================================================
+
+// Latest queued mutation per record id for one entity.
+export const getSyncStates = (
+  mutations: QueuedMutation[],
+  entity: QueueEntity
+): Map<string, QueuedMutation> => {
+  const states = new Map<string, QueuedMutation>();
+  mutations
+    .filter(m => m.entity === entity)
+    .forEach(m => states.set(m.recordId, m));
+  return states;
+};
+
+// Records created offline that the server has not seen yet.
+export const getPendingCreates = <T>(mutations: QueuedMutation[], entity: QueueEntity): T[] =>
+  mutations
+    .filter(m => m.entity === entity && m.method === 'POST' && isLocalId(m.recordId))
+    .map(m => ({ ...m.data, id: m.recordId }) as T);
@@ -0,0 +1,86 @@
+// ============================================================================
+// Roles & Permissions
+// ============================================================================
+//
+// The backend returns a `role` on the current user and may also return an
+// explicit `permissions` list, which takes precedence over the role defaults
+// below. The UI only hides or disables actions; the API enforces them.
+
+export const USER_ROLES = ['admin', 'coordinator', 'caller', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Modules that appear in the navigation
+export const MODULES = ['dashboard', 'book-seva', 'calling-seva', 'expenses', 'income', 'inventory'] as const;
+export type Module = typeof MODULES[number];
+
+// `manage` covers module-wide settings, such as the WhatsApp templates
+// used by Calling Seva; `approve` covers sign-off, such as expense approvals
+export type Action = 'view' | 'create' | 'edit' | 'delete' | 'export' | 'manage' | 'approve';
+
+export type Permission = `${Module}:${Action}`;
+
+const all = (module: Module): Permission[] =>
+  (['view', 'create', 'edit', 'delete', 'export', 'manage', 'approve'] as Action[]).map(action => `${module}:${action}` as Permission);
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: MODULES.flatMap(all),
+  coordinator: [
+    'dashboard:view',
+    ...all('book-seva'),
+    ...all('calling-seva'),
+    'expenses:view',
+    'expenses:create',
+    'expenses:edit',
+    'expenses:export',
+    'expenses:approve',
+    'income:view',
+    'income:create',
+    'income:edit',
+    'income:export',
+    'inventory:view',
+    'inventory:create',
+    'inventory:edit',
+    'inventory:export',
+  ],
+  caller: [
+    'dashboard:view',
+    'book-seva:view',
+    'book-seva:create',
+    'calling-seva:view',
+    'calling-seva:create',
+    'calling-seva:edit',
+    'inventory:view',
+  ],
+  viewer: [
+    'dashboard:view',
+    'book-seva:view',
+    'calling-seva:view',
+    'expenses:view',
+    'income:view',
+    'inventory:view',
+  ],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  coordinator: 'Coordinator',
+  caller: 'Caller',
+  viewer: 'Viewer',
+};
+
+// Backends from before roles don't send one; their users keep the full
+// access they had
+const DEFAULT_ROLE: UserRole = 'admin';
+
+// A missing role gets the default; an unrecognised one gets the least
+// privileged role
+export const normalizeRole = (role?: string | null): UserRole => {
+  if (!role) return DEFAULT_ROLE;
+  return USER_ROLES.includes(role as UserRole) ? (role as UserRole) : 'viewer';
+};
+
+export const getPermissions = (user?: { role?: string; permissions?: string[] } | null): Set<Permission> => {
+  if (!user) return new Set();
+  if (Array.isArray(user.permissions)) return new Set(user.permissions as Permission[]);
+  return new Set(ROLE_PERMISSIONS[normalizeRole(user.role)]);
+};
@@ -0,0 +1,115 @@
+// ============================================================================
+// Phone numbers
+// ============================================================================
+//
+// Numbers are stored in E.164 (+<country code><number>, digits only). Input
+// without a country code is treated as Indian, so a bare 10-digit Nepali
+// number must be entered with +977. Only the countries our contacts come
+// from are validated by length; other codes pass the generic E.164 check.
+
+export interface PhoneCountry {
+  iso: string;
+  name: string;
+  dialCode: string;
+  // Allowed lengths of the number after the country code
+  lengths: number[];
+}
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { iso: 'IN', name: 'India', dialCode: '91', lengths: [10] },
+  { iso: 'NP', name: 'Nepal', dialCode: '977', lengths: [8, 10] },
+  { iso: 'AE', name: 'UAE', dialCode: '971', lengths: [8, 9] },
+  { iso: 'SA', name: 'Saudi Arabia', dialCode: '966', lengths: [8, 9] },
+  { iso: 'QA', name: 'Qatar', dialCode: '974', lengths: [8] },
+  { iso: 'OM', name: 'Oman', dialCode: '968', lengths: [8] },
+  { iso: 'KW', name: 'Kuwait', dialCode: '965', lengths: [8] },
+  { iso: 'BH', name: 'Bahrain', dialCode: '973', lengths: [8] },
+  { iso: 'BD', name: 'Bangladesh', dialCode: '880', lengths: [10] },
+  { iso: 'LK', name: 'Sri Lanka', dialCode: '94', lengths: [9] },
+  { iso: 'MV', name: 'Maldives', dialCode: '960', lengths: [7] },
+  { iso: 'SG', name: 'Singapore', dialCode: '65', lengths: [8] },
+  { iso: 'MY', name: 'Malaysia', dialCode: '60', lengths: [9, 10] },
+  { iso: 'GB', name: 'United Kingdom', dialCode: '44', lengths: [10] },
+  { iso: 'US', name: 'USA / Canada', dialCode: '1', lengths: [10] },
+  { iso: 'AU', name: 'Australia', dialCode: '61', lengths: [9] },
+];
+
+const DEFAULT_COUNTRY = PHONE_COUNTRIES[0];
+
+// E.164 allows at most 15 digits including the country code
+const MIN_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+export type PhoneParseResult =
+  | { valid: true; e164: string; country?: PhoneCountry }
+  | { valid: false; error: string };
+
+// Longest dial code first, so +977 isn't read as +97...
+const findCountry = (digits: string): PhoneCountry | undefined =>
+  [...PHONE_COUNTRIES]
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)
+    .find(country => digits.startsWith(country.dialCode));
+
+const checkInternational = (digits: string, raw: string): PhoneParseResult => {
+  if (digits.length < MIN_DIGITS || digits.length > MAX_DIGITS) {
+    return { valid: false, error: `"${raw}" is not a valid phone number` };
+  }
+
+  const country = findCountry(digits);
+  if (!country) return { valid: true, e164: `+${digits}` };
+
+  const national = digits.slice(country.dialCode.length).replace(/^0/, '');
+  if (!country.lengths.includes(national.length)) {
+    return {
+      valid: false,
+      error: `${country.name} numbers have ${country.lengths.join(' or ')} digits after +${country.dialCode}`,
+    };
+  }
+  return { valid: true, e164: `+${country.dialCode}${national}`, country };
+};
+
+export const parsePhoneNumber = (raw: string | null | undefined): PhoneParseResult => {
+  const value = (raw || '').trim();
+  if (!value) return { valid: false, error: 'Mobile number is required' };
+  if (/[a-z]/i.test(value)) return { valid: false, error: 'Mobile number can only contain digits' };
+
+  const digits = value.replace(/\D/g, '');
+
+  // Explicit country code: +971..., or the 00 international prefix
+  if (value.startsWith('+')) return checkInternational(digits, value);
+  if (digits.startsWith('00')) return checkInternational(digits.slice(2), value);
+
+  // National format, with or without the trunk 0
+  const national = digits.replace(/^0/, '');
+  if (DEFAULT_COUNTRY.lengths.includes(national.length)) {
+    return { valid: true, e164: `+${DEFAULT_COUNTRY.dialCode}${national}`, country: DEFAULT_COUNTRY };
+  }
+
+  // Country code typed without the +, e.g. 919876543210 or 971501234567
+  if (findCountry(digits)) return checkInternational(digits, value);
+
+  return { valid: false, error: `"${value}" is not a valid phone number; add the country code, e.g. +977` };
+};
+
+// E.164 form of a number, or null if it can't be parsed
+export const normalizePhoneNumber = (raw: string | null | undefined): string | null => {
+  const result = parsePhoneNumber(raw);
+  return result.valid ? result.e164 : null;
+};
+
+// Readable form for exports: Indian numbers in national format
+// ("98765 43210"), others with their country code ("+977 9812345678").
+// The space keeps spreadsheet apps from reading the number as a number.
+export const formatPhoneNumber = (raw: string | null | undefined): string => {
+  const result = parsePhoneNumber(raw);
+  if (!result.valid) return (raw || '').trim();
+
+  const { e164, country } = result;
+  if (!country) return e164;
+  const national = e164.slice(country.dialCode.length + 1);
+  if (country === DEFAULT_COUNTRY) return `${national.slice(0, 5)} ${national.slice(5)}`;
+  return `+${country.dialCode} ${national}`;
+};
+
+// wa.me expects the full number as digits only
+export const toWhatsAppNumber = (e164: string): string => e164.replace(/\D/g, '');
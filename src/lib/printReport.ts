@@ -0,0 +1,140 @@
+import { formatExportValue } from './exportColumns';
+import type { Report, ReportTable } from './reports';
+
+// ============================================================================
+// PDF reports
+// ============================================================================
+//
+// Reports are laid out as HTML in a hidden frame and handed to the browser's
+// print dialog, where "Save as PDF" produces the file. The browser renders
+// Hindi and Malayalam text with the system fonts, which a hand-written PDF
+// could not. Page numbers use @page margin boxes, which Chromium supports;
+// other browsers print without them.
+
+// Shown on the letterhead, as in the app header
+const ORGANIZATION = 'NDS-Kochi';
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const STYLES = `
+@page {
+  size: A4;
+  margin: 14mm 12mm 16mm;
+  @bottom-center {
+    content: "Page " counter(page) " of " counter(pages);
+    font: 9pt system-ui, sans-serif;
+    color: #6b7280;
+  }
+}
+body { font: 10pt system-ui, "Noto Sans", "Noto Sans Devanagari", "Noto Sans Malayalam", sans-serif; color: #111827; margin: 0; }
+.letterhead { text-align: center; border-bottom: 2px solid #ee5144; padding-bottom: 8px; margin-bottom: 12px; }
+.letterhead img { height: 60px; }
+.letterhead h1 { font-size: 16pt; margin: 6px 0 0; }
+.letterhead .org { font-size: 11pt; color: #4b5563; }
+.meta { display: flex; flex-wrap: wrap; justify-content: center; gap: 4px 16px; font-size: 9pt; color: #4b5563; margin-bottom: 12px; }
+h2 { font-size: 12pt; margin: 16px 0 6px; }
+table { width: 100%; border-collapse: collapse; }
+thead { display: table-header-group; }
+tr { page-break-inside: avoid; }
+th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+th { background: #e6e7eb; }
+td.num, th.num { text-align: right; white-space: nowrap; }
+tfoot td { font-weight: 600; border-top: 2px solid #111827; }
+.summary { margin-top: 16px; }
+.generated { margin-top: 16px; font-size: 8pt; color: #6b7280; text-align: right; }
+`;
+
+const isNumeric = (type: string) => type === 'number' || type === 'currency';
+
+const tableHtml = (table: ReportTable) => {
+  const head = table.columns
+    .map(column => `<th${isNumeric(column.type) ? ' class="num"' : ''}>${escapeHtml(column.header)}</th>`)
+    .join('');
+  const body = table.rows
+    .map(values => `<tr>${values.map((value, c) => {
+      const column = table.columns[c];
+      return `<td${isNumeric(column.type) ? ' class="num"' : ''}>${escapeHtml(formatExportValue(value, column.type))}</td>`;
+    }).join('')}</tr>`)
+    .join('');
+  const foot = table.totals
+    ? `<tfoot><tr>${table.columns.map((column, c) => {
+      const total = table.totals?.[c];
+      if (total === null || total === undefined) return `<td>${c === 0 ? 'Total' : ''}</td>`;
+      return `<td class="num">${escapeHtml(formatExportValue(total, column.type))}</td>`;
+    }).join('')}</tr></tfoot>`
+    : '';
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody>${foot}</table>`;
+};
+
+// Grand totals per group, for grouped reports
+const summaryHtml = (report: Report) => {
+  const totalled = report.all.columns
+    .map((column, c) => ({ column, c }))
+    .filter(({ column }) => column.total);
+  if (totalled.length === 0) return '';
+  const rows = [...report.groups, { ...report.all, name: 'All' }]
+    .map(table => `<tr><td>${escapeHtml(table.name)}</td>${totalled
+      .map(({ column, c }) => `<td class="num">${escapeHtml(formatExportValue(table.totals?.[c] ?? 0, column.type))}</td>`)
+      .join('')}</tr>`);
+  const last = rows.pop();
+  return `<div class="summary"><h2>Summary</h2><table><thead><tr><th></th>${totalled
+    .map(({ column }) => `<th class="num">${escapeHtml(column.header)}</th>`)
+    .join('')}</tr></thead><tbody>${rows.join('')}</tbody><tfoot>${last}</tfoot></table></div>`;
+};
+
+export const buildReportHtml = (report: Report) => {
+  const { meta } = report;
+  const details = [
+    meta.period ? `<span><strong>Period:</strong> ${escapeHtml(meta.period)}</span>` : '',
+    ...meta.filters.map(f => `<span><strong>${escapeHtml(f.label)}:</strong> ${escapeHtml(f.value)}</span>`),
+    `<span><strong>Records:</strong> ${report.all.rows.length}</span>`,
+  ].join('');
+
+  const content = report.groups.length > 0
+    ? report.groups.map(table => `<h2>${escapeHtml(table.name)}</h2>${tableHtml(table)}`).join('') + summaryHtml(report)
+    : tableHtml(report.all);
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(meta.title)}</title><style>${STYLES}</style></head>
+<body>
+<header class="letterhead">
+<img src="${window.location.origin}/logo.jpg" alt="">
+<div class="org">${escapeHtml(ORGANIZATION)}</div>
+<h1>${escapeHtml(meta.title)}</h1>
+</header>
+<div class="meta">${details}</div>
+${content}
+<div class="generated">Generated ${escapeHtml(new Date().toLocaleString('en-IN'))}</div>
+</body></html>`;
+};
+
+// Opens the print dialog for the report. The frame is removed after printing.
+export const printReport = (report: Report) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+
+  const cleanup = () => frame.remove();
+
+  // onload fires after the logo has loaded, so it is in the printout
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) {
+      cleanup();
+      return;
+    }
+    view.addEventListener('afterprint', () => setTimeout(cleanup, 0));
+    view.focus();
+    view.print();
+  };
+
+  frame.srcdoc = buildReportHtml(report);
+  document.body.appendChild(frame);
+};
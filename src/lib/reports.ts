@@ -0,0 +1,86 @@
+import { formatExportDate, type ExportColumn, type ExportColumnType, type ExportValue } from './exportColumns';
+
+// ============================================================================
+// Reports (XLSX and PDF)
+// ============================================================================
+//
+// A report is one or more tables built from an entity's export columns, plus
+// the heading shown above them: title, date range and the filters applied.
+// Grouped reports (expenses by category) get a table per group as well as
+// the combined table.
+
+export interface ReportMeta {
+  title: string;
+  // e.g. "01 Jan 2026 – 31 Jan 2026"
+  period?: string;
+  filters: { label: string; value: string }[];
+}
+
+export interface ReportColumn {
+  header: string;
+  type: ExportColumnType;
+  total: boolean;
+}
+
+export interface ReportTable {
+  name: string;
+  columns: ReportColumn[];
+  rows: ExportValue[][];
+  // Sum per column, null for columns that aren't totalled; null when no
+  // column is totalled
+  totals: (number | null)[] | null;
+}
+
+export interface Report {
+  meta: ReportMeta;
+  all: ReportTable;
+  groups: ReportTable[];
+}
+
+const buildTable = <T>(name: string, columns: ExportColumn<T>[], records: T[]): ReportTable => {
+  const rows = records.map(record => columns.map(column => column.value(record)));
+  const hasTotals = columns.some(column => column.total);
+  return {
+    name,
+    columns: columns.map(column => ({ header: column.header, type: column.type ?? 'text', total: !!column.total })),
+    rows,
+    totals: hasTotals
+      ? columns.map((column, i) => column.total
+        ? rows.reduce<number>((sum, row) => sum + (typeof row[i] === 'number' ? row[i] : 0), 0)
+        : null)
+      : null,
+  };
+};
+
+export const buildReport = <T>(
+  meta: ReportMeta,
+  columns: ExportColumn<T>[],
+  keys: string[],
+  records: T[],
+  groupBy?: (record: T) => string
+): Report => {
+  const chosen = columns.filter(column => keys.includes(column.key));
+  const groups = new Map<string, T[]>();
+  if (groupBy) {
+    records.forEach(record => {
+      const key = groupBy(record);
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    });
+  }
+  return {
+    meta,
+    all: buildTable(meta.title, chosen, records),
+    groups: [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, list]) => buildTable(name, chosen, list)),
+  };
+};
+
+// "01 Jan 2026 – 31 Jan 2026" from yyyy-mm-dd bounds
+export const formatPeriod = (from?: string, to?: string) => {
+  const format = (value: string) => formatExportDate(new Date(`${value}T00:00:00`));
+  if (from && to) return `${format(from)} – ${format(to)}`;
+  if (from) return `From ${format(from)}`;
+  if (to) return `Until ${format(to)}`;
+  return undefined;
+};
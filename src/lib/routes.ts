@@ -0,0 +1,36 @@
+import type { Module } from './permissions';
+
+// ============================================================================
+// Routes
+// ============================================================================
+//
+// Every module has its own static route so that refresh, the back button and
+// shared links work with the `output: 'export'` build.
+
+export const LOGIN_ROUTE = '/';
+
+export const MODULE_ROUTES: Record<Module, string> = {
+  dashboard: '/dashboard',
+  'book-seva': '/book-seva',
+  'calling-seva': '/calling-seva',
+  expenses: '/expenses',
+  income: '/income',
+  inventory: '/inventory',
+};
+
+const stripTrailingSlash = (path: string) =>
+  path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+
+export const moduleForPath = (pathname: string | null): Module | null => {
+  if (!pathname) return null;
+  const path = stripTrailingSlash(pathname);
+  const match = (Object.entries(MODULE_ROUTES) as [Module, string][]).find(([, route]) => route === path);
+  return match ? match[0] : null;
+};
+
+// Only allow redirects back into the app, never to another origin. Browsers
+// read `\` as `/`, so `/\evil.example` would be protocol-relative too.
+export const safeRedirectPath = (next?: string | null): string =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.includes('\\') && next !== LOGIN_ROUTE
+    ? next
+    : MODULE_ROUTES.dashboard;
@@ -0,0 +1,187 @@
+// ============================================================================
+// Spreadsheet reading (CSV and XLSX)
+// ============================================================================
+//
+// Both formats are read into a grid of strings. XLSX files are zip archives
+// of XML parts; only the first worksheet is read, using the browser's
+// DecompressionStream and DOMParser, so no spreadsheet library is needed.
+
+export type SheetRows = string[][];
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Comma unless the header line clearly uses semicolons or tabs
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length - 1] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+};
+
+// RFC 4180: quoted fields may contain delimiters, "" escapes and line breaks
+export const parseCsv = (input: string): SheetRows => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- Zip ---------------------------------------------------------------------
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record, searched from the end past any comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<string>>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30
+        + view.getUint16(localOffset + 26, true)
+        + view.getUint16(localOffset + 28, true);
+      const data = bytes.slice(dataStart, dataStart + compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error('Unsupported compression in .xlsx file');
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// --- XLSX --------------------------------------------------------------------
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Tags are matched by local name since the parts use namespaces
+const children = (parent: Element | Document, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const findFirstSheetPath = async (entries: Map<string, () => Promise<string>>): Promise<string> => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = children(parseXml(await workbook()), 'sheet')[0];
+    const relId = sheet?.getAttribute('r:id')
+      ?? sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const target = children(parseXml(await rels()), 'Relationship')
+      .find(rel => rel.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+
+  const fallback = [...entries.keys()].filter(name => name.startsWith('xl/worksheets/sheet')).sort()[0];
+  if (!fallback) throw new Error('The .xlsx file has no worksheets');
+  return fallback;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const entries = await readZipEntries(buffer);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? children(parseXml(await sharedStringsEntry()), 'si').map(si =>
+      children(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const sheet = parseXml(await entries.get(await findFirstSheetPath(entries))!());
+  const rows: SheetRows = [];
+
+  children(sheet, 'row').forEach(rowElement => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+    const row: string[] = [];
+    children(rowElement, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = children(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = children(cell, 't').map(t => t.textContent || '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+
+      row[index] = text;
+    });
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+  });
+
+  return Array.from(rows, row => row ?? []);
+};
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  throw new Error('Please choose a .csv or .xlsx file');
+};
+
+// Excel stores dates as days since 1899-12-30
+export const fromExcelSerial = (serial: number): Date =>
+  new Date(Math.round((serial - 25569) * 24 * 60 * 60 * 1000));
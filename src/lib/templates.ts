@@ -0,0 +1,61 @@
+import type { CallingSevaRead } from './api';
+
+// ============================================================================
+// WhatsApp message templates
+// ============================================================================
+//
+// Placeholders are written as {key}. Keys the record can't supply are left
+// in the text so the caller notices them in the preview.
+
+export const TEMPLATE_LANGUAGES = [
+  'english',
+  'hindi',
+  'malayalam',
+  'tamil',
+  'kannada',
+  'bengali',
+  'assam',
+  'odia',
+  'nepali',
+] as const;
+
+export const TEMPLATE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'name', description: "Seeker's name" },
+  { key: 'bhagat', description: 'Assigned bhagat' },
+  { key: 'mobile', description: "Seeker's mobile number" },
+  { key: 'date', description: "Today's date" },
+  { key: 'book', description: 'Book title, chosen when sending' },
+];
+
+export type TemplateValues = Partial<Record<string, string>>;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export const getPlaceholders = (body: string): string[] =>
+  [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+
+export const renderTemplate = (body: string, values: TemplateValues): string =>
+  body.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key]?.trim() || placeholder);
+
+const capitalize = (value?: string) =>
+  value ? value.charAt(0).toUpperCase() + value.slice(1) : undefined;
+
+export const getTemplateValues = (
+  record: Partial<CallingSevaRead>,
+  extra: TemplateValues = {}
+): TemplateValues => ({
+  name: record.name,
+  bhagat: capitalize(record.assigned_bhagat_name),
+  mobile: record.mobile_no,
+  date: new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
+  ...extra,
+});
+
+// Shown in the template editor's live preview
+export const SAMPLE_TEMPLATE_VALUES: TemplateValues = {
+  name: 'Ravi',
+  bhagat: 'Suresh',
+  mobile: '+919876543210',
+  date: new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
+  book: 'Gyan Ganga (Malayalam)',
+};
@@ -0,0 +1,280 @@
+import { formatExportValue, type ExportValue } from './exportColumns';
+import type { Report, ReportTable } from './reports';
+
+// ============================================================================
+// XLSX writing
+// ============================================================================
+//
+// Writes a report as a workbook with one sheet per table. The parts are
+// plain SpreadsheetML stored (uncompressed) in a zip, so no spreadsheet
+// library is needed. Numbers and dates are written as typed cells, and
+// totals rows use SUM formulas with the computed value cached for viewers
+// that don't recalculate.
+
+const encoder = new TextEncoder();
+
+// ----------------------------------------------------------------------------
+// Zip (store only)
+// ----------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01, the earliest date zip can hold
+const DOS_DATE = (1 << 5) | 1;
+
+const zipStore = (files: { name: string; content: string }[]): Uint8Array<ArrayBuffer> => {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + name.length);
+    const h = new DataView(header.buffer);
+    h.setUint32(0, 0x04034b50, true);
+    h.setUint16(4, 20, true); // version needed
+    h.setUint16(6, 0x0800, true); // UTF-8 names
+    h.setUint16(8, 0, true); // stored
+    h.setUint16(12, DOS_DATE, true);
+    h.setUint32(14, crc, true);
+    h.setUint32(18, data.length, true);
+    h.setUint32(22, data.length, true);
+    h.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const e = new DataView(entry.buffer);
+    e.setUint32(0, 0x02014b50, true);
+    e.setUint16(4, 20, true); // version made by
+    e.setUint16(6, 20, true);
+    e.setUint16(8, 0x0800, true);
+    e.setUint16(10, 0, true);
+    e.setUint16(14, DOS_DATE, true);
+    e.setUint32(16, crc, true);
+    e.setUint32(20, data.length, true);
+    e.setUint32(24, data.length, true);
+    e.setUint16(28, name.length, true);
+    e.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    local.push(header, data);
+    central.push(entry);
+    offset += header.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const z = new DataView(end.buffer);
+  z.setUint32(0, 0x06054b50, true);
+  z.setUint16(8, files.length, true);
+  z.setUint16(10, files.length, true);
+  z.setUint32(12, centralSize, true);
+  z.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, end];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    out.set(part, position);
+    position += part.length;
+  });
+  return out;
+};
+
+// ----------------------------------------------------------------------------
+// SpreadsheetML
+// ----------------------------------------------------------------------------
+
+const escapeXml = (value: string) => value
+  // Control characters other than tab and line breaks are invalid in XML
+  // eslint-disable-next-line no-control-regex
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Cell style indexes into cellXfs below
+const STYLE = {
+  default: 0,
+  header: 1,
+  date: 2,
+  number: 3,
+  currency: 4,
+  title: 5,
+  totalLabel: 6,
+  totalNumber: 7,
+  totalCurrency: 8,
+} as const;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="dd mmm yyyy"/><numFmt numFmtId="165" formatCode="&quot;₹&quot;#,##0.00"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE6E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top style="thin"/><bottom style="double"/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="9">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+<xf numFmtId="3" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+<xf numFmtId="165" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const columnLetter = (index: number) => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Days since 1899-12-30 for the local calendar day
+const toExcelSerial = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / (24 * 60 * 60 * 1000) + 25569;
+
+const stringCell = (ref: string, value: string, style: number = STYLE.default) =>
+  `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const valueCell = (ref: string, value: ExportValue, type: string) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelSerial(value)}</v></c>`;
+  if (typeof value === 'number') {
+    const style = type === 'currency' ? STYLE.currency : STYLE.number;
+    return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  }
+  return stringCell(ref, value);
+};
+
+const row = (index: number, cells: string[]) => `<row r="${index}">${cells.join('')}</row>`;
+
+const sheetXml = (table: ReportTable, meta: Report['meta']) => {
+  const rows: string[] = [];
+  const heading = [meta.title, table.name !== meta.title ? table.name : ''].filter(Boolean).join(' — ');
+  const details = [meta.period, ...meta.filters.map(f => `${f.label}: ${f.value}`)].filter(Boolean).join(' · ');
+
+  rows.push(row(1, [stringCell('A1', heading, STYLE.title)]));
+  rows.push(row(2, details ? [stringCell('A2', details)] : []));
+  const headerRow = 4;
+  rows.push(row(headerRow, table.columns.map((column, c) => stringCell(`${columnLetter(c)}${headerRow}`, column.header, STYLE.header))));
+
+  const firstData = headerRow + 1;
+  table.rows.forEach((values, r) => {
+    const index = firstData + r;
+    rows.push(row(index, values.map((value, c) => valueCell(`${columnLetter(c)}${index}`, value, table.columns[c].type))));
+  });
+
+  if (table.totals) {
+    const index = firstData + table.rows.length;
+    const lastData = index - 1;
+    rows.push(row(index, table.columns.map((column, c) => {
+      const ref = `${columnLetter(c)}${index}`;
+      const total = table.totals?.[c];
+      if (total === null || total === undefined) {
+        return c === 0 ? stringCell(ref, 'Total', STYLE.totalLabel) : `<c r="${ref}" s="${STYLE.totalLabel}"/>`;
+      }
+      const style = column.type === 'currency' ? STYLE.totalCurrency : STYLE.totalNumber;
+      const formula = table.rows.length > 0 ? `SUM(${columnLetter(c)}${firstData}:${columnLetter(c)}${lastData})` : '0';
+      return `<c r="${ref}" s="${style}"><f>${formula}</f><v>${total}</v></c>`;
+    })));
+  }
+
+  // Width from the longest text in each column, within reason
+  const widths = table.columns.map((column, c) => {
+    const longest = table.rows.reduce(
+      (max, values) => Math.max(max, formatExportValue(values[c], column.type).length),
+      column.header.length
+    );
+    return Math.min(50, Math.max(10, longest + 2));
+  });
+  const cols = widths.map((width, c) => `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="${headerRow}" topLeftCell="A${firstData}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${rows.join('')}</sheetData>
+</worksheet>`;
+};
+
+// Excel limits sheet names to 31 characters without []:*?/\ and they must
+// be unique
+const sheetNames = (tables: ReportTable[]) => {
+  const used = new Set<string>();
+  return tables.map(table => {
+    const base = table.name.replace(/[[\]:*?/\\]/g, '-').slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - `(${n})`.length)}(${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+export const buildXlsx = (report: Report): Blob => {
+  const tables = [report.all, ...report.groups];
+  const names = sheetNames(tables);
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${tables.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...tables.map((table, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(table, report.meta) })),
+  ];
+
+  return new Blob([zipStore(files)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
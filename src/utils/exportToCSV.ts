@@ -1,12 +1,32 @@
-export const exportToCSV = (headers: string[], rows: (string | number)[][], filename: string) => {
-    const csv = [headers, ...rows].map(r => r.join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+export type CsvCell = string | number | null | undefined;
+
+// RFC 4180: quote fields holding a delimiter, quote or line break, and
+// double any quotes inside. Text that a spreadsheet app would run as a
+// formula is prefixed with an apostrophe first; numbers are left as is.
+const escapeCell = (cell: CsvCell) => {
+    let value = cell === null || cell === undefined ? "" : String(cell);
+    if (typeof cell === "string" && /^[=+\-@\t\r]/.test(value)) value = `'${value}`;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCSV = (headers: string[], rows: CsvCell[][]) =>
+    [headers, ...rows].map(r => r.map(escapeCell).join(",")).join("\r\n");
+
+export const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement("a");
     link.href = url;
-    link.setAttribute("download", `${filename}.csv`);
+    link.setAttribute("download", filename);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// The BOM makes Excel read the file as UTF-8, so Hindi and Malayalam text
+// opens intact
+export const exportToCSV = (headers: string[], rows: CsvCell[][], filename: string) => {
+    const csv = "\uFEFF" + toCSV(headers, rows);
+    downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8;" }), `${filename}.csv`);
 };